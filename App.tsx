@@ -1,10 +1,36 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { OrgChart } from './components/OrgChart';
-import { Person, LineSettings, CardSettings } from './types';
+import { CsvImportWizard } from './components/CsvImportWizard';
+import { PdfExportDialog } from './components/PdfExportDialog';
+import { BranchExportDialog, BranchExportFormat } from './components/BranchExportDialog';
+import { FilterPanel } from './components/FilterPanel';
+import { PeopleGrid } from './components/PeopleGrid';
+import { IntegrityPanel } from './components/IntegrityPanel';
+import { PlanningSummaryDialog } from './components/PlanningSummaryDialog';
+import { ImportErrorsDialog } from './components/ImportErrorsDialog';
+import { SnapshotsPanel } from './components/SnapshotsPanel';
+import { WorkspaceSwitcher } from './components/WorkspaceSwitcher';
+import { ScenarioComparisonPanel } from './components/ScenarioComparisonPanel';
+import { MergeDialog } from './components/MergeDialog';
+import { TimeTravelControl } from './components/TimeTravelControl';
+import { Person, LineSettings, CardSettings, CustomFieldDefinition, RelationshipType } from './types';
 import { INITIAL_PEOPLE, DEPARTMENTS, LOCATIONS, DEPT_COLORS, JOB_TITLES } from './constants';
-import { Plus, Upload, Save, RotateCcw, RotateCw, Download } from 'lucide-react';
-import { toPng } from 'html-to-image';
+import { Plus, Upload, Save, RotateCcw, RotateCw, Download, ChevronDown, ImageIcon, FileSpreadsheet, FileCode, FileText, Filter, Network, Table, ShieldCheck, Camera, GitCompare, GitMerge, Wallet } from 'lucide-react';
 import { useHistoryState } from './hooks/useHistoryState';
+import { buildPeopleCsv } from './utils/csvExport';
+import { downloadBlob } from './utils/download';
+import { buildChartSvg } from './utils/svgExport';
+import { captureChartPng } from './utils/imageExport';
+import { buildChartPdf, PdfExportOptions } from './utils/pdfExport';
+import { getDescendantIds, getManagerChain, extractBranch, computeEffectiveTiers, ReportHandling } from './utils/hierarchy';
+import { parseSaveFile, serializeSaveFile, SaveFileData } from './utils/saveFormat';
+import { loadDocument, saveDocument, listWorkspaces, createWorkspace, renameWorkspace, deleteWorkspace, Workspace, DEFAULT_WORKSPACE_ID } from './utils/storage';
+import { compareScenario } from './utils/scenario';
+import { todayIso, getPeopleAsOf, applyDatedEdit, schedulePersonUpdate, deletePeopleAsOf } from './utils/effectiveDating';
+import { removeCustomFieldValues, getCustomFieldOptions } from './utils/customFields';
+import { DEFAULT_RELATIONSHIP_TYPES, removeRelationshipsOfType } from './utils/relationships';
+import { checkIntegrity, applyIntegrityFix, fixAllIntegrityIssues, IntegrityFix } from './utils/integrity';
+import { ChartFilter, SavedView, EMPTY_FILTER, applyChartFilter, countActiveCriteria, normalizeFilter } from './utils/filters';
 
 interface AppState {
   people: Person[];
@@ -15,8 +41,17 @@ interface AppState {
   locationColors: Record<string, string>;
   lineSettings: LineSettings;
   cardSettings: CardSettings;
+  customFields: CustomFieldDefinition[];
+  relationshipTypes: RelationshipType[];
 }
 
+// Where the chart lived before it moved to IndexedDB (still used if IndexedDB is unavailable)
+const LEGACY_STORAGE_KEYS = [
+  'org-chart-people', 'org-chart-departments', 'org-chart-locations', 'org-chart-job-titles',
+  'org-chart-colors', 'org-chart-location-colors', 'org-chart-line-settings', 'org-chart-card-settings',
+  'org-chart-custom-fields', 'org-chart-relationship-types'
+];
+
 const DEFAULT_LINE_SETTINGS: LineSettings = {
   primaryColor: '#94a3b8',
   primaryWidth: 2,
@@ -24,7 +59,8 @@ const DEFAULT_LINE_SETTINGS: LineSettings = {
   secondaryStyle: 'dotted',
   cornerRadius: 12,
   useRandomSecondaryColors: true,
-  secondaryColor: '#f59e0b'
+  secondaryColor: '#f59e0b',
+  hiddenDottedLineTypes: []
 };
 
 const DEFAULT_CARD_SETTINGS: CardSettings = {
@@ -67,6 +103,10 @@ const DEFAULT_CARD_SETTINGS: CardSettings = {
   showEmail: false,
   showPhone: false,
   showSecondaryManager: true,
+  visibleCustomFieldIds: [],
+  showBudget: false,
+  showHeadcount: false,
+  employmentTypeMarker: 'badge',
   
   // Typography
   fontFamily: 'default',
@@ -76,9 +116,29 @@ const DEFAULT_CARD_SETTINGS: CardSettings = {
   showGradientHeader: false
 };
 
+const createDefaultAppState = (): AppState => ({
+  people: INITIAL_PEOPLE,
+  departments: DEPARTMENTS,
+  locations: LOCATIONS,
+  jobTitles: JOB_TITLES,
+  departmentColors: DEPT_COLORS,
+  locationColors: {},
+  lineSettings: DEFAULT_LINE_SETTINGS,
+  cardSettings: DEFAULT_CARD_SETTINGS,
+  customFields: [],
+  relationshipTypes: DEFAULT_RELATIONSHIP_TYPES
+});
+
+// Loaded files and stored documents may omit settings added since they were saved
+const withDefaultSettings = (data: SaveFileData): AppState => ({
+  ...data,
+  lineSettings: { ...DEFAULT_LINE_SETTINGS, ...data.lineSettings },
+  cardSettings: { ...DEFAULT_CARD_SETTINGS, ...data.cardSettings }
+});
+
 const App: React.FC = () => {
-  // Initialize state from localStorage if available
-  const { state: appState, set: setAppState, undo, redo, canUndo, canRedo } = useHistoryState<AppState>(() => {
+  // Initialize from the pre-IndexedDB localStorage keys (if any) until storage has loaded
+  const { state: appState, set: setAppState, reset: resetAppState, undo, redo, canUndo, canRedo } = useHistoryState<AppState>(() => {
     // Safe JSON parse helper — returns fallback on any error
     const safeParse = <T,>(key: string, fallback: T): T => {
       try {
@@ -115,24 +175,46 @@ const App: React.FC = () => {
       departmentColors: safeParse<Record<string, string>>('org-chart-colors', DEPT_COLORS),
       locationColors: safeParse<Record<string, string>>('org-chart-location-colors', {}),
       lineSettings: mergedLineSettings,
-      cardSettings: mergedCardSettings
+      cardSettings: mergedCardSettings,
+      customFields: safeParse<CustomFieldDefinition[]>('org-chart-custom-fields', []),
+      relationshipTypes: safeParse<RelationshipType[]>('org-chart-relationship-types', DEFAULT_RELATIONSHIP_TYPES)
     };
   });
 
   const {
-    people,
+    people: storedPeople,
     departments,
     locations,
     jobTitles,
     departmentColors,
     locationColors,
     lineSettings,
-    cardSettings
+    cardSettings,
+    customFields,
+    relationshipTypes
   } = appState;
 
-  // Wrapper setters to maintain compatibility with existing code structure
+  // Time travel (view state): the chart, grid, filters and exports show the people as of
+  // this date. Edits on a future date are scheduled for it; past dates are read-only.
+  const [asOfDate, setAsOfDate] = useState<string | null>(null);
+  const today = todayIso();
+  const viewDate = asOfDate || today;
+  const isPastView = viewDate < today;
+  const people = useMemo(() => getPeopleAsOf(storedPeople, viewDate), [storedPeople, viewDate]);
+
+  const blockPastEdit = () => {
+    if (isPastView) alert('This is how the chart looked in the past, which can\'t be edited. Go back to today or a future date to make changes.');
+    return isPastView;
+  };
+
+  // Wrapper setters to maintain compatibility with existing code structure.
+  // People updaters receive the chart as of the viewed date.
   const setPeople = (value: Person[] | ((prev: Person[]) => Person[])) => {
-    setAppState(prev => ({ ...prev, people: typeof value === 'function' ? value(prev.people) : value }));
+    if (blockPastEdit()) return;
+    setAppState(prev => ({
+      ...prev,
+      people: applyDatedEdit(prev.people, viewDate, today, view => typeof value === 'function' ? value(view) : value)
+    }));
   };
   const setDepartments = (value: string[] | ((prev: string[]) => string[])) => {
     setAppState(prev => ({ ...prev, departments: typeof value === 'function' ? value(prev.departments) : value }));
@@ -156,9 +238,68 @@ const App: React.FC = () => {
     setAppState(prev => ({ ...prev, cardSettings: typeof value === 'function' ? value(prev.cardSettings) : value }));
   };
 
-  // Auto-save to localStorage whenever state changes
+  // Load the active workspace from IndexedDB once. On first run the state read from the old localStorage
+  // keys is kept and written to IndexedDB; if IndexedDB is unavailable we stay on localStorage.
+  const [storageMode, setStorageMode] = useState<'loading' | 'indexedDB' | 'localStorage'>('loading');
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState(() =>
+    localStorage.getItem('org-chart-workspace') || DEFAULT_WORKSPACE_ID
+  );
+
+  useEffect(() => {
+    localStorage.setItem('org-chart-workspace', activeWorkspaceId);
+  }, [activeWorkspaceId]);
+
+  // A stored chart that fails to load (corrupt, or saved by a newer version) is never overwritten:
+  // autosave stays off for its workspace, and the old localStorage keys are only dropped after a good load
+  const [unreadableWorkspaceId, setUnreadableWorkspaceId] = useState<string | null>(null);
+  const [loadErrors, setLoadErrors] = useState<{ workspaceName: string; errors: string[] } | null>(null);
+  const legacyKeysMigrated = useRef(false);
+
+  const reportUnreadableDocument = (workspaceId: string, workspaceName: string, errors: string[]) => {
+    console.error(`Stored chart of workspace "${workspaceName}" could not be read:`, errors);
+    setUnreadableWorkspaceId(workspaceId);
+    setLoadErrors({ workspaceName, errors });
+  };
+
   useEffect(() => {
-    localStorage.setItem('org-chart-people', JSON.stringify(people));
+    listWorkspaces()
+      .then(async list => {
+        const workspaceId = list.some(w => w.id === activeWorkspaceId) ? activeWorkspaceId : list[0].id;
+        const stored = await loadDocument(workspaceId);
+        if (stored.status === 'unreadable') {
+          reportUnreadableDocument(workspaceId, list.find(w => w.id === workspaceId)?.name || workspaceId, stored.errors);
+        } else {
+          if (stored.status === 'loaded') resetAppState(withDefaultSettings(stored.data));
+          legacyKeysMigrated.current = true;
+        }
+        setWorkspaces(list);
+        setActiveWorkspaceId(workspaceId);
+        setStorageMode('indexedDB');
+      })
+      .catch(err => {
+        console.warn('IndexedDB unavailable, falling back to localStorage.', err);
+        setStorageMode('localStorage');
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [resetAppState]);
+
+  // Auto-save the whole chart as one document (debounced so drags and sliders don't write on every frame)
+  useEffect(() => {
+    if (storageMode !== 'indexedDB' || unreadableWorkspaceId === activeWorkspaceId) return;
+    const timer = setTimeout(() => {
+      saveDocument(activeWorkspaceId, appState)
+        .then(() => {
+          if (legacyKeysMigrated.current) LEGACY_STORAGE_KEYS.forEach(key => localStorage.removeItem(key));
+        })
+        .catch(err => console.error('Failed to save chart:', err));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [appState, storageMode, activeWorkspaceId, unreadableWorkspaceId]);
+
+  useEffect(() => {
+    if (storageMode !== 'localStorage') return;
+    localStorage.setItem('org-chart-people', JSON.stringify(storedPeople));
     localStorage.setItem('org-chart-departments', JSON.stringify(departments));
     localStorage.setItem('org-chart-locations', JSON.stringify(locations));
     localStorage.setItem('org-chart-job-titles', JSON.stringify(jobTitles));
@@ -166,11 +307,76 @@ const App: React.FC = () => {
     localStorage.setItem('org-chart-location-colors', JSON.stringify(locationColors));
     localStorage.setItem('org-chart-line-settings', JSON.stringify(lineSettings));
     localStorage.setItem('org-chart-card-settings', JSON.stringify(cardSettings));
-  }, [people, departments, locations, jobTitles, departmentColors, locationColors, lineSettings, cardSettings]);
+    localStorage.setItem('org-chart-custom-fields', JSON.stringify(customFields));
+    localStorage.setItem('org-chart-relationship-types', JSON.stringify(relationshipTypes));
+  }, [storageMode, storedPeople, departments, locations, jobTitles, departmentColors, locationColors, lineSettings, cardSettings, customFields, relationshipTypes]);
+
+  // Chart or spreadsheet-style grid (view state, not undoable)
+  const [viewMode, setViewMode] = useState<'chart' | 'grid'>(() =>
+    localStorage.getItem('org-chart-view-mode') === 'grid' ? 'grid' : 'chart'
+  );
+
+  useEffect(() => {
+    localStorage.setItem('org-chart-view-mode', viewMode);
+  }, [viewMode]);
+
+  // --- FILTERS & SAVED VIEWS ---
+  // View state: persisted, but kept out of the undo history and saved files
+  const [chartFilter, setChartFilter] = useState<ChartFilter>(() => {
+    try {
+      return normalizeFilter(JSON.parse(localStorage.getItem('org-chart-filter') || 'null'));
+    } catch {
+      return EMPTY_FILTER;
+    }
+  });
+  const [savedViews, setSavedViews] = useState<SavedView[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('org-chart-views') || '[]');
+    } catch {
+      return [];
+    }
+  });
+  const [showFilterPanel, setShowFilterPanel] = useState(false);
+  const filterPanelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    localStorage.setItem('org-chart-filter', JSON.stringify(chartFilter));
+  }, [chartFilter]);
+
+  useEffect(() => {
+    localStorage.setItem('org-chart-views', JSON.stringify(savedViews));
+  }, [savedViews]);
+
+  useEffect(() => {
+    if (!showFilterPanel) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (filterPanelRef.current && !filterPanelRef.current.contains(event.target as Node)) {
+        setShowFilterPanel(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [showFilterPanel]);
+
+  const filterResult = useMemo(() => applyChartFilter(people, chartFilter, customFields), [people, chartFilter, customFields]);
+  // People included in exports while a filter is active
+  const exportPeople = useMemo(
+    () => filterResult ? people.filter(p => filterResult.matchIds.has(p.id)) : people,
+    [people, filterResult]
+  );
+
+  const filterOptions = useMemo(() => ({
+    teams: Array.from(new Set(people.map(p => p.teamName).filter((t): t is string => !!t))).sort(),
+    tiers: Array.from(new Set(computeEffectiveTiers(people).values())).sort((a, b) => a - b),
+    customFields: Object.fromEntries(customFields.map(field => [field.id, getCustomFieldOptions(people, field)])),
+  }), [people, customFields]);
+
+  const handleSaveView = (name: string) => {
+    setSavedViews(prev => [...prev, { id: crypto.randomUUID(), name, filter: chartFilter }]);
+  };
 
   const handleSaveToDisk = async () => {
-    const data = { people, departments, locations, jobTitles, departmentColors, locationColors, lineSettings, cardSettings };
-    const jsonString = JSON.stringify(data, null, 2);
+    const jsonString = serializeSaveFile({ people: storedPeople, departments, locations, jobTitles, departmentColors, locationColors, lineSettings, cardSettings, customFields, relationshipTypes });
 
     try {
       // @ts-ignore - File System Access API
@@ -188,80 +394,212 @@ const App: React.FC = () => {
         await writable.close();
       } else {
         // Fallback
-        const blob = new Blob([jsonString], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'org-chart-data.json';
-        a.click();
+        downloadBlob(jsonString, 'org-chart-data.json', 'application/json');
       }
     } catch (err) {
       console.error('Failed to save:', err);
     }
   };
 
+  // Data integrity check; the panel also opens by itself after an import that has problems
+  const integrityIssues = useMemo(
+    () => checkIntegrity({ people: storedPeople, departments, locations }),
+    [storedPeople, departments, locations]
+  );
+  const [showIntegrityPanel, setShowIntegrityPanel] = useState(false);
+  const [checkAfterImport, setCheckAfterImport] = useState(false);
+
+  useEffect(() => {
+    if (!checkAfterImport) return;
+    setCheckAfterImport(false);
+    if (integrityIssues.length > 0) setShowIntegrityPanel(true);
+  }, [checkAfterImport, integrityIssues]);
+
+  const handleFixIntegrityIssue = (fix: IntegrityFix) => {
+    setAppState(prev => ({ ...prev, ...applyIntegrityFix(prev, fix) }));
+  };
+
+  const handleFixAllIntegrityIssues = () => {
+    setAppState(prev => ({ ...prev, ...fixAllIntegrityIssues(prev) }));
+  };
+
+  // Spreadsheet import waiting for the column mapping step
+  const [pendingCsvImport, setPendingCsvImport] = useState<{ fileName: string; content: string } | null>(null);
+  const [importErrors, setImportErrors] = useState<{ fileName: string; errors: string[] } | null>(null);
+  const [showMergeDialog, setShowMergeDialog] = useState(false);
+  const [showPlanningSummary, setShowPlanningSummary] = useState(false);
+
+  const handleApplyMerge = (merged: SaveFileData) => {
+    setAppState(withDefaultSettings(merged));
+    setShowMergeDialog(false);
+    setCheckAfterImport(true);
+  };
+
   const handleImportData = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
+    // Reset so re-selecting the same file triggers onChange again
+    event.target.value = '';
 
     const reader = new FileReader();
     reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string;
-        const importedData = JSON.parse(content);
-        
-        // Handle both legacy array format and new full object format
-        if (Array.isArray(importedData)) {
-          setAppState(prev => {
-            const newDepts = Array.from(new Set(importedData.map((p: Person) => p.department))).filter(Boolean) as string[];
-            const newLocs = Array.from(new Set(importedData.map((p: Person) => p.location))).filter(Boolean) as string[];
-            return {
-              ...prev,
-              people: importedData,
-              departments: Array.from(new Set([...prev.departments, ...newDepts])),
-              locations: Array.from(new Set([...prev.locations, ...newLocs]))
-            };
-          });
-        } else if (importedData.people) {
-          setAppState(prev => ({
-            ...prev,
-            people: importedData.people,
-            departments: importedData.departments || prev.departments,
-            locations: importedData.locations || prev.locations,
-            departmentColors: importedData.departmentColors || prev.departmentColors,
-            locationColors: importedData.locationColors || prev.locationColors,
-            lineSettings: importedData.lineSettings || prev.lineSettings,
-            cardSettings: importedData.cardSettings || prev.cardSettings
-          }));
-        } else {
-          alert('Invalid data format.');
-        }
-      } catch (error) {
-        console.error('Error parsing JSON:', error);
-        alert('Error parsing JSON file.');
+      const content = e.target?.result as string;
+
+      if (/\.(csv|tsv|txt)$/i.test(file.name)) {
+        setPendingCsvImport({ fileName: file.name, content });
+        return;
+      }
+
+      const result = parseSaveFile(content);
+      if ('errors' in result) {
+        setImportErrors({ fileName: file.name, errors: result.errors });
+        return;
       }
+
+      // Older formats are migrated by parseSaveFile; settings are merged over the defaults
+      const { data } = result;
+      setAppState(withDefaultSettings(data));
+      setCheckAfterImport(true);
     };
     reader.readAsText(file);
   };
 
+  const handleConfirmCsvImport = (imported: Person[], mode: 'replace' | 'append') => {
+    if (blockPastEdit()) return;
+    setAppState(prev => {
+      const newDepts = imported.map(p => p.department).filter(Boolean);
+      const newLocs = imported.map(p => p.location as string).filter(Boolean);
+      const newTitles = imported.map(p => p.title).filter(Boolean);
+      return {
+        ...prev,
+        // Like any other edit, an import on a future date takes effect on that date
+        people: applyDatedEdit(prev.people, viewDate, today, view => mode === 'append' ? [...view, ...imported] : imported),
+        departments: Array.from(new Set([...prev.departments, ...newDepts])),
+        locations: Array.from(new Set([...prev.locations, ...newLocs])),
+        jobTitles: Array.from(new Set([...prev.jobTitles, ...newTitles]))
+      };
+    });
+    setPendingCsvImport(null);
+  };
+
 
   const handleAddPerson = (person: Person) => {
     setPeople(prev => [...prev, person]);
   };
 
+  const [showSnapshots, setShowSnapshots] = useState(false);
+
+  const handleRestoreSnapshot = (data: SaveFileData) => {
+    setAppState(withDefaultSettings(data));
+  };
+
+  // Workspaces: each is an independent chart with its own undo history
+  const switchToWorkspace = async (workspaceId: string, saveCurrent = true) => {
+    if (saveCurrent && unreadableWorkspaceId !== activeWorkspaceId) await saveDocument(activeWorkspaceId, appState);
+    const stored = await loadDocument(workspaceId);
+    resetAppState(stored.status === 'loaded' ? withDefaultSettings(stored.data) : createDefaultAppState());
+    if (stored.status === 'unreadable') {
+      reportUnreadableDocument(workspaceId, workspaces.find(w => w.id === workspaceId)?.name || workspaceId, stored.errors);
+    } else {
+      setUnreadableWorkspaceId(null);
+    }
+    setActiveWorkspaceId(workspaceId);
+  };
+
+  const addWorkspace = async (name: string, data: AppState, baselineId?: string) => {
+    const workspace = await createWorkspace(name, data, baselineId);
+    setWorkspaces(prev => [...prev, workspace]);
+    await switchToWorkspace(workspace.id);
+  };
+
+  const runWorkspaceAction = (action: () => Promise<void>, failure: string) => {
+    action().catch(err => {
+      console.error(failure, err);
+      alert(failure);
+    });
+  };
+
+  const handleSwitchWorkspace = (workspaceId: string) =>
+    runWorkspaceAction(() => switchToWorkspace(workspaceId), 'Failed to open the workspace.');
+
+  const handleCreateWorkspace = (name: string) =>
+    runWorkspaceAction(() => addWorkspace(name, createDefaultAppState()), 'Failed to create the workspace.');
+
+  const handleDuplicateWorkspace = (name: string) =>
+    runWorkspaceAction(() => addWorkspace(name, appState), 'Failed to duplicate the workspace.');
+
+  const handleBranchScenario = (name: string) =>
+    runWorkspaceAction(() => addWorkspace(name, appState, activeWorkspaceId), 'Failed to create the scenario.');
+
+  const handleRenameWorkspace = (name: string) => runWorkspaceAction(async () => {
+    const workspace = workspaces.find(w => w.id === activeWorkspaceId);
+    if (!workspace) return;
+    const renamed = await renameWorkspace(workspace, name);
+    setWorkspaces(prev => prev.map(w => w.id === renamed.id ? renamed : w));
+  }, 'Failed to rename the workspace.');
+
+  const handleDeleteWorkspace = () => {
+    const workspace = workspaces.find(w => w.id === activeWorkspaceId);
+    const next = workspaces.find(w => w.id !== activeWorkspaceId);
+    if (!workspace || !next) return;
+    if (!confirm(`Delete the workspace "${workspace.name}" with its chart and snapshots? This cannot be undone.`)) return;
+    runWorkspaceAction(async () => {
+      await deleteWorkspace(workspace.id);
+      setWorkspaces(prev => prev.filter(w => w.id !== workspace.id));
+      await switchToWorkspace(next.id, false);
+    }, 'Failed to delete the workspace.');
+  };
+
+  // What-if scenarios: the baseline can't change while its scenario is open, so it is loaded once
+  const activeWorkspace = workspaces.find(w => w.id === activeWorkspaceId);
+  const baselineWorkspace = workspaces.find(w => w.id === activeWorkspace?.baselineId);
+  const [baselineData, setBaselineData] = useState<SaveFileData | null>(null);
+  const [showScenarioComparison, setShowScenarioComparison] = useState(false);
+  const [showScenarioMarks, setShowScenarioMarks] = useState(false);
+
+  useEffect(() => {
+    setBaselineData(null);
+    if (!baselineWorkspace) return;
+    let cancelled = false;
+    loadDocument(baselineWorkspace.id)
+      .then(stored => {
+        if (stored.status === 'unreadable') console.error('The baseline chart could not be read:', stored.errors);
+        if (!cancelled) setBaselineData(stored.status === 'loaded' ? stored.data : null);
+      })
+      .catch(err => console.error('Failed to load the baseline:', err));
+    return () => { cancelled = true; };
+  }, [baselineWorkspace?.id]);
+
+  const scenarioComparison = useMemo(
+    () => baselineData ? compareScenario(baselineData, { people: storedPeople, departments, locations, jobTitles }) : null,
+    [baselineData, storedPeople, departments, locations, jobTitles]
+  );
+
+  const handleImportIntoNewWorkspace = (file: File) => runWorkspaceAction(async () => {
+    const content = await file.text();
+    const name = file.name.replace(/\.[^.]+$/, '') || 'Imported chart';
+
+    // Spreadsheets go through the mapping wizard inside the new, empty workspace
+    if (/\.(csv|tsv|txt)$/i.test(file.name)) {
+      await addWorkspace(name, createDefaultAppState());
+      setPendingCsvImport({ fileName: file.name, content });
+      return;
+    }
+
+    const result = parseSaveFile(content);
+    if ('errors' in result) {
+      setImportErrors({ fileName: file.name, errors: result.errors });
+      return;
+    }
+    await addWorkspace(name, withDefaultSettings(result.data));
+    setCheckAfterImport(true);
+  }, 'Failed to import into a new workspace.');
+
   const handleResetData = () => {
     if (confirm('Are you sure you want to reset all data to defaults? This cannot be undone.')) {
-      setAppState({
-        people: INITIAL_PEOPLE,
-        departments: DEPARTMENTS,
-        locations: LOCATIONS,
-        jobTitles: JOB_TITLES,
-        departmentColors: DEPT_COLORS,
-        locationColors: {},
-        lineSettings: DEFAULT_LINE_SETTINGS,
-        cardSettings: DEFAULT_CARD_SETTINGS
-      });
+      setAppState(createDefaultAppState());
       localStorage.clear();
+      localStorage.setItem('org-chart-workspace', activeWorkspaceId);
     }
   };
 
@@ -299,23 +637,36 @@ const App: React.FC = () => {
     });
   };
 
-  const handleDeletePerson = (id: string) => {
-    setPeople(prev => prev.filter(p => p.id !== id));
+  // Grid edits, pastes and canvas bulk edits: one undo step, new values join the master lists
+  const handleUpdatePeople = (updated: Person[]) => {
+    if (blockPastEdit()) return;
+    const byId = new Map(updated.map(p => [p.id, p]));
+    setAppState(prev => ({
+      ...prev,
+      people: applyDatedEdit(prev.people, viewDate, today, view => view.map(p => byId.get(p.id) || p)),
+      departments: Array.from(new Set([...prev.departments, ...updated.map(p => p.department).filter(Boolean)])),
+      locations: Array.from(new Set([...prev.locations, ...updated.map(p => p.location as string).filter(Boolean)])),
+      jobTitles: Array.from(new Set([...prev.jobTitles, ...updated.map(p => p.title).filter(Boolean)]))
+    }));
   };
 
-  const handleMovePerson = (draggedId: string, targetId: string) => {
-    if (draggedId === targetId) return;
-    
-    const isDescendant = (parentId: string, childId: string): boolean => {
-       const children = people.filter(p => p.managerId === parentId);
-       for (const child of children) {
-         if (child.id === childId) return true;
-         if (isDescendant(child.id, childId)) return true;
-       }
-       return false;
-    };
+  // Edit dialog "Apply from" date: the edit takes effect on that date instead of the viewed one
+  const handleSchedulePersonUpdate = (updated: Person, effectiveDate: string) => {
+    if (blockPastEdit()) return;
+    setAppState(prev => ({ ...prev, people: schedulePersonUpdate(prev.people, viewDate, effectiveDate, today, updated) }));
+  };
+
+  const handleDeletePeople = (ids: string[], handling: ReportHandling) => {
+    if (blockPastEdit()) return;
+    setAppState(prev => ({ ...prev, people: deletePeopleAsOf(prev.people, viewDate, today, ids, handling) }));
+  };
 
-    if (isDescendant(draggedId, targetId)) {
+  // Move one or more people (with their branches) under a new manager in a single undo step
+  const handleMovePeople = (draggedIds: string[], targetId: string) => {
+    const movedIds = draggedIds.filter(id => id !== targetId);
+    if (movedIds.length === 0) return;
+
+    if (movedIds.some(id => getDescendantIds(id, people).includes(targetId))) {
       alert("Cannot move a manager under their own report.");
       return;
     }
@@ -323,34 +674,25 @@ const App: React.FC = () => {
     const targetPerson = people.find(p => p.id === targetId);
     const targetDepartment = targetPerson?.department;
 
-    // Get all descendants of the dragged person
-    const getDescendants = (parentId: string, allPeople: Person[]): string[] => {
-      const directChildren = allPeople.filter(p => p.managerId === parentId);
-      let descendants: string[] = [];
-      for (const child of directChildren) {
-        descendants.push(child.id);
-        descendants = descendants.concat(getDescendants(child.id, allPeople));
-      }
-      return descendants;
-    };
-
-    const descendantIds = getDescendants(draggedId, people);
+    // Get all descendants of the moved people
+    const descendantIds = new Set(movedIds.flatMap(id => getDescendantIds(id, people)));
 
     // Auto-assign sortOrder at end of target's children
     const targetChildren = people.filter(p => p.managerId === targetId);
     const maxOrder = targetChildren.reduce((max, c) => Math.max(max, c.sortOrder ?? 0), 0);
 
     setPeople(prev => prev.map(p => {
-      if (p.id === draggedId) {
+      const movedIndex = movedIds.indexOf(p.id);
+      if (movedIndex !== -1) {
         return { 
           ...p, 
           managerId: targetId,
           department: targetDepartment || p.department,
-          sortOrder: maxOrder + 1
+          sortOrder: maxOrder + 1 + movedIndex
         };
       }
       // Also update all descendants to the new department
-      if (descendantIds.includes(p.id) && targetDepartment) {
+      if (descendantIds.has(p.id) && targetDepartment) {
         return {
           ...p,
           department: targetDepartment
@@ -434,6 +776,38 @@ const App: React.FC = () => {
     setLocations(prev => prev.filter(l => l !== loc));
   };
 
+  // Deleting a field also drops its values and its card toggle
+  const handleUpdateCustomFields = (fields: CustomFieldDefinition[]) => {
+    const keptIds = new Set(fields.map(f => f.id));
+    const removedIds = customFields.filter(f => !keptIds.has(f.id)).map(f => f.id);
+    setAppState(prev => ({
+      ...prev,
+      customFields: fields,
+      people: removedIds.reduce((people, id) => removeCustomFieldValues(people, id), prev.people),
+      cardSettings: {
+        ...prev.cardSettings,
+        visibleCustomFieldIds: (prev.cardSettings.visibleCustomFieldIds || []).filter(id => keptIds.has(id))
+      }
+    }));
+    if (removedIds.some(id => id in chartFilter.customFields)) {
+      setChartFilter(prev => ({
+        ...prev,
+        customFields: Object.fromEntries(Object.entries(prev.customFields).filter(([id]) => keptIds.has(id)))
+      }));
+    }
+  };
+
+  // Deleting a relationship type also drops the relationships of that type
+  const handleUpdateRelationshipTypes = (types: RelationshipType[]) => {
+    const keptIds = new Set(types.map(t => t.id));
+    const removedIds = relationshipTypes.filter(t => !keptIds.has(t.id)).map(t => t.id);
+    setAppState(prev => ({
+      ...prev,
+      relationshipTypes: types,
+      people: removedIds.reduce((people, id) => removeRelationshipsOfType(people, id), prev.people)
+    }));
+  };
+
   const handleSetDepartmentColor = (dept: string, color: string) => {
     setDepartmentColors(prev => ({ ...prev, [dept]: color }));
   };
@@ -446,59 +820,7 @@ const App: React.FC = () => {
     if (!element) return;
 
     try {
-      // Find the SVG lines element and temporarily adjust for export
-      const svgElement = element.querySelector('svg');
-      const originalSvgStyles: { zIndex?: string; position?: string; opacity?: string } = {};
-      
-      if (svgElement) {
-        // Store original styles
-        originalSvgStyles.zIndex = svgElement.style.zIndex;
-        originalSvgStyles.position = svgElement.style.position;
-        originalSvgStyles.opacity = svgElement.style.opacity;
-        
-        // Ensure SVG is visible and properly positioned for capture
-        svgElement.style.zIndex = '5';
-        svgElement.style.position = 'absolute';
-        svgElement.style.opacity = '1';
-      }
-
-      // Find all team background elements with negative z-index and temporarily fix them
-      const teamBackgrounds = element.querySelectorAll('[data-team-bg]') as NodeListOf<HTMLElement>;
-      const originalBgStyles: { el: HTMLElement; zIndex: string }[] = [];
-      
-      teamBackgrounds.forEach((bg) => {
-        originalBgStyles.push({ el: bg, zIndex: bg.style.zIndex });
-        bg.style.zIndex = '1'; // Move to positive z-index for export
-      });
-
-      // Use html-to-image with proper SVG handling
-      const dataUrl = await toPng(element, { 
-        backgroundColor: '#f8fafc', 
-        quality: 1.0, 
-        pixelRatio: 2,
-        cacheBust: true,
-        includeQueryParams: true,
-        skipFonts: false,
-        filter: (node) => {
-          // Include all nodes, especially SVG
-          return true;
-        },
-        style: {
-          overflow: 'visible'
-        }
-      });
-
-      // Restore original styles
-      if (svgElement) {
-        if (originalSvgStyles.zIndex !== undefined) svgElement.style.zIndex = originalSvgStyles.zIndex;
-        if (originalSvgStyles.position !== undefined) svgElement.style.position = originalSvgStyles.position;
-        if (originalSvgStyles.opacity !== undefined) svgElement.style.opacity = originalSvgStyles.opacity;
-      }
-      
-      // Restore team background z-index
-      originalBgStyles.forEach(({ el, zIndex }) => {
-        el.style.zIndex = zIndex;
-      });
+      const dataUrl = await captureChartPng(element, 2);
 
       const link = document.createElement('a');
       link.download = 'org-chart.png';
@@ -510,6 +832,116 @@ const App: React.FC = () => {
     }
   };
 
+  const handleExportSvg = async () => {
+    const element = document.getElementById('chart-content');
+    if (!element) return;
+
+    try {
+      const svg = await buildChartSvg(element, { backgroundColor: '#f8fafc' });
+      downloadBlob(svg, 'org-chart.svg', 'image/svg+xml');
+    } catch (err) {
+      console.error('Failed to export SVG:', err);
+      alert('Failed to export SVG.');
+    }
+  };
+
+  // PDF export options dialog
+  const [showPdfDialog, setShowPdfDialog] = useState(false);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+
+  const handleExportPdf = async (options: PdfExportOptions) => {
+    const element = document.getElementById('chart-content');
+    if (!element) return;
+
+    setIsExportingPdf(true);
+    try {
+      const pdf = await buildChartPdf(element, exportPeople, options);
+      downloadBlob(pdf, 'org-chart.pdf', 'application/pdf');
+      setShowPdfDialog(false);
+    } catch (err) {
+      console.error('Failed to export PDF:', err);
+      alert('Failed to export PDF.');
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  // Branch export: the chart is temporarily rendered with only the branch so the
+  // regular PNG/SVG capture of #chart-content picks up just that subtree
+  const [branchExportId, setBranchExportId] = useState<string | null>(null);
+  const [chartScope, setChartScope] = useState<Person[] | null>(null);
+  const [isExportingBranch, setIsExportingBranch] = useState(false);
+
+  // With a filter active, a branch keeps only the matches and the managers connecting them
+  // (the branch's own person and manager chain always stay)
+  const branchPeople = useMemo(() => {
+    if (!filterResult || !branchExportId) return people;
+    const kept = new Set([branchExportId, ...getManagerChain(branchExportId, people).map(m => m.id)]);
+    return people.filter(p => kept.has(p.id) || filterResult.matchIds.has(p.id) || filterResult.contextIds.has(p.id));
+  }, [people, filterResult, branchExportId]);
+
+  const handleExportBranch = async (format: BranchExportFormat, includeManagerChain: boolean) => {
+    const person = people.find(p => p.id === branchExportId);
+    if (!person) return;
+
+    const branch = extractBranch(person.id, branchPeople, includeManagerChain);
+    const baseName = `${(person.isVacancy ? 'vacancy' : person.name).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'branch'}-branch`;
+
+    if (format === 'json') {
+      const jsonString = serializeSaveFile({ people: branch, departments, locations, jobTitles, departmentColors, locationColors, lineSettings, cardSettings, customFields, relationshipTypes });
+      downloadBlob(jsonString, `${baseName}.json`, 'application/json');
+      setBranchExportId(null);
+      return;
+    }
+
+    setIsExportingBranch(true);
+    setChartScope(branch);
+    try {
+      // Let the scoped chart render and the connector lines / tier alignment settle
+      await new Promise(resolve => setTimeout(resolve, 400));
+      const element = document.getElementById('chart-content');
+      if (!element) return;
+
+      if (format === 'png') {
+        const dataUrl = await captureChartPng(element, 2);
+        const link = document.createElement('a');
+        link.download = `${baseName}.png`;
+        link.href = dataUrl;
+        link.click();
+      } else {
+        const svg = await buildChartSvg(element, { backgroundColor: '#f8fafc' });
+        downloadBlob(svg, `${baseName}.svg`, 'image/svg+xml');
+      }
+      setBranchExportId(null);
+    } catch (err) {
+      console.error('Failed to export branch:', err);
+      alert('Failed to export branch.');
+    } finally {
+      setChartScope(null);
+      setIsExportingBranch(false);
+    }
+  };
+
+  const handleExportCsv = () => {
+    // BOM so Excel opens the file as UTF-8
+    downloadBlob('\ufeff' + buildPeopleCsv(people, filterResult?.matchIds, customFields, relationshipTypes), 'org-chart-people.csv', 'text/csv;charset=utf-8');
+  };
+
+  // Export dropdown menu
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const exportMenuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!showExportMenu) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (exportMenuRef.current && !exportMenuRef.current.contains(event.target as Node)) {
+        setShowExportMenu(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [showExportMenu]);
+
   // Keyboard shortcuts for Undo/Redo
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -535,7 +967,37 @@ const App: React.FC = () => {
       {/* Main Canvas - Full Width (No Sidebar) */}
       <div className="h-full w-full relative overflow-hidden flex flex-col">
         <header className="absolute top-0 left-0 right-0 h-16 bg-white/80 backdrop-blur-md border-b border-slate-200 flex items-center px-8 justify-between z-30">
-          <h2 className="font-bold text-slate-800 text-lg tracking-tight">Organization Chart</h2>
+          <div className="flex items-center gap-4">
+            {storageMode === 'indexedDB' ? (
+              <WorkspaceSwitcher
+                workspaces={workspaces}
+                activeId={activeWorkspaceId}
+                onSwitch={handleSwitchWorkspace}
+                onCreate={handleCreateWorkspace}
+                onDuplicate={handleDuplicateWorkspace}
+                onBranchScenario={handleBranchScenario}
+                onRename={handleRenameWorkspace}
+                onDelete={handleDeleteWorkspace}
+                onImportIntoNew={handleImportIntoNewWorkspace}
+              />
+            ) : (
+              <h2 className="font-bold text-slate-800 text-lg tracking-tight">Organization Chart</h2>
+            )}
+            <div className="flex items-center bg-slate-100 p-0.5 rounded-full">
+              {([['chart', 'Chart', Network], ['grid', 'Grid', Table]] as const).map(([mode, label, Icon]) => (
+                <button
+                  key={mode}
+                  onClick={() => setViewMode(mode)}
+                  className={`flex items-center gap-1.5 text-xs font-bold px-3 py-1.5 rounded-full transition-colors ${
+                    viewMode === mode ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  <Icon size={14} />
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
           <div className="flex items-center gap-3">
             <div className="flex items-center gap-1 mr-2">
               <button 
@@ -565,7 +1027,7 @@ const App: React.FC = () => {
             </div>
 
             <button 
-              onClick={() => setShowAddModal(true)}
+              onClick={() => { setViewMode('chart'); setShowAddModal(true); }}
               className="flex items-center gap-2 text-xs font-bold text-white bg-blue-600 px-4 py-2 rounded-full hover:bg-blue-700 transition-colors shadow-sm"
             >
               <Plus size={14} />
@@ -577,19 +1039,154 @@ const App: React.FC = () => {
               Import
               <input 
                 type="file" 
-                accept=".json" 
+                accept=".json,.csv,.tsv,.txt" 
                 onChange={handleImportData} 
                 className="hidden" 
               />
             </label>
 
-            <button 
-              onClick={handleExportImage}
+            <TimeTravelControl
+              people={storedPeople}
+              today={today}
+              asOfDate={asOfDate && asOfDate !== today ? asOfDate : null}
+              onChange={setAsOfDate}
+            />
+
+            {scenarioComparison && (
+              <button
+                onClick={() => setShowScenarioComparison(true)}
+                className="flex items-center gap-2 text-xs font-bold text-violet-700 bg-violet-50 border border-violet-200 px-4 py-2 rounded-full hover:bg-violet-100 transition-colors shadow-sm"
+                title={`Compare this scenario with ${baselineWorkspace?.name}`}
+              >
+                <GitCompare size={14} />
+                Compare
+              </button>
+            )}
+
+            <button
+              onClick={() => setShowMergeDialog(true)}
               className="flex items-center gap-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 px-4 py-2 rounded-full hover:bg-slate-50 transition-colors shadow-sm"
-              title="Export as PNG"
+              title="Compare and merge saved chart files"
             >
-              <Download size={14} />
-              Export Image
+              <GitMerge size={14} />
+              Merge
+            </button>
+
+            <button
+              onClick={() => setShowIntegrityPanel(true)}
+              className={`flex items-center gap-2 text-xs font-bold px-4 py-2 rounded-full transition-colors shadow-sm border ${
+                integrityIssues.length > 0
+                  ? 'text-amber-700 bg-amber-50 border-amber-200 hover:bg-amber-100'
+                  : 'text-slate-600 bg-white border-slate-200 hover:bg-slate-50'
+              }`}
+              title="Check the data for problems"
+            >
+              <ShieldCheck size={14} />
+              Check
+              {integrityIssues.length > 0 && (
+                <span className="bg-amber-500 text-white rounded-full px-1.5 text-[10px] leading-4">{integrityIssues.length}</span>
+              )}
+            </button>
+
+            <button
+              onClick={() => setShowPlanningSummary(true)}
+              className="flex items-center gap-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 px-4 py-2 rounded-full hover:bg-slate-50 transition-colors shadow-sm"
+              title="Filled vs planned headcount and budget per department"
+            >
+              <Wallet size={14} />
+              Budget
+            </button>
+
+            <div ref={filterPanelRef} className="relative">
+              <button 
+                onClick={() => setShowFilterPanel(!showFilterPanel)}
+                className={`flex items-center gap-2 text-xs font-bold px-4 py-2 rounded-full transition-colors shadow-sm border ${
+                  filterResult
+                    ? 'text-blue-700 bg-blue-50 border-blue-200 hover:bg-blue-100'
+                    : 'text-slate-600 bg-white border-slate-200 hover:bg-slate-50'
+                }`}
+                title="Filter the chart"
+              >
+                <Filter size={14} />
+                Filter
+                {filterResult && (
+                  <span className="bg-blue-600 text-white rounded-full px-1.5 text-[10px] leading-4">{countActiveCriteria(chartFilter)}</span>
+                )}
+              </button>
+              {showFilterPanel && (
+                <FilterPanel
+                  filter={chartFilter}
+                  onChange={setChartFilter}
+                  departments={departments}
+                  locations={locations}
+                  teams={filterOptions.teams}
+                  tiers={filterOptions.tiers}
+                  customFields={customFields}
+                  customFieldOptions={filterOptions.customFields}
+                  matchCount={exportPeople.length}
+                  totalCount={people.length}
+                  savedViews={savedViews}
+                  onSaveView={handleSaveView}
+                  onApplyView={view => setChartFilter(normalizeFilter(view.filter))}
+                  onDeleteView={id => setSavedViews(prev => prev.filter(v => v.id !== id))}
+                />
+              )}
+            </div>
+
+            <div ref={exportMenuRef} className="relative">
+              <button 
+                onClick={() => setShowExportMenu(!showExportMenu)}
+                className="flex items-center gap-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 px-4 py-2 rounded-full hover:bg-slate-50 transition-colors shadow-sm"
+                title="Export chart or data"
+              >
+                <Download size={14} />
+                Export
+                <ChevronDown size={12} />
+              </button>
+              {showExportMenu && (
+                <div className="absolute right-0 top-full mt-2 w-56 bg-white rounded-xl shadow-xl border border-slate-100 py-1 z-50 animate-in fade-in zoom-in duration-100">
+                  <button 
+                    onClick={() => { setShowExportMenu(false); handleExportImage(); }}
+                    disabled={viewMode === 'grid'}
+                    title={viewMode === 'grid' ? 'Switch to the chart view to export the chart' : undefined}
+                    className="w-full text-left px-4 py-2 text-xs font-medium text-slate-700 hover:bg-slate-50 hover:text-blue-600 flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-slate-700"
+                  >
+                    <ImageIcon size={14} /> Image (PNG)
+                  </button>
+                  <button 
+                    onClick={() => { setShowExportMenu(false); handleExportSvg(); }}
+                    disabled={viewMode === 'grid'}
+                    title={viewMode === 'grid' ? 'Switch to the chart view to export the chart' : undefined}
+                    className="w-full text-left px-4 py-2 text-xs font-medium text-slate-700 hover:bg-slate-50 hover:text-blue-600 flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-slate-700"
+                  >
+                    <FileCode size={14} /> Vector (SVG)
+                  </button>
+                  <button 
+                    onClick={() => { setShowExportMenu(false); setShowPdfDialog(true); }}
+                    disabled={viewMode === 'grid'}
+                    title={viewMode === 'grid' ? 'Switch to the chart view to export the chart' : undefined}
+                    className="w-full text-left px-4 py-2 text-xs font-medium text-slate-700 hover:bg-slate-50 hover:text-blue-600 flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-slate-700"
+                  >
+                    <FileText size={14} /> Print (PDF)
+                  </button>
+                  <button 
+                    onClick={() => { setShowExportMenu(false); handleExportCsv(); }}
+                    className="w-full text-left px-4 py-2 text-xs font-medium text-slate-700 hover:bg-slate-50 hover:text-blue-600 flex items-center gap-2"
+                  >
+                    <FileSpreadsheet size={14} /> People List (CSV)
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <button
+              onClick={() => setShowSnapshots(true)}
+              disabled={storageMode !== 'indexedDB'}
+              className="flex items-center gap-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 px-4 py-2 rounded-full hover:bg-slate-50 transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              title={storageMode === 'localStorage' ? 'Snapshots need IndexedDB, which this browser has disabled' : 'Named snapshots of the chart'}
+            >
+              <Camera size={14} />
+              Snapshots
             </button>
 
             <button 
@@ -612,17 +1209,129 @@ const App: React.FC = () => {
           </div>
         </header>
 
+        {pendingCsvImport && (
+          <CsvImportWizard
+            fileName={pendingCsvImport.fileName}
+            content={pendingCsvImport.content}
+            existingPeople={storedPeople}
+            customFields={customFields}
+            defaultDepartment={departments[0] || DEPARTMENTS[0]}
+            defaultLocation={locations[0] || LOCATIONS[0]}
+            onCancel={() => setPendingCsvImport(null)}
+            onConfirm={handleConfirmCsvImport}
+          />
+        )}
+
+        {branchExportId && people.some(p => p.id === branchExportId) && (
+          <BranchExportDialog
+            person={people.find(p => p.id === branchExportId)!}
+            people={branchPeople}
+            isFiltered={!!filterResult}
+            isExporting={isExportingBranch}
+            onCancel={() => setBranchExportId(null)}
+            onExport={handleExportBranch}
+          />
+        )}
+
+        {importErrors && (
+          <ImportErrorsDialog
+            fileName={importErrors.fileName}
+            errors={importErrors.errors}
+            onClose={() => setImportErrors(null)}
+          />
+        )}
+
+        {loadErrors && (
+          <ImportErrorsDialog
+            title="Chart Could Not Be Loaded"
+            fileName={loadErrors.workspaceName}
+            errors={loadErrors.errors}
+            note="the stored chart was kept, and changes to this workspace are not saved"
+            onClose={() => setLoadErrors(null)}
+          />
+        )}
+
+        {showSnapshots && (
+          <SnapshotsPanel
+            workspaceId={activeWorkspaceId}
+            current={appState}
+            onRestore={handleRestoreSnapshot}
+            onClose={() => setShowSnapshots(false)}
+          />
+        )}
+
+        {showScenarioComparison && scenarioComparison && baselineData && (
+          <ScenarioComparisonPanel
+            baselineName={baselineWorkspace?.name || 'Baseline'}
+            scenarioName={activeWorkspace?.name || 'Scenario'}
+            baselinePeople={baselineData.people}
+            scenarioPeople={storedPeople}
+            comparison={scenarioComparison}
+            showOnChart={showScenarioMarks}
+            onToggleShowOnChart={() => setShowScenarioMarks(prev => !prev)}
+            onClose={() => setShowScenarioComparison(false)}
+          />
+        )}
+
+        {showMergeDialog && (
+          <MergeDialog
+            current={appState}
+            onApply={handleApplyMerge}
+            onClose={() => setShowMergeDialog(false)}
+          />
+        )}
+
+        {showPlanningSummary && (
+          <PlanningSummaryDialog
+            people={people}
+            onClose={() => setShowPlanningSummary(false)}
+          />
+        )}
+
+        {showIntegrityPanel && (
+          <IntegrityPanel
+            issues={integrityIssues}
+            onFix={handleFixIntegrityIssue}
+            onFixAll={handleFixAllIntegrityIssues}
+            onClose={() => setShowIntegrityPanel(false)}
+          />
+        )}
+
+        {showPdfDialog && (
+          <PdfExportDialog
+            isExporting={isExportingPdf}
+            onCancel={() => setShowPdfDialog(false)}
+            onExport={handleExportPdf}
+          />
+        )}
+
         <div className="flex-1 w-full h-full">
+          {viewMode === 'grid' ? (
+            <PeopleGrid
+              people={people}
+              departments={departments}
+              locations={locations}
+              jobTitles={jobTitles}
+              customFields={customFields}
+              onUpdatePeople={handleUpdatePeople}
+            />
+          ) : (
                       <OrgChart 
-             people={people} 
+             people={chartScope || people} 
              lineSettings={lineSettings}
              onUpdateLineSettings={setLineSettings}
              cardSettings={cardSettings}
              onUpdateCardSettings={setCardSettings}
-             onMovePerson={handleMovePerson}
+             onMovePerson={handleMovePeople}
              onReorderPerson={handleReorderPerson}
              onUpdatePerson={handleUpdatePerson}
-             onDeletePerson={handleDeletePerson}
+             onUpdatePeople={handleUpdatePeople}
+             onSchedulePersonUpdate={isPastView ? undefined : handleSchedulePersonUpdate}
+             viewDate={viewDate}
+             onDeletePeople={handleDeletePeople}
+             onExportBranch={setBranchExportId}
+             filterResult={filterResult}
+             changeMarks={showScenarioMarks ? scenarioComparison?.marks : undefined}
              onAddPerson={handleAddPerson}
              departments={departments}
              locations={locations}
@@ -640,7 +1349,12 @@ const App: React.FC = () => {
              onSetDepartmentColor={(dept, color) => setDepartmentColors(prev => ({ ...prev, [dept]: color }))}
              locationColors={locationColors}
              onSetLocationColor={(loc, color) => setLocationColors(prev => ({ ...prev, [loc]: color }))}
+             customFields={customFields}
+             onUpdateCustomFields={handleUpdateCustomFields}
+             relationshipTypes={relationshipTypes}
+             onUpdateRelationshipTypes={handleUpdateRelationshipTypes}
            />
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { Person } from '../types';
+import { getDescendantIds, getManagerChain } from '../utils/hierarchy';
+import { X, GitBranch, ImageIcon, FileCode, FileJson, Download, Loader2 } from 'lucide-react';
+
+export type BranchExportFormat = 'png' | 'svg' | 'json';
+
+interface BranchExportDialogProps {
+  person: Person;
+  people: Person[]; // Already narrowed to the active filter
+  isFiltered: boolean;
+  isExporting: boolean;
+  onCancel: () => void;
+  onExport: (format: BranchExportFormat, includeManagerChain: boolean) => void;
+}
+
+const FORMATS: Array<{ format: BranchExportFormat; label: string; icon: React.ReactNode }> = [
+  { format: 'png', label: 'Image (PNG)', icon: <ImageIcon size={16} /> },
+  { format: 'svg', label: 'Vector (SVG)', icon: <FileCode size={16} /> },
+  { format: 'json', label: 'Data (JSON)', icon: <FileJson size={16} /> },
+];
+
+export const BranchExportDialog: React.FC<BranchExportDialogProps> = ({ person, people, isFiltered, isExporting, onCancel, onExport }) => {
+  const [format, setFormat] = useState<BranchExportFormat>('png');
+  const [includeManagerChain, setIncludeManagerChain] = useState(false);
+
+  const descendantCount = useMemo(() => getDescendantIds(person.id, people).length, [person.id, people]);
+  const managerChain = useMemo(() => getManagerChain(person.id, people), [person.id, people]);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onCancel}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200 flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-5 border-b border-slate-100 flex justify-between items-center bg-gradient-to-r from-blue-50 to-white">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center">
+              <GitBranch size={20} />
+            </div>
+            <div>
+              <h3 className="font-bold text-slate-800">Export Branch</h3>
+              <p className="text-xs text-slate-500">
+                {person.isVacancy ? 'Open Position' : person.name} and {descendantCount} {isFiltered ? 'filtered ' : ''}{descendantCount === 1 ? 'report' : 'reports'} below
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div className="space-y-1">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Format</label>
+            <div className="grid grid-cols-3 gap-2">
+              {FORMATS.map(f => (
+                <button
+                  key={f.format}
+                  onClick={() => setFormat(f.format)}
+                  className={`flex flex-col items-center gap-1 px-3 py-3 rounded-lg text-xs font-bold border transition-colors ${
+                    format === f.format ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  {f.icon}
+                  {f.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className={`flex items-start gap-2 text-sm p-3 bg-slate-50 rounded-lg border border-slate-100 ${managerChain.length > 0 ? 'text-slate-700 cursor-pointer' : 'text-slate-400 cursor-not-allowed'}`}>
+            <input
+              type="checkbox"
+              checked={includeManagerChain}
+              disabled={managerChain.length === 0}
+              onChange={e => setIncludeManagerChain(e.target.checked)}
+              className="rounded text-blue-600 focus:ring-blue-500 mt-0.5"
+            />
+            <span>
+              Include manager chain above
+              <span className="block text-[10px] text-slate-400">
+                {managerChain.length > 0
+                  ? managerChain.map(m => m.isVacancy ? 'Open Position' : m.name).join(' › ')
+                  : 'Top of the chart - no managers above'}
+              </span>
+            </span>
+          </label>
+
+          {isFiltered && (
+            <p className="text-xs text-slate-500">
+              A filter is active: only matching people and the managers connecting them are exported.
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-5 py-2.5 text-slate-600 hover:bg-slate-200 rounded-lg text-sm font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onExport(format, includeManagerChain)}
+            disabled={isExporting}
+            className="px-5 py-2.5 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-sm font-semibold shadow-sm transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isExporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            {isExporting ? 'Exporting…' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,13 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { Person, CardSettings } from '../types';
-import { MapPin, GripVertical, Link, Crown, MoreHorizontal, Mail, Phone, Users } from 'lucide-react';
+import { Person, CardSettings, CustomFieldDefinition } from '../types';
+import { MapPin, GripVertical, Link, Crown, MoreHorizontal, Mail, Phone, Users, Wallet } from 'lucide-react';
 import { getLocationFlag, getFlagImageUrl } from '../countries';
+import { ScenarioChangeKind, SCENARIO_CHANGE_LABELS } from '../utils/scenario';
+import { getCustomFieldValue, customFieldText } from '../utils/customFields';
+import { formatDate } from '../utils/effectiveDating';
+import { BudgetTotals, formatTotals } from '../utils/budget';
+import { getEmploymentType, getEmploymentTypeStyle } from '../utils/employment';
+import { DottedLineManager } from '../utils/dottedLines';
 
 // Enhanced color mapping for department styles
 const getDeptStyle = (deptColor: string = 'slate') => {
@@ -60,6 +66,9 @@ const getDeptStyle = (deptColor: string = 'slate') => {
   return styles[deptColor] || styles.slate;
 };
 
+// 'active' = selected search result, 'match' = other search hits, 'dimmed' = not relevant to the current search/filter
+export type CardHighlight = 'active' | 'match' | 'dimmed';
+
 interface CardProps {
   person: Person;
   onClick: (person: Person) => void;
@@ -68,13 +77,20 @@ interface CardProps {
   onDragEnd?: () => void;
   onDrop: (e: React.DragEvent, targetId: string) => void;
   isDragging?: boolean;
-  secondaryManager?: Person;
+  secondaryManagers?: DottedLineManager[]; // Dotted-line managers whose relationship type is shown
   supportedPeople?: Person[];
   onEdit?: () => void;
   onDelete?: () => void;
+  onExportBranch?: () => void;
+  onFocusPerson?: () => void;
+  highlight?: CardHighlight;
+  isSelected?: boolean; // Part of the canvas multi-selection
+  changeMarks?: ScenarioChangeKind[]; // What-if scenario changes compared with the baseline
   deptColorOverride?: string;
   locationColorOverride?: string;
   cardSettings?: CardSettings;
+  customFields?: CustomFieldDefinition[]; // Custom fields chosen to show on cards
+  budget?: BudgetTotals; // Roll-up of this person's part of the tree, when budgets are shown
   renderLayer?: 'background' | 'content';
 }
 
@@ -86,13 +102,20 @@ export const Card: React.FC<CardProps> = React.memo(({
   onDragEnd,
   onDrop,
   isDragging = false,
-  secondaryManager,
+  secondaryManagers,
   supportedPeople,
   onEdit,
   onDelete,
+  onExportBranch,
+  onFocusPerson,
+  highlight,
+  isSelected = false,
+  changeMarks,
   deptColorOverride,
   locationColorOverride,
   cardSettings,
+  customFields,
+  budget,
   renderLayer = 'content'
 }) => {
   const [isDragOver, setIsDragOver] = useState(false);
@@ -233,11 +256,18 @@ export const Card: React.FC<CardProps> = React.memo(({
     ? deptStyle.border
     : '';
 
+  // Non-employees (contractors, interns, ...) get a badge, border pattern or corner ribbon
+  const employmentType = getEmploymentType(person);
+  const employmentStyle = employmentType !== 'employee' ? getEmploymentTypeStyle(employmentType) : null;
+  const employmentMarker = employmentStyle ? (cardSettings?.employmentTypeMarker || 'badge') : 'none';
+  const employmentBorder = employmentMarker === 'border' && !isVacancy ? employmentStyle : null;
+
   const cardStyle = {
     width: `${cardWidth}px`,
     borderRadius: `${borderRadius}px`,
-    borderWidth: `${borderWidth}px`,
-    borderColor: cardSettings?.useDeptColorForBorder ? undefined : (cardSettings?.borderColor || '#e2e8f0'),
+    borderWidth: `${employmentBorder ? Math.max(borderWidth, employmentBorder.borderStyle === 'double' ? 4 : 2) : borderWidth}px`,
+    borderStyle: employmentBorder?.borderStyle,
+    borderColor: employmentBorder ? employmentBorder.borderColor : cardSettings?.useDeptColorForBorder ? undefined : (cardSettings?.borderColor || '#e2e8f0'),
     backgroundColor: isVacancy ? undefined : cardSettings?.cardBgColor,
     color: isVacancy ? undefined : cardSettings?.cardTextColor,
     fontFamily: cardSettings?.fontFamily === 'serif' ? 'Georgia, serif' : cardSettings?.fontFamily === 'mono' ? 'ui-monospace, monospace' : 'inherit'
@@ -321,8 +351,11 @@ export const Card: React.FC<CardProps> = React.memo(({
         group relative flex flex-col overflow-hidden outline-none border-solid
         transition-[transform,box-shadow,opacity] duration-200 ease-out
         ${isVacancy ? 'border-2 border-dashed border-slate-300 bg-slate-50' : `${borderClass} bg-white`}
-        ${isDragging ? 'opacity-50 scale-95 border-dashed border-blue-400 cursor-grabbing shadow-lg' : `opacity-100 ${hoverEffectClass} cursor-grab active:cursor-grabbing ${shadowClass}`}
+        ${isDragging ? 'opacity-50 scale-95 border-dashed border-blue-400 cursor-grabbing shadow-lg' : `${highlight === 'dimmed' ? 'opacity-25 grayscale' : 'opacity-100'} ${hoverEffectClass} cursor-grab active:cursor-grabbing ${shadowClass}`}
         ${isDragOver ? 'ring-2 ring-blue-500 ring-offset-4 ring-offset-white bg-blue-50 border-blue-400 scale-105 shadow-2xl z-50' : 'z-40'}
+        ${!isDragOver && isSelected ? 'ring-4 ring-blue-500 ring-offset-2 ring-offset-white' : ''}
+        ${!isDragOver && !isSelected && highlight === 'active' ? 'ring-4 ring-amber-400 ring-offset-4 ring-offset-white' : ''}
+        ${!isDragOver && !isSelected && highlight === 'match' ? 'ring-2 ring-amber-300 ring-offset-2 ring-offset-white' : ''}
         focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2
       `}
     >
@@ -336,7 +369,7 @@ export const Card: React.FC<CardProps> = React.memo(({
         `}
       >
          {/* Context Menu Trigger */}
-         <div ref={menuRef} className={`absolute top-2 ${avatarPos === 'left' ? 'right-2' : 'left-2'}`}>
+         <div ref={menuRef} data-export-ignore="true" className={`absolute top-2 ${avatarPos === 'left' ? 'right-2' : 'left-2'}`}>
             <button 
               onClick={(e) => {
                 e.stopPropagation();
@@ -350,7 +383,7 @@ export const Card: React.FC<CardProps> = React.memo(({
             
             {/* Context Menu Dropdown */}
             {showMenu && (
-              <div className="absolute right-0 top-6 w-32 bg-white rounded-lg shadow-xl border border-slate-100 py-1 z-[60] animate-in fade-in zoom-in duration-100 text-slate-800">
+              <div className="absolute right-0 top-6 w-36 bg-white rounded-lg shadow-xl border border-slate-100 py-1 z-[60] animate-in fade-in zoom-in duration-100 text-slate-800">
                 <button 
                   onClick={(e) => {
                     e.stopPropagation();
@@ -361,6 +394,30 @@ export const Card: React.FC<CardProps> = React.memo(({
                 >
                   Edit Profile
                 </button>
+                {onFocusPerson && (
+                  <button 
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onFocusPerson();
+                      setShowMenu(false);
+                    }}
+                    className="w-full text-left px-3 py-2 text-xs font-medium text-slate-700 hover:bg-slate-50 hover:text-blue-600 flex items-center gap-2"
+                  >
+                    Focus on Person
+                  </button>
+                )}
+                {onExportBranch && (
+                  <button 
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onExportBranch();
+                      setShowMenu(false);
+                    }}
+                    className="w-full text-left px-3 py-2 text-xs font-medium text-slate-700 hover:bg-slate-50 hover:text-blue-600 flex items-center gap-2"
+                  >
+                    Export Branch
+                  </button>
+                )}
                 <button 
                   onClick={(e) => {
                     e.stopPropagation();
@@ -413,6 +470,13 @@ export const Card: React.FC<CardProps> = React.memo(({
                  {person.department}
               </div>
             )}
+
+            {/* Employment Type Badge */}
+            {employmentMarker === 'badge' && (
+              <div className={`inline-block px-2.5 py-0.5 rounded-full text-[10px] font-semibold truncate max-w-full ${employmentStyle!.badge}`}>
+                 {employmentStyle!.label}
+              </div>
+            )}
             
             {/* Location */}
             {(cardSettings?.showLocation !== false) && person.location && (
@@ -453,25 +517,77 @@ export const Card: React.FC<CardProps> = React.memo(({
                  <span className="truncate">{person.phone}</span>
               </div>
             )}
+
+            {/* Custom fields */}
+            {customFields?.map(field => {
+              const value = getCustomFieldValue(person, field);
+              if (value === undefined || (field.type === 'boolean' && value !== true)) return null;
+              const text = field.type === 'date' ? formatDate(String(value)) : customFieldText(field, value);
+              return (
+                <div key={field.id} className="flex items-center gap-1 text-xs text-slate-500 truncate max-w-full">
+                  <span className="text-slate-400 shrink-0">{field.label}:</span>
+                  {field.type === 'url' ? (
+                    <a
+                      href={String(value)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={e => e.stopPropagation()}
+                      className="truncate text-blue-600 hover:underline"
+                    >
+                      {text}
+                    </a>
+                  ) : (
+                    <span className="truncate">{text}</span>
+                  )}
+                </div>
+              );
+            })}
          </div>
       </div>
 
       {/* Secondary Manager (Dotted Line) */}
-      {(cardSettings?.showSecondaryManager !== false) && secondaryManager && (
-        <div className="px-4 py-2 bg-slate-50 border-t border-slate-100 flex items-center gap-2">
-          <Link size={12} className="text-amber-400 shrink-0" />
-          <div className="flex items-center gap-2 overflow-hidden">
-              <span className="text-[10px] text-slate-400">Reports to:</span>
-              <div className="flex items-center gap-1">
+      {(cardSettings?.showSecondaryManager !== false) && secondaryManagers && secondaryManagers.length > 0 && (
+        <div className="px-4 py-2 bg-slate-50 border-t border-slate-100 flex items-start gap-2">
+          <Link size={12} className="text-amber-400 shrink-0 mt-0.5" />
+          <span className="text-[10px] text-slate-400 shrink-0 leading-4">Reports to:</span>
+          <div className="flex flex-col gap-1 overflow-hidden min-w-0">
+            {secondaryManagers.map(({ manager, label }) => (
+              <div
+                key={manager.id}
+                className="flex items-center gap-1 min-w-0"
+                title={`${label ? `${label.charAt(0).toUpperCase()}${label.slice(1)} dotted line` : 'Dotted line'} to ${manager.name}${manager.title ? ` — ${manager.title}` : ''}`}
+              >
                 <div className="w-4 h-4 rounded-full bg-amber-100 text-amber-700 flex items-center justify-center text-[8px] font-bold shrink-0">
-                    {secondaryManager.name.substring(0,2)}
+                    {manager.name.substring(0,2)}
                 </div>
-                <span className="text-[10px] font-semibold text-slate-600 truncate">{secondaryManager.name}</span>
+                <span className="text-[10px] font-semibold text-slate-600 truncate">{manager.name}</span>
+                {label && (
+                  <span className="px-1.5 rounded-full bg-amber-50 border border-amber-200 text-[8px] font-semibold text-amber-700 shrink-0">{label}</span>
+                )}
               </div>
+            ))}
           </div>
         </div>
       )}
 
+      {/* Employment Type Ribbon */}
+      {employmentMarker === 'ribbon' && (
+        <div
+          className={`absolute bottom-3 ${avatarPos === 'left' ? '-right-8 -rotate-45' : '-left-8 rotate-45'} w-28 py-0.5 text-center text-[8px] font-bold uppercase tracking-wider shadow-sm pointer-events-none ${employmentStyle!.ribbon}`}
+        >
+          {employmentStyle!.label}
+        </div>
+      )}
+
+      {/* Budget roll-up (managers only) */}
+      {budget && budget.filled + budget.open > 1 && (
+        <div className="px-4 py-2 bg-slate-50 border-t border-slate-100 flex items-center gap-2" title={cardSettings?.showBudget ? 'Heads, FTE and yearly cost of this part of the org' : 'Heads and FTE in this part of the org'}>
+          <Wallet size={12} className="text-emerald-500 shrink-0" />
+          <span className="text-[10px] text-slate-400 shrink-0">Org:</span>
+          <span className="text-[10px] font-semibold text-slate-600 truncate">{formatTotals(budget, !!cardSettings?.showBudget)}</span>
+        </div>
+      )}
+
       {/* Supported People */}
       {supportedPeople && supportedPeople.length > 0 && (
         <div className="px-4 py-2 bg-slate-50 border-t border-slate-100 flex flex-col gap-1">
@@ -492,6 +608,17 @@ export const Card: React.FC<CardProps> = React.memo(({
         </div>
       )}
       
+      {/* Scenario Changes */}
+      {changeMarks && changeMarks.length > 0 && (
+        <div data-export-ignore="true" className="px-3 py-1.5 bg-violet-50 border-t border-violet-100 flex flex-wrap gap-1">
+          {changeMarks.map(kind => (
+            <span key={kind} className="px-1.5 py-0.5 rounded-full bg-violet-600 text-white text-[9px] font-bold uppercase tracking-wide">
+              {SCENARIO_CHANGE_LABELS[kind]}
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Drag Overlay */}
       {isDragOver && (
         <div className="absolute inset-0 rounded-xl border-2 border-dashed border-blue-500 pointer-events-none animate-pulse bg-blue-50/10"></div>
@@ -0,0 +1,97 @@
+import React, { useMemo } from 'react';
+import { Person } from '../types';
+import { ChartDiff, PERSON_FIELD_LABELS, formatFieldValue, isEmptyDiff } from '../utils/chartDiff';
+import { UserPlus, UserMinus, PenLine, List } from 'lucide-react';
+
+interface ChartDiffViewProps {
+  diff: ChartDiff;
+  beforePeople: Person[];
+  afterPeople: Person[];
+}
+
+const LIST_LABELS = { departments: 'Departments', locations: 'Locations', jobTitles: 'Job titles' };
+
+const displayName = (p: Person) => p.isVacancy ? 'Open Position' : p.name;
+
+// Read-only list of what changed between two versions of a chart
+export const ChartDiffView: React.FC<ChartDiffViewProps> = ({ diff, beforePeople, afterPeople }) => {
+  const beforeById = useMemo(() => new Map(beforePeople.map(p => [p.id, p])), [beforePeople]);
+  const afterById = useMemo(() => new Map(afterPeople.map(p => [p.id, p])), [afterPeople]);
+
+  if (isEmptyDiff(diff)) {
+    return <p className="text-sm text-slate-500 text-center py-6">No differences.</p>;
+  }
+
+  const section = (icon: React.ReactNode, title: string, count: number, children: React.ReactNode) => count > 0 && (
+    <div className="space-y-2">
+      <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+        {icon} {title} ({count})
+      </label>
+      {children}
+    </div>
+  );
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-wrap gap-2 text-xs font-semibold">
+        <span className="px-2.5 py-1 rounded-full bg-emerald-50 text-emerald-700">+{diff.added.length} added</span>
+        <span className="px-2.5 py-1 rounded-full bg-red-50 text-red-700">−{diff.removed.length} removed</span>
+        <span className="px-2.5 py-1 rounded-full bg-amber-50 text-amber-700">{diff.changed.length} changed</span>
+      </div>
+
+      {section(<UserPlus size={12} />, 'Added', diff.added.length, (
+        <ul className="space-y-1">
+          {diff.added.map(p => (
+            <li key={p.id} className="text-sm p-2 rounded-lg bg-emerald-50/50 border border-emerald-100 text-slate-700">
+              <span className="font-semibold">{displayName(p)}</span>
+              <span className="text-slate-400"> · {p.title} · {p.department}</span>
+            </li>
+          ))}
+        </ul>
+      ))}
+
+      {section(<UserMinus size={12} />, 'Removed', diff.removed.length, (
+        <ul className="space-y-1">
+          {diff.removed.map(p => (
+            <li key={p.id} className="text-sm p-2 rounded-lg bg-red-50/50 border border-red-100 text-slate-700">
+              <span className="font-semibold">{displayName(p)}</span>
+              <span className="text-slate-400"> · {p.title} · {p.department}</span>
+            </li>
+          ))}
+        </ul>
+      ))}
+
+      {section(<PenLine size={12} />, 'Changed', diff.changed.length, (
+        <ul className="space-y-1">
+          {diff.changed.map(change => (
+            <li key={change.id} className="text-sm p-2 rounded-lg bg-slate-50 border border-slate-100 text-slate-700">
+              <span className="font-semibold">{displayName(change.after)}</span>
+              <ul className="mt-1 space-y-0.5">
+                {change.fields.map(field => (
+                  <li key={field} className="text-xs text-slate-500">
+                    {PERSON_FIELD_LABELS[field] || field}:{' '}
+                    <span className="line-through text-red-500">{formatFieldValue(change.before, field, beforeById)}</span>
+                    {' → '}
+                    <span className="text-emerald-600">{formatFieldValue(change.after, field, afterById)}</span>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      ))}
+
+      {section(<List size={12} />, 'Lists', diff.lists.length, (
+        <ul className="space-y-1">
+          {diff.lists.map(change => (
+            <li key={change.list} className="text-xs p-2 rounded-lg bg-slate-50 border border-slate-100 text-slate-600">
+              <span className="font-semibold text-slate-700">{LIST_LABELS[change.list]}: </span>
+              {change.added.length > 0 && <span className="text-emerald-600">+{change.added.join(', +')} </span>}
+              {change.removed.length > 0 && <span className="text-red-500">−{change.removed.join(', −')}</span>}
+            </li>
+          ))}
+        </ul>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,302 @@
+import React, { useMemo, useState } from 'react';
+import { Person, CustomFieldDefinition } from '../types';
+import { parseDelimited } from '../utils/csv';
+import { IMPORT_FIELDS, ColumnMapping, CustomColumnMapping, ImportField, guessColumnMapping, guessCustomColumnMapping, buildPeopleFromRows } from '../utils/csvImport';
+import { X, FileSpreadsheet, ChevronDown, ArrowLeft, ArrowRight, AlertTriangle, AlertCircle, Check, Users } from 'lucide-react';
+
+interface CsvImportWizardProps {
+  fileName: string;
+  content: string;
+  existingPeople: Person[];
+  defaultDepartment: string;
+  defaultLocation: string;
+  customFields?: CustomFieldDefinition[];
+  onCancel: () => void;
+  onConfirm: (people: Person[], mode: 'replace' | 'append') => void;
+}
+
+type WizardStep = 'mapping' | 'preview';
+
+// Indented read-only tree used to preview the imported hierarchy
+const PreviewTree: React.FC<{ people: Person[]; highlightIds: Set<string> }> = ({ people, highlightIds }) => {
+  const childrenOf = useMemo(() => {
+    const map = new Map<string | null, Person[]>();
+    const ids = new Set(people.map(p => p.id));
+    people.forEach(p => {
+      const key = p.managerId && ids.has(p.managerId) ? p.managerId : null;
+      if (!map.has(key)) map.set(key, []);
+      map.get(key)!.push(p);
+    });
+    return map;
+  }, [people]);
+
+  const renderNode = (person: Person, depth: number): React.ReactNode => (
+    <React.Fragment key={person.id}>
+      <div
+        className={`flex items-center gap-2 py-1 text-xs ${highlightIds.has(person.id) ? 'text-slate-800' : 'text-slate-400'}`}
+        style={{ paddingLeft: depth * 16 }}
+      >
+        <span className="w-1.5 h-1.5 rounded-full bg-slate-300 shrink-0" />
+        <span className="font-semibold truncate">{person.isVacancy ? 'Open Position' : person.name}</span>
+        {person.title && <span className="truncate text-slate-400">— {person.title}</span>}
+      </div>
+      {(childrenOf.get(person.id) || []).map(child => renderNode(child, depth + 1))}
+    </React.Fragment>
+  );
+
+  return <>{(childrenOf.get(null) || []).map(root => renderNode(root, 0))}</>;
+};
+
+export const CsvImportWizard: React.FC<CsvImportWizardProps> = ({
+  fileName,
+  content,
+  existingPeople,
+  defaultDepartment,
+  defaultLocation,
+  customFields = [],
+  onCancel,
+  onConfirm
+}) => {
+  const parsed = useMemo(() => parseDelimited(content), [content]);
+  const headers = parsed[0] || [];
+  const dataRows = useMemo(() => parsed.slice(1), [parsed]);
+
+  const [step, setStep] = useState<WizardStep>('mapping');
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(headers));
+  const [customMapping, setCustomMapping] = useState<CustomColumnMapping>(() =>
+    guessCustomColumnMapping(headers, customFields, guessColumnMapping(headers))
+  );
+  const [mode, setMode] = useState<'replace' | 'append'>(existingPeople.length > 0 ? 'append' : 'replace');
+
+  const hasManagerColumn = mapping.managerId !== undefined || mapping.managerName !== undefined || mapping.managerEmail !== undefined;
+  const canContinue = mapping.name !== undefined && dataRows.length > 0;
+
+  const result = useMemo(() => {
+    if (step !== 'preview') return null;
+    return buildPeopleFromRows(
+      dataRows,
+      mapping,
+      mode === 'append' ? existingPeople : [],
+      { department: defaultDepartment, location: defaultLocation },
+      { fields: customFields, mapping: customMapping }
+    );
+  }, [step, dataRows, mapping, customMapping, mode, existingPeople, defaultDepartment, defaultLocation, customFields]);
+
+  const previewPeople = useMemo(() => {
+    if (!result) return [];
+    return mode === 'append' ? [...existingPeople, ...result.people] : result.people;
+  }, [result, mode, existingPeople]);
+
+  const importedIds = useMemo(() => new Set(result?.people.map(p => p.id) || []), [result]);
+  const errorCount = result?.issues.filter(i => i.severity === 'error').length || 0;
+  const warningCount = result?.issues.filter(i => i.severity === 'warning').length || 0;
+
+  const setFieldColumn = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = parseInt(value);
+      return next;
+    });
+  };
+
+  const setCustomFieldColumn = (fieldId: string, value: string) => {
+    setCustomMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[fieldId];
+      else next[fieldId] = parseInt(value);
+      return next;
+    });
+  };
+
+  const columnSelect = (column: number | undefined, onChange: (value: string) => void) => (
+    <div className="relative">
+      <select
+        className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 outline-none bg-white appearance-none cursor-pointer"
+        value={column !== undefined ? String(column) : ''}
+        onChange={e => onChange(e.target.value)}
+      >
+        <option value="">— Not mapped —</option>
+        {headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+      </select>
+      <ChevronDown size={14} className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onCancel}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden animate-in fade-in zoom-in duration-200 flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-5 border-b border-slate-100 flex justify-between items-center bg-gradient-to-r from-emerald-50 to-white">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-emerald-100 text-emerald-600 flex items-center justify-center">
+              <FileSpreadsheet size={20} />
+            </div>
+            <div>
+              <h3 className="font-bold text-slate-800">Import Spreadsheet</h3>
+              <p className="text-xs text-slate-500">
+                {fileName} · {dataRows.length} rows · Step {step === 'mapping' ? '1' : '2'} of 2
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto flex-1">
+          {step === 'mapping' && (
+            <>
+              <p className="text-xs text-slate-500">
+                Match each field to a column in your file. Managers can be matched by ID, name or email.
+              </p>
+              <div className="border border-slate-200 rounded-xl overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                    <tr>
+                      <th className="text-left px-4 py-2">Field</th>
+                      <th className="text-left px-4 py-2">Column</th>
+                      <th className="text-left px-4 py-2">Sample</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {IMPORT_FIELDS.map(({ field, label }) => {
+                      const column = mapping[field];
+                      const sample = column !== undefined ? dataRows[0]?.[column] : '';
+                      return (
+                        <tr key={field} className="border-t border-slate-100">
+                          <td className="px-4 py-2 font-medium text-slate-700">
+                            {label}{field === 'name' && ' *'}
+                          </td>
+                          <td className="px-4 py-2">{columnSelect(column, value => setFieldColumn(field, value))}</td>
+                          <td className="px-4 py-2 text-xs text-slate-400 truncate max-w-[160px]">{sample}</td>
+                        </tr>
+                      );
+                    })}
+                    {customFields.map(field => {
+                      const column = customMapping[field.id];
+                      const sample = column !== undefined ? dataRows[0]?.[column] : '';
+                      return (
+                        <tr key={field.id} className="border-t border-slate-100">
+                          <td className="px-4 py-2 font-medium text-slate-700">
+                            {field.label} <span className="text-[10px] font-normal text-slate-400">custom</span>
+                          </td>
+                          <td className="px-4 py-2">{columnSelect(column, value => setCustomFieldColumn(field.id, value))}</td>
+                          <td className="px-4 py-2 text-xs text-slate-400 truncate max-w-[160px]">{sample}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex gap-2 p-3 bg-slate-50 rounded-lg border border-slate-100">
+                {(['append', 'replace'] as const).map(m => (
+                  <label key={m} className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer flex-1">
+                    <input
+                      type="radio"
+                      name="csv-import-mode"
+                      checked={mode === m}
+                      onChange={() => setMode(m)}
+                      className="text-emerald-600 focus:ring-emerald-500"
+                    />
+                    {m === 'append' ? 'Add to current chart' : 'Replace current chart'}
+                  </label>
+                ))}
+              </div>
+
+              {!hasManagerColumn && (
+                <p className="text-[10px] text-amber-600 flex items-center gap-1">
+                  <AlertTriangle size={12} /> No manager column mapped — everyone will be imported at the top level.
+                </p>
+              )}
+            </>
+          )}
+
+          {step === 'preview' && result && (
+            <>
+              <div className="grid grid-cols-3 gap-3">
+                <div className="p-3 bg-emerald-50 rounded-lg border border-emerald-100">
+                  <div className="text-lg font-bold text-emerald-700">{result.people.length}</div>
+                  <div className="text-[10px] font-bold text-emerald-600 uppercase tracking-wider">People to import</div>
+                </div>
+                <div className="p-3 bg-amber-50 rounded-lg border border-amber-100">
+                  <div className="text-lg font-bold text-amber-700">{warningCount}</div>
+                  <div className="text-[10px] font-bold text-amber-600 uppercase tracking-wider">Warnings</div>
+                </div>
+                <div className="p-3 bg-red-50 rounded-lg border border-red-100">
+                  <div className="text-lg font-bold text-red-700">{errorCount}</div>
+                  <div className="text-[10px] font-bold text-red-600 uppercase tracking-wider">Skipped rows</div>
+                </div>
+              </div>
+
+              {result.issues.length > 0 && (
+                <div className="border border-slate-200 rounded-xl max-h-40 overflow-y-auto custom-scrollbar">
+                  {result.issues.map((issue, i) => (
+                    <div key={i} className="flex items-start gap-2 px-4 py-2 text-xs border-b border-slate-100 last:border-b-0">
+                      {issue.severity === 'error'
+                        ? <AlertCircle size={12} className="text-red-500 shrink-0 mt-0.5" />
+                        : <AlertTriangle size={12} className="text-amber-500 shrink-0 mt-0.5" />}
+                      <span className="text-slate-400 shrink-0">Row {issue.row}</span>
+                      <span className="font-semibold text-slate-700 shrink-0">{issue.name}</span>
+                      <span className="text-slate-500">{issue.message}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1">
+                  <Users size={10} /> Resulting Hierarchy
+                </label>
+                <div className="border border-slate-200 rounded-xl p-3 max-h-72 overflow-y-auto custom-scrollbar">
+                  <PreviewTree people={previewPeople} highlightIds={importedIds} />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-between items-center gap-3">
+          {step === 'preview' ? (
+            <button
+              onClick={() => setStep('mapping')}
+              className="px-4 py-2.5 text-slate-600 hover:bg-slate-200 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors"
+            >
+              <ArrowLeft size={16} /> Back
+            </button>
+          ) : <span />}
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              className="px-5 py-2.5 text-slate-600 hover:bg-slate-200 rounded-lg text-sm font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            {step === 'mapping' ? (
+              <button
+                onClick={() => setStep('preview')}
+                disabled={!canContinue}
+                className="px-5 py-2.5 bg-emerald-600 text-white hover:bg-emerald-700 rounded-lg text-sm font-semibold shadow-sm transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Preview <ArrowRight size={16} />
+              </button>
+            ) : (
+              <button
+                onClick={() => result && onConfirm(result.people, mode)}
+                disabled={!result || result.people.length === 0}
+                className="px-5 py-2.5 bg-emerald-600 text-white hover:bg-emerald-700 rounded-lg text-sm font-semibold shadow-sm transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Check size={16} /> Import {result?.people.length || 0} People
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
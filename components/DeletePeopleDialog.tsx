@@ -0,0 +1,154 @@
+import React, { useMemo, useState } from 'react';
+import { Person } from '../types';
+import { ReportHandling, getDescendantIds, getOrphanedReports } from '../utils/hierarchy';
+import { X, Trash2, AlertTriangle } from 'lucide-react';
+
+interface DeletePeopleDialogProps {
+  ids: string[];
+  people: Person[];
+  onCancel: () => void;
+  onConfirm: (handling: ReportHandling) => void;
+}
+
+const displayName = (p: Person) => p.isVacancy ? 'Open Position' : p.name;
+
+export const DeletePeopleDialog: React.FC<DeletePeopleDialogProps> = ({ ids, people, onCancel, onConfirm }) => {
+  const removedIds = useMemo(() => new Set(ids), [ids]);
+  const removed = useMemo(() => people.filter(p => removedIds.has(p.id)), [people, removedIds]);
+  const orphans = useMemo(() => getOrphanedReports(removedIds, people), [removedIds, people]);
+  const cascadeCount = useMemo(() => {
+    const below = new Set<string>();
+    ids.forEach(id => getDescendantIds(id, people).forEach(d => { if (!removedIds.has(d)) below.add(d); }));
+    return below.size;
+  }, [ids, people, removedIds]);
+
+  // Anyone left in the chart outside the affected branches can take the reports
+  const candidates = useMemo(() => {
+    const excluded = new Set(removedIds);
+    orphans.forEach(o => {
+      excluded.add(o.id);
+      getDescendantIds(o.id, people).forEach(id => excluded.add(id));
+    });
+    return people.filter(p => !excluded.has(p.id)).sort((a, b) => displayName(a).localeCompare(displayName(b)));
+  }, [removedIds, orphans, people]);
+
+  const [mode, setMode] = useState<ReportHandling['mode']>('promote');
+  const [managerId, setManagerId] = useState('');
+
+  const canConfirm = mode !== 'reassign' || !!managerId;
+  const single = removed.length === 1;
+
+  const handling = (): ReportHandling => {
+    if (mode === 'reassign') return { mode, managerId };
+    return { mode };
+  };
+
+  const option = (value: ReportHandling['mode'], title: string, hint: string, extra?: React.ReactNode) => (
+    <label className={`flex items-start gap-2 text-sm p-3 rounded-lg border cursor-pointer transition-colors ${
+      mode === value ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-slate-50 border-slate-100 text-slate-700'
+    }`}>
+      <input
+        type="radio"
+        checked={mode === value}
+        onChange={() => setMode(value)}
+        className="text-blue-600 focus:ring-blue-500 mt-0.5"
+      />
+      <span className="flex-1 space-y-2">
+        <span className="block">
+          {title}
+          <span className="block text-[10px] text-slate-400">{hint}</span>
+        </span>
+        {mode === value && extra}
+      </span>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onCancel}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200 flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-5 border-b border-slate-100 flex justify-between items-center bg-gradient-to-r from-red-50 to-white">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-red-100 text-red-600 flex items-center justify-center">
+              <Trash2 size={20} />
+            </div>
+            <div>
+              <h3 className="font-bold text-slate-800">Delete {removed.length === 1 ? displayName(removed[0]) : `${removed.length} People`}</h3>
+              <p className="text-xs text-slate-500">
+                {orphans.length > 0
+                  ? `${orphans.length} direct ${orphans.length === 1 ? 'report' : 'reports'} affected`
+                  : `No one reports to ${single ? 'this person' : 'the selected people'}`}
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          {removed.length > 1 && (
+            <div className="text-xs text-slate-600 max-h-24 overflow-y-auto custom-scrollbar p-3 bg-slate-50 rounded-lg border border-slate-100">
+              {removed.map(displayName).join(', ')}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+              {orphans.length > 0 ? 'Their Reports' : 'Delete or Keep the Role'}
+            </label>
+            {orphans.length > 0 ? (
+              <>
+                {option('promote', 'Move reports up to the next manager', 'Reports join the nearest remaining manager above them')}
+                {option('reassign', 'Reassign reports to someone else', 'Pick the person they should report to', (
+                  <select
+                    value={managerId}
+                    onChange={e => setManagerId(e.target.value)}
+                    className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm bg-white text-slate-700 focus:ring-2 focus:ring-blue-500 outline-none"
+                  >
+                    <option value="">Choose a manager…</option>
+                    {candidates.map(p => (
+                      <option key={p.id} value={p.id}>{displayName(p)}{p.title ? ` - ${p.title}` : ''}</option>
+                    ))}
+                  </select>
+                ))}
+              </>
+            ) : (
+              option('promote', single ? 'Delete this person' : 'Delete these people', 'Remove them from the chart')
+            )}
+            {option('vacancy', single ? 'Convert to a vacancy' : 'Convert to vacancies', 'Keep the role as an open position; reports stay where they are')}
+            {cascadeCount > 0 && option('cascade', 'Delete the whole branch', `Also deletes ${cascadeCount} ${cascadeCount === 1 ? 'person' : 'people'} below`)}
+          </div>
+
+          {mode !== 'vacancy' && (
+            <p className="flex items-center gap-2 text-[11px] text-slate-500">
+              <AlertTriangle size={12} className="text-amber-500 shrink-0" />
+              Dotted-line and support links to deleted people are removed. Undo with Ctrl+Z.
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-5 py-2.5 text-slate-600 hover:bg-slate-200 rounded-lg text-sm font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(handling())}
+            disabled={!canConfirm}
+            className="px-5 py-2.5 bg-red-600 text-white hover:bg-red-700 rounded-lg text-sm font-semibold shadow-sm transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Trash2 size={16} />
+            {mode === 'vacancy' ? 'Convert' : 'Delete'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
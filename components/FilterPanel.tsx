@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { CustomFieldDefinition } from '../types';
+import { ChartFilter, SavedView, EMPTY_FILTER, isFilterActive } from '../utils/filters';
+import { Bookmark, Trash2, Save } from 'lucide-react';
+
+interface FilterPanelProps {
+  filter: ChartFilter;
+  onChange: (filter: ChartFilter) => void;
+  departments: string[];
+  locations: string[];
+  teams: string[];
+  tiers: number[];
+  customFields: CustomFieldDefinition[];
+  customFieldOptions: Record<string, string[]>; // Values present per custom field
+  matchCount: number;
+  totalCount: number;
+  savedViews: SavedView[];
+  onSaveView: (name: string) => void;
+  onApplyView: (view: SavedView) => void;
+  onDeleteView: (id: string) => void;
+}
+
+const tierLabel = (tier: number) => tier === 0 ? 'Executive' : `Tier ${tier}`;
+
+// Free-form custom fields only get chips while they have few distinct values
+const MAX_CUSTOM_FIELD_CHIPS = 20;
+
+// Toggleable chips for one multi-select criterion
+const ChipGroup = <T extends string | number>({ label, options, selected, onToggle, format }: {
+  label: string;
+  options: T[];
+  selected: T[];
+  onToggle: (value: T) => void;
+  format?: (value: T) => string;
+}) => {
+  if (options.length === 0) return null;
+  return (
+    <div className="space-y-1.5">
+      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{label}</label>
+      <div className="flex flex-wrap gap-1.5">
+        {options.map(option => {
+          const isSelected = selected.includes(option);
+          return (
+            <button
+              key={String(option)}
+              onClick={() => onToggle(option)}
+              className={`px-2.5 py-1 rounded-full text-[11px] font-semibold border transition-colors ${
+                isSelected ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
+              }`}
+            >
+              {format ? format(option) : String(option)}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export const FilterPanel: React.FC<FilterPanelProps> = ({
+  filter,
+  onChange,
+  departments,
+  locations,
+  teams,
+  tiers,
+  customFields,
+  customFieldOptions,
+  matchCount,
+  totalCount,
+  savedViews,
+  onSaveView,
+  onApplyView,
+  onDeleteView
+}) => {
+  const [viewName, setViewName] = useState('');
+  const active = isFilterActive(filter);
+
+  const toggle = <T,>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const handleSaveView = () => {
+    if (!viewName.trim()) return;
+    onSaveView(viewName.trim());
+    setViewName('');
+  };
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-96 bg-white rounded-xl shadow-xl border border-slate-100 z-50 animate-in fade-in zoom-in duration-100 flex flex-col max-h-[calc(100vh-6rem)]">
+      <div className="p-4 space-y-4 overflow-y-auto custom-scrollbar">
+        <ChipGroup label="Department" options={departments} selected={filter.departments} onToggle={v => onChange({ ...filter, departments: toggle(filter.departments, v) })} />
+        <ChipGroup label="Location" options={locations} selected={filter.locations} onToggle={v => onChange({ ...filter, locations: toggle(filter.locations, v) })} />
+        <ChipGroup label="Team" options={teams} selected={filter.teams} onToggle={v => onChange({ ...filter, teams: toggle(filter.teams, v) })} />
+        <ChipGroup label="Tier" options={tiers} selected={filter.tiers} onToggle={v => onChange({ ...filter, tiers: toggle(filter.tiers, v) })} format={tierLabel} />
+        {customFields.map(field => {
+          const options = customFieldOptions[field.id] || [];
+          if (field.type !== 'enum' && field.type !== 'boolean' && options.length > MAX_CUSTOM_FIELD_CHIPS) return null;
+          const selected = filter.customFields[field.id] || [];
+          return (
+            <React.Fragment key={field.id}>
+              <ChipGroup
+                label={field.label}
+                options={options}
+                selected={selected}
+                onToggle={v => onChange({ ...filter, customFields: { ...filter.customFields, [field.id]: toggle(selected, v) } })}
+              />
+            </React.Fragment>
+          );
+        })}
+
+        <div className="space-y-1.5">
+          <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Positions</label>
+          <div className="flex gap-1.5">
+            {(['all', 'filled', 'vacant'] as const).map(v => (
+              <button
+                key={v}
+                onClick={() => onChange({ ...filter, vacancy: v })}
+                className={`flex-1 px-2.5 py-1 rounded-full text-[11px] font-semibold border capitalize transition-colors ${
+                  filter.vacancy === v ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                {v === 'vacant' ? 'Vacancies' : v}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Saved Views */}
+        <div className="space-y-1.5 pt-3 border-t border-slate-100">
+          <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1">
+            <Bookmark size={10} /> Saved Views
+          </label>
+          {savedViews.length === 0 && (
+            <p className="text-[11px] text-slate-400">No saved views yet.</p>
+          )}
+          {savedViews.map(view => (
+            <div key={view.id} className="flex items-center gap-2 group/view">
+              <button
+                onClick={() => onApplyView(view)}
+                className="flex-1 text-left px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50 hover:text-blue-600 rounded-lg truncate"
+              >
+                {view.name}
+              </button>
+              <button
+                onClick={() => onDeleteView(view.id)}
+                className="p-1 text-slate-300 hover:text-red-500 rounded opacity-0 group-hover/view:opacity-100 transition-opacity"
+                title="Delete view"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+          {active && (
+            <div className="flex gap-2 pt-1">
+              <input
+                type="text"
+                value={viewName}
+                onChange={e => setViewName(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleSaveView()}
+                placeholder="Name this view…"
+                className="flex-1 min-w-0 px-3 py-1.5 border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+              <button
+                onClick={handleSaveView}
+                disabled={!viewName.trim()}
+                className="px-3 py-1.5 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-xs font-semibold flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Save size={12} /> Save
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="px-4 py-3 border-t border-slate-100 bg-slate-50 rounded-b-xl flex justify-between items-center">
+        <span className="text-[11px] text-slate-500">
+          {active ? <><span className="font-bold text-slate-700">{matchCount}</span> of {totalCount} people match</> : `${totalCount} people`}
+        </span>
+        <button
+          onClick={() => onChange(EMPTY_FILTER)}
+          disabled={!active}
+          className="text-xs font-semibold text-slate-500 hover:text-red-600 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Clear filters
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { X, AlertTriangle } from 'lucide-react';
+
+interface ImportErrorsDialogProps {
+  fileName: string;
+  errors: string[];
+  title?: string;
+  note?: string;
+  onClose: () => void;
+}
+
+// Explains why a file could not be imported (or a stored chart loaded); nothing in the chart has changed
+export const ImportErrorsDialog: React.FC<ImportErrorsDialogProps> = ({
+  fileName,
+  errors,
+  title = 'Import Failed',
+  note = 'your chart was not changed',
+  onClose,
+}) => (
+  <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+    <div
+      className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in duration-200 flex flex-col max-h-[85vh]"
+      onClick={e => e.stopPropagation()}
+    >
+      {/* Header */}
+      <div className="p-5 border-b border-slate-100 flex justify-between items-center bg-gradient-to-r from-red-50 to-white">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="w-10 h-10 rounded-full bg-red-100 text-red-600 flex items-center justify-center shrink-0">
+            <AlertTriangle size={20} />
+          </div>
+          <div className="min-w-0">
+            <h3 className="font-bold text-slate-800">{title}</h3>
+            <p className="text-xs text-slate-500 truncate">{fileName}</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600 transition-colors">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="p-5 space-y-2 overflow-y-auto custom-scrollbar">
+        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+          {errors.length === 1 ? 'Problem' : 'Problems'} — {note}
+        </label>
+        <ul className="space-y-1">
+          {errors.map((error, index) => (
+            <li key={index} className="text-xs text-slate-700 p-2 bg-slate-50 rounded-lg border border-slate-100 font-mono break-words">
+              {error}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Footer */}
+      <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-end">
+        <button
+          onClick={onClose}
+          className="px-5 py-2.5 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-sm font-semibold shadow-sm transition-colors"
+        >
+          OK
+        </button>
+      </div>
+    </div>
+  </div>
+);
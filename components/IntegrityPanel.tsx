@@ -0,0 +1,100 @@
+import React, { useMemo } from 'react';
+import { IntegrityIssue, IntegrityFix, INTEGRITY_CATEGORIES } from '../utils/integrity';
+import { X, ShieldCheck, Wrench, CheckCircle2 } from 'lucide-react';
+
+interface IntegrityPanelProps {
+  issues: IntegrityIssue[];
+  onFix: (fix: IntegrityFix) => void;
+  onFixAll: () => void;
+  onClose: () => void;
+}
+
+// Lists data problems the chart would otherwise hide or silently work around
+export const IntegrityPanel: React.FC<IntegrityPanelProps> = ({ issues, onFix, onFixAll, onClose }) => {
+  const groups = useMemo(
+    () => INTEGRITY_CATEGORIES
+      .map(c => ({ ...c, issues: issues.filter(i => i.category === c.category) }))
+      .filter(g => g.issues.length > 0),
+    [issues]
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden animate-in fade-in zoom-in duration-200 flex flex-col max-h-[85vh]"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-5 border-b border-slate-100 flex justify-between items-center bg-gradient-to-r from-amber-50 to-white">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-amber-100 text-amber-600 flex items-center justify-center">
+              <ShieldCheck size={20} />
+            </div>
+            <div>
+              <h3 className="font-bold text-slate-800">Data Check</h3>
+              <p className="text-xs text-slate-500">
+                {issues.length === 0
+                  ? 'No problems found'
+                  : `${issues.length} ${issues.length === 1 ? 'problem' : 'problems'} found`}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-5 overflow-y-auto custom-scrollbar">
+          {groups.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-8 text-slate-500">
+              <CheckCircle2 size={32} className="text-emerald-500" />
+              <p className="text-sm">Every person, link and list entry checks out.</p>
+            </div>
+          ) : groups.map(group => (
+            <div key={group.category} className="space-y-2">
+              <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                {group.label} ({group.issues.length})
+              </label>
+              {group.issues.map((issue, index) => (
+                <div
+                  key={`${issue.id}-${index}`}
+                  className="flex items-center gap-3 p-3 rounded-lg border border-slate-100 bg-slate-50"
+                >
+                  <p className="flex-1 text-sm text-slate-700 break-words min-w-0">{issue.message}</p>
+                  <button
+                    onClick={() => onFix(issue.fix)}
+                    className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold text-blue-700 bg-white border border-blue-200 hover:bg-blue-50 rounded-lg transition-colors"
+                  >
+                    <Wrench size={12} />
+                    {group.fixLabel}
+                  </button>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-between items-center gap-2">
+          <p className="text-[11px] text-slate-500">Each fix is a single undo step (Ctrl+Z).</p>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-5 py-2.5 text-slate-600 hover:bg-slate-200 rounded-lg text-sm font-medium transition-colors"
+            >
+              Close
+            </button>
+            <button
+              onClick={onFixAll}
+              disabled={issues.length === 0}
+              className="px-5 py-2.5 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-sm font-semibold shadow-sm transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Wrench size={16} />
+              Fix All
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,14 @@
 import React, { useEffect, useState, useCallback, useRef, useMemo } from 'react';
 import { Person, LineSettings } from '../types';
+import { getDottedLineLabel, isDottedLineTypeHidden } from '../utils/dottedLines';
+import { ResolvedRelationship, getStrokeDasharray, RELATIONSHIP_LINE_STYLES } from '../utils/relationships';
 
 interface LinesProps {
   people: Person[];
   deptHeads?: Person[];
   scale: number;
   settings?: LineSettings;
+  relationships?: ResolvedRelationship[]; // Typed relationships active on the shown date
 }
 
 interface NodePosition {
@@ -24,9 +27,10 @@ interface PathData {
   strokeWidth: number;
   strokeDasharray?: string;
   opacity?: number;
+  label?: { x: number; y: number; text: string }; // Relationship label drawn beside the line
 }
 
-export const Lines: React.FC<LinesProps> = ({ people, deptHeads = [], scale, settings }) => {
+export const Lines: React.FC<LinesProps> = ({ people, deptHeads = [], scale, settings, relationships = [] }) => {
   const [pathsData, setPathsData] = useState<PathData[]>([]);
   const prevScaleRef = useRef(scale);
   const animationFrameRef = useRef<number | null>(null);
@@ -41,6 +45,7 @@ export const Lines: React.FC<LinesProps> = ({ people, deptHeads = [], scale, set
   const cornerRadius = settings?.cornerRadius ?? 10;
   const useRandomSecondaryColors = settings?.useRandomSecondaryColors ?? true;
   const secondaryBaseColor = settings?.secondaryColor || '#f59e0b';
+  const hiddenDottedLineTypes = settings?.hiddenDottedLineTypes;
 
   // Memoize dept head IDs for quick lookup
   const deptHeadIds = useMemo(() => new Set(deptHeads.map(h => h.id)), [deptHeads]);
@@ -411,6 +416,8 @@ export const Lines: React.FC<LinesProps> = ({ people, deptHeads = [], scale, set
     people.forEach(person => {
       if (person.secondaryManagerIds?.length) {
         person.secondaryManagerIds.forEach(secMgrId => {
+          const label = getDottedLineLabel(person, secMgrId);
+          if (isDottedLineTypeHidden(label, hiddenDottedLineTypes)) return;
           const personPos = getNodePosition(person.id, containerRect, forceRefresh);
           const secMgrPos = getNodePosition(secMgrId, containerRect, forceRefresh);
 
@@ -451,7 +458,8 @@ export const Lines: React.FC<LinesProps> = ({ people, deptHeads = [], scale, set
               stroke: useRandomSecondaryColors ? getColorFromId(`${person.id}-${secMgrId}`) : secondaryBaseColor,
               strokeWidth: secondaryWidth,
               strokeDasharray: secondaryStyle === 'dotted' ? '0 8' : secondaryStyle === 'dashed' ? '10 6' : undefined,
-              opacity: 1
+              opacity: 1,
+              label: label ? { x: centerMidX, y: startY + (endY - startY) / 2, text: label } : undefined
             });
           }
         });
@@ -677,8 +685,32 @@ export const Lines: React.FC<LinesProps> = ({ people, deptHeads = [], scale, set
       }
     });
 
+    // 6. Typed relationships (mentor, backup, ...), routed like the dotted lines, in their type's color
+    relationships.forEach(relationship => {
+      const fromPos = getNodePosition(relationship.fromId, containerRect, forceRefresh);
+      const toPos = getNodePosition(relationship.toId, containerRect, forceRefresh);
+      if (!fromPos || !toPos) return;
+
+      const isRightSide = toPos.centerX > fromPos.centerX;
+      const startX = isRightSide ? fromPos.right : fromPos.left;
+      const startY = fromPos.top + (fromPos.bottom - fromPos.top) / 2;
+      const endX = isRightSide ? toPos.left : toPos.right;
+      const endY = toPos.top + (toPos.bottom - toPos.top) / 2;
+      const centerMidX = startX + (endX - startX) / 2;
+
+      newPaths.push({
+        key: `relationship-${relationship.id}`,
+        d: `M ${startX} ${startY} L ${centerMidX} ${startY} L ${centerMidX} ${endY} L ${endX} ${endY}`,
+        stroke: relationship.color,
+        strokeWidth: secondaryWidth,
+        strokeDasharray: getStrokeDasharray(relationship.lineStyle),
+        opacity: 1,
+        label: { x: centerMidX, y: startY + (endY - startY) / 2, text: relationship.label }
+      });
+    });
+
     setPathsData(newPaths);
-  }, [people, deptHeads, deptHeadIds, connectionsByManager, scale, getNodePosition, getBadgePosition, createElbowPath, createTreePath, primaryColor, primaryWidth, secondaryWidth, secondaryStyle, cornerRadius, useRandomSecondaryColors, secondaryBaseColor, getColorFromId]);
+  }, [people, deptHeads, deptHeadIds, connectionsByManager, scale, getNodePosition, getBadgePosition, createElbowPath, createTreePath, primaryColor, primaryWidth, secondaryWidth, secondaryStyle, cornerRadius, useRandomSecondaryColors, secondaryBaseColor, hiddenDottedLineTypes, relationships, getColorFromId]);
 
   // Debounced calculation
   const debouncedCalculate = useCallback((forceRefresh = false) => {
@@ -764,6 +796,7 @@ export const Lines: React.FC<LinesProps> = ({ people, deptHeads = [], scale, set
 
   return (
     <svg
+      data-chart-lines="true"
       className="pointer-events-none overflow-visible"
       style={{
         position: 'absolute',
@@ -796,9 +829,59 @@ export const Lines: React.FC<LinesProps> = ({ people, deptHeads = [], scale, set
             vectorEffect="non-scaling-stroke"
           />
         ))}
+        {pathsData.filter(p => p.label).map(({ key, stroke, label }) => (
+          <text
+            key={`${key}-label`}
+            x={label!.x + 4}
+            y={label!.y}
+            fill={stroke}
+            fontSize={10}
+            fontWeight={600}
+            dominantBaseline="middle"
+            stroke="white"
+            strokeWidth={3}
+            paintOrder="stroke"
+          >
+            {label!.text}
+          </text>
+        ))}
       </g>
     </svg>
   );
 };
 
+// Key to the relationship types drawn on the chart, shown over the canvas
+export const RelationshipLegend: React.FC<{ relationships: ResolvedRelationship[] }> = ({ relationships }) => {
+  const entries = useMemo(() => {
+    const seen = new Map<string, { type: ResolvedRelationship['type']; count: number }>();
+    relationships.forEach(r => {
+      const entry = seen.get(r.type.id);
+      if (entry) entry.count++;
+      else seen.set(r.type.id, { type: r.type, count: 1 });
+    });
+    return Array.from(seen.values()).sort((a, b) => a.type.name.localeCompare(b.type.name));
+  }, [relationships]);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm px-3 py-2 rounded-xl shadow-xl border border-slate-200 space-y-1">
+      <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Relationships</div>
+      {entries.map(({ type, count }) => (
+        <div
+          key={type.id}
+          className="flex items-center gap-2 text-xs text-slate-600"
+          title={`${count} ${count === 1 ? 'link' : 'links'}, ${RELATIONSHIP_LINE_STYLES.find(s => s.value === type.lineStyle)?.label.toLowerCase()} line`}
+        >
+          <svg width="24" height="8" className="shrink-0">
+            <line x1="2" y1="4" x2="22" y2="4" stroke={type.color} strokeWidth={2} strokeLinecap="round" strokeDasharray={type.lineStyle === 'dotted' ? '0 5' : type.lineStyle === 'dashed' ? '6 4' : undefined} />
+          </svg>
+          <span className="font-medium">{type.name}</span>
+          <span className="text-slate-400">{count}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
 export default Lines;
@@ -0,0 +1,224 @@
+import React, { useMemo, useState } from 'react';
+import { Person } from '../types';
+import { SaveFileData, parseSaveFile } from '../utils/saveFormat';
+import { MergeChange, MergeChoices, MergeSide, getMergeChanges, applyMerge, chooseAll } from '../utils/chartMerge';
+import { PERSON_FIELD_LABELS, formatFieldValue } from '../utils/chartDiff';
+import { X, GitMerge, Upload, FileJson, UserPlus, UserMinus } from 'lucide-react';
+
+interface MergeDialogProps {
+  current: SaveFileData;
+  onApply: (merged: SaveFileData) => void;
+  onClose: () => void;
+}
+
+interface MergeSource {
+  name: string;
+  data: SaveFileData;
+}
+
+const displayName = (p: Person) => p.isVacancy ? 'Open Position' : p.name;
+
+// People only in the left chart are most likely additions made there, so keep them by default
+const defaultChoices = (changes: MergeChange[]): MergeChoices =>
+  Object.fromEntries(changes.map(c => [c.key, c.kind === 'removed' ? 'left' : 'right']));
+
+// Loads two saved charts (or a file and the current chart) and merges them change by change
+export const MergeDialog: React.FC<MergeDialogProps> = ({ current, onApply, onClose }) => {
+  const currentSource = useMemo<MergeSource>(() => ({ name: 'Current chart', data: current }), [current]);
+  const [left, setLeft] = useState<MergeSource>(currentSource);
+  const [right, setRight] = useState<MergeSource | null>(null);
+  const [errors, setErrors] = useState<{ fileName: string; errors: string[] } | null>(null);
+  const [choices, setChoices] = useState<MergeChoices>({});
+
+  const changes = useMemo(() => right ? getMergeChanges(left.data, right.data) : [], [left, right]);
+  const leftById = useMemo(() => new Map(left.data.people.map(p => [p.id, p])), [left]);
+  const rightById = useMemo(() => new Map((right?.data.people || []).map(p => [p.id, p])), [right]);
+
+  // Changes grouped per person, in the order they first appear
+  const groups = useMemo(() => {
+    const byPerson = new Map<string, MergeChange[]>();
+    changes.forEach(c => byPerson.set(c.personId, [...(byPerson.get(c.personId) || []), c]));
+    return Array.from(byPerson.entries());
+  }, [changes]);
+
+  const loadFile = async (file: File, side: MergeSide) => {
+    const result = parseSaveFile(await file.text());
+    if ('errors' in result) {
+      setErrors({ fileName: file.name, errors: result.errors });
+      return;
+    }
+    setErrors(null);
+    const source = { name: file.name, data: result.data };
+    const nextLeft = side === 'left' ? source : left;
+    const nextRight = side === 'right' ? source : right;
+    if (side === 'left') setLeft(source);
+    else setRight(source);
+    if (nextRight) setChoices(defaultChoices(getMergeChanges(nextLeft.data, nextRight.data)));
+  };
+
+  const choose = (key: string, side: MergeSide) => setChoices(prev => ({ ...prev, [key]: side }));
+  const takenCount = changes.filter(c => choices[c.key] === 'right').length;
+
+  const fileButton = (side: MergeSide, label: string) => (
+    <label className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold text-slate-600 bg-white border border-slate-200 hover:bg-slate-100 rounded-lg transition-colors cursor-pointer">
+      <Upload size={12} /> {label}
+      <input
+        type="file"
+        accept=".json"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) loadFile(file, side);
+        }}
+        className="hidden"
+      />
+    </label>
+  );
+
+  const sourceCard = (side: MergeSide, source: MergeSource | null) => (
+    <div className="flex-1 p-3 rounded-xl border border-slate-100 bg-slate-50 space-y-2 min-w-0">
+      <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{side === 'left' ? 'Merge into (left)' : 'Changes from (right)'}</div>
+      <div className="flex items-center gap-2 text-sm font-semibold text-slate-700 min-w-0">
+        <FileJson size={14} className="text-slate-400 shrink-0" />
+        <span className="truncate">{source ? source.name : 'No file loaded'}</span>
+        {source && <span className="text-[11px] font-normal text-slate-400 shrink-0">{source.data.people.length} people</span>}
+      </div>
+      <div className="flex gap-2">
+        {fileButton(side, source && side === 'right' ? 'Replace file' : 'Load file')}
+        {side === 'left' && left !== currentSource && (
+          <button
+            onClick={() => {
+              setLeft(currentSource);
+              if (right) setChoices(defaultChoices(getMergeChanges(current, right.data)));
+            }}
+            className="px-3 py-1.5 text-xs font-semibold text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Use current chart
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  const sideButton = (key: string, side: MergeSide, content: React.ReactNode) => (
+    <button
+      onClick={() => choose(key, side)}
+      className={`flex-1 min-w-0 text-left px-2 py-1 rounded-md border text-xs break-words transition-colors ${
+        choices[key] === side ? 'bg-blue-50 border-blue-300 text-blue-700 font-semibold' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'
+      }`}
+    >
+      {content}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl overflow-hidden animate-in fade-in zoom-in duration-200 flex flex-col max-h-[85vh]"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-5 border-b border-slate-100 flex justify-between items-center bg-gradient-to-r from-blue-50 to-white">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center">
+              <GitMerge size={20} />
+            </div>
+            <div>
+              <h3 className="font-bold text-slate-800">Diff &amp; Merge</h3>
+              <p className="text-xs text-slate-500">
+                {right ? `${changes.length} ${changes.length === 1 ? 'difference' : 'differences'} · taking ${takenCount} from the right` : 'Load a saved chart to compare, matched by person ID'}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto custom-scrollbar">
+          <div className="flex gap-3">
+            {sourceCard('left', left)}
+            {sourceCard('right', right)}
+          </div>
+
+          {errors && (
+            <div className="p-3 rounded-lg bg-red-50 border border-red-100 space-y-1">
+              <p className="text-xs font-semibold text-red-700">Could not read {errors.fileName}:</p>
+              {errors.errors.map((error, index) => <p key={index} className="text-[11px] text-red-600 font-mono">{error}</p>)}
+            </div>
+          )}
+
+          {right && changes.length === 0 && <p className="text-sm text-slate-500 text-center py-6">The two charts have the same people.</p>}
+
+          {right && changes.length > 0 && (
+            <>
+              <div className="flex items-center justify-between">
+                <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Differences</label>
+                <div className="flex gap-2">
+                  <button onClick={() => setChoices(chooseAll(changes, 'left'))} className="text-xs font-semibold text-slate-600 hover:text-blue-600">Keep all left</button>
+                  <span className="text-slate-300">·</span>
+                  <button onClick={() => setChoices(chooseAll(changes, 'right'))} className="text-xs font-semibold text-slate-600 hover:text-blue-600">Take all right</button>
+                </div>
+              </div>
+
+              {groups.map(([personId, personChanges]) => {
+                const person = rightById.get(personId) || leftById.get(personId)!;
+                return (
+                  <div key={personId} className="p-3 rounded-lg border border-slate-100 bg-slate-50 space-y-2">
+                    <div className="text-sm font-semibold text-slate-700">
+                      {displayName(person)} <span className="text-[11px] font-normal text-slate-400">· {person.title}</span>
+                    </div>
+                    {personChanges.map(change => (
+                      <div key={change.key} className="flex items-center gap-2">
+                        {change.kind === 'field' ? (
+                          <>
+                            <span className="w-28 shrink-0 text-[11px] text-slate-500">{PERSON_FIELD_LABELS[change.field] || change.field}</span>
+                            {sideButton(change.key, 'left', formatFieldValue(change.left, change.field, leftById))}
+                            {sideButton(change.key, 'right', formatFieldValue(change.right, change.field, rightById))}
+                          </>
+                        ) : change.kind === 'added' ? (
+                          <>
+                            <span className="w-28 shrink-0 flex items-center gap-1 text-[11px] text-emerald-600"><UserPlus size={12} /> Only in right</span>
+                            {sideButton(change.key, 'left', 'Leave out')}
+                            {sideButton(change.key, 'right', 'Add person')}
+                          </>
+                        ) : (
+                          <>
+                            <span className="w-28 shrink-0 flex items-center gap-1 text-[11px] text-red-600"><UserMinus size={12} /> Only in left</span>
+                            {sideButton(change.key, 'left', 'Keep person')}
+                            {sideButton(change.key, 'right', 'Remove person')}
+                          </>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-between items-center gap-2">
+          <p className="text-[11px] text-slate-500">The result replaces the current chart. Undo with Ctrl+Z.</p>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-5 py-2.5 text-slate-600 hover:bg-slate-200 rounded-lg text-sm font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => right && onApply(applyMerge(left.data, right.data, changes, choices))}
+              disabled={!right}
+              className="px-5 py-2.5 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-sm font-semibold shadow-sm transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <GitMerge size={16} />
+              Apply Merge
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Person } from '../types';
+
+interface MinimapProps {
+  people: Person[];
+  departmentColors: Record<string, string>;
+  tierBands: Array<{ tier: number; top: number; height: number; width: number }>;
+  scale: number;
+  position: { x: number; y: number };
+  canvasRef: React.RefObject<HTMLDivElement | null>;
+  onNavigate: (position: { x: number; y: number }) => void;
+}
+
+interface NodeBox {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+}
+
+const MAX_WIDTH = 220;
+const MAX_HEIGHT = 150;
+
+// Tailwind 500 shades for the department colour names used in departmentColors
+const DEPT_COLOR_HEX: Record<string, string> = {
+  slate: '#64748b',
+  emerald: '#10b981',
+  blue: '#3b82f6',
+  amber: '#f59e0b',
+  purple: '#a855f7',
+  rose: '#f43f5e',
+  cyan: '#06b6d4',
+  orange: '#f97316',
+  indigo: '#6366f1',
+  teal: '#14b8a6',
+};
+
+export const Minimap: React.FC<MinimapProps> = ({ people, departmentColors, tierBands, scale, position, canvasRef, onNavigate }) => {
+  const [nodes, setNodes] = useState<NodeBox[]>([]);
+  const [contentSize, setContentSize] = useState({ width: 0, height: 0 });
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 });
+  const [isDragging, setIsDragging] = useState(false);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const departmentOf = useMemo(() => new Map(people.map(p => [p.id, p.department])), [people]);
+
+  // Re-measure the chart whenever the layout settles (tier alignment publishes new bands)
+  useEffect(() => {
+    const container = document.getElementById('chart-content');
+    if (!container) return;
+    const containerRect = container.getBoundingClientRect();
+    const boxes: NodeBox[] = [];
+
+    container.querySelectorAll<HTMLElement>('[id^="node-"]').forEach(el => {
+      const id = el.id.slice('node-'.length);
+      const rect = el.getBoundingClientRect();
+      const colorName = departmentColors[departmentOf.get(id) || ''];
+      boxes.push({
+        id,
+        x: (rect.left - containerRect.left) / scale,
+        y: (rect.top - containerRect.top) / scale,
+        width: rect.width / scale,
+        height: rect.height / scale,
+        color: DEPT_COLOR_HEX[colorName] || DEPT_COLOR_HEX.slate,
+      });
+    });
+
+    setNodes(boxes);
+    setContentSize({ width: container.offsetWidth, height: container.offsetHeight });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tierBands, departmentColors, departmentOf]);
+
+  // Track the canvas size for the viewport rectangle
+  useEffect(() => {
+    const el = canvasRef.current;
+    if (!el) return;
+    const update = () => setViewportSize({ width: el.clientWidth, height: el.clientHeight });
+    update();
+    window.addEventListener('resize', update);
+    return () => window.removeEventListener('resize', update);
+  }, [canvasRef]);
+
+  const mapScale = contentSize.width > 0 && contentSize.height > 0
+    ? Math.min(MAX_WIDTH / contentSize.width, MAX_HEIGHT / contentSize.height)
+    : 0;
+  const mapWidth = contentSize.width * mapScale;
+  const mapHeight = contentSize.height * mapScale;
+
+  // Visible part of the chart in content coordinates
+  const viewport = {
+    x: -position.x / scale,
+    y: -position.y / scale,
+    width: viewportSize.width / scale,
+    height: viewportSize.height / scale,
+  };
+
+  // Centre the main view on the chart point under the cursor
+  const navigateTo = (clientX: number, clientY: number) => {
+    const svg = svgRef.current;
+    if (!svg || mapScale === 0) return;
+    const rect = svg.getBoundingClientRect();
+    const cx = (clientX - rect.left) / mapScale;
+    const cy = (clientY - rect.top) / mapScale;
+    onNavigate({
+      x: viewportSize.width / 2 - cx * scale,
+      y: viewportSize.height / 2 - cy * scale,
+    });
+  };
+
+  useEffect(() => {
+    if (!isDragging) return;
+    const handleMove = (e: MouseEvent) => navigateTo(e.clientX, e.clientY);
+    const handleUp = () => setIsDragging(false);
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  });
+
+  if (mapScale === 0) return null;
+
+  return (
+    <div className="absolute bottom-8 left-8 z-20 bg-white/90 backdrop-blur-sm p-2 rounded-xl shadow-xl border border-slate-200">
+      <svg
+        ref={svgRef}
+        width={mapWidth}
+        height={mapHeight}
+        className={`block overflow-hidden rounded-md bg-slate-50 ${isDragging ? 'cursor-grabbing' : 'cursor-pointer'}`}
+        onMouseDown={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+          navigateTo(e.clientX, e.clientY);
+        }}
+      >
+        <g transform={`scale(${mapScale})`}>
+          {tierBands.map((band, i) => (
+            <rect
+              key={`band-${band.tier}`}
+              x={0}
+              y={band.top}
+              width={contentSize.width}
+              height={band.height}
+              fill={i % 2 === 0 ? '#e2e8f0' : '#f1f5f9'}
+              opacity={0.7}
+            />
+          ))}
+          {nodes.map(node => (
+            <rect
+              key={node.id}
+              x={node.x}
+              y={node.y}
+              width={node.width}
+              height={node.height}
+              rx={12}
+              fill={node.color}
+              opacity={0.85}
+            />
+          ))}
+          <rect
+            x={viewport.x}
+            y={viewport.y}
+            width={viewport.width}
+            height={viewport.height}
+            fill="rgba(59, 130, 246, 0.1)"
+            stroke="#3b82f6"
+            strokeWidth={2 / mapScale}
+          />
+        </g>
+      </svg>
+    </div>
+  );
+};
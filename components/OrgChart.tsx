@@ -1,12 +1,27 @@
 import React, { useMemo, useState, useRef, useEffect, useCallback } from 'react';
-import { Person, LineSettings, CardSettings } from '../types';
-import { Card } from './Card';
-import { Lines } from './Lines';
+import { Person, LineSettings, CardSettings, CustomFieldDefinition, CustomFieldValue, EmploymentType, PersonRelationship, RelationshipLineStyle, RelationshipType } from '../types';
+import { Card, CardHighlight } from './Card';
+import { SearchBar } from './SearchBar';
+import { Minimap } from './Minimap';
+import { SelectionToolbar } from './SelectionToolbar';
+import { DeletePeopleDialog } from './DeletePeopleDialog';
+import { Lines, RelationshipLegend } from './Lines';
 import { SettingsPanel } from './settings';
 import { DEPARTMENTS, LOCATIONS } from '../constants';
 import { getLocationFlag, getPopularLocations, COUNTRIES, SPECIAL_LOCATIONS, getFlagImageUrl } from '../countries';
 import { LocationSelect } from './LocationSelect';
-import { ZoomIn, ZoomOut, RotateCcw, Maximize, Search, X, Trash2, Users, Crown, Link, User, Building, MapPin, Mail, Phone, ChevronDown, Plus, Check, Settings, Sliders, Palette, Globe, ArrowLeft, ArrowRight } from 'lucide-react';
+import { computeEffectiveTiers, computeDescendantCounts, computeDepths, getHiddenDescendantIds, getManagerChain, getFocusNeighbourhood, ReportHandling } from '../utils/hierarchy';
+import { searchPeople } from '../utils/search';
+import { ChartFilterResult } from '../utils/filters';
+import { ScenarioChangeKind } from '../utils/scenario';
+import { PERSON_FIELD_LABELS, formatFieldValue } from '../utils/chartDiff';
+import { addDays, formatDate, isIsoDate, removeScheduledChange, todayIso } from '../utils/effectiveDating';
+import { getCustomFieldValue, setCustomFieldValue } from '../utils/customFields';
+import { EMPLOYMENT_TYPES, getEmploymentType } from '../utils/employment';
+import { COMMON_DOTTED_LINE_LABELS, DottedLineManager, getDottedLineLabel, getDottedLineManagers, getDottedLineTypes, setDottedLineManagers } from '../utils/dottedLines';
+import { RELATIONSHIP_LINE_STYLES, createRelationship, resolveRelationships } from '../utils/relationships';
+import { BudgetTotals, COMMON_CURRENCIES, DEFAULT_CURRENCY, FTE_OPTIONS, computeBudgetRollups, formatFte, formatTotals, getFte, sumTotals, totalsOf } from '../utils/budget';
+import { ZoomIn, ZoomOut, RotateCcw, Maximize, Search, X, Trash2, Users, Crown, Link, User, Building, MapPin, Mail, Phone, ChevronDown, Plus, Check, Settings, Sliders, Palette, Globe, ArrowLeft, ArrowRight, ChevronUp, ChevronsDownUp, ChevronsUpDown, ChevronRight, Focus, Map as MapIcon, CalendarClock, ListPlus, Wallet, Briefcase, Share2 } from 'lucide-react';
 
 // Sort helper: sort people by sortOrder (lower first), then by name as fallback
 const sortBySortOrder = (a: Person, b: Person): number => {
@@ -26,10 +41,20 @@ interface OrgChartProps {
   onUpdateLineSettings?: (settings: LineSettings) => void;
   cardSettings?: CardSettings;
   onUpdateCardSettings?: (settings: CardSettings) => void;
-  onMovePerson: (draggedId: string, targetId: string) => void;
+  customFields?: CustomFieldDefinition[];
+  onUpdateCustomFields?: (fields: CustomFieldDefinition[]) => void;
+  relationshipTypes?: RelationshipType[];
+  onUpdateRelationshipTypes?: (types: RelationshipType[]) => void;
+  onMovePerson: (draggedIds: string[], targetId: string) => void;
   onReorderPerson?: (personId: string, direction: 'left' | 'right') => void;
   onUpdatePerson?: (person: Person) => void;
-  onDeletePerson?: (id: string) => void;
+  onUpdatePeople?: (updated: Person[]) => void; // Bulk edits, applied as one undo step
+  onSchedulePersonUpdate?: (person: Person, effectiveDate: string) => void; // Edit taking effect on a later date
+  viewDate?: string; // Date the chart is shown as of (ISO); edits can be scheduled after it
+  onDeletePeople?: (ids: string[], handling: ReportHandling) => void;
+  onExportBranch?: (id: string) => void;
+  filterResult?: ChartFilterResult | null;
+  changeMarks?: Map<string, ScenarioChangeKind[]>; // What-if scenario changes to badge on cards
   onAddPerson?: (person: Person) => void;
   departments?: string[];
   locations?: string[];
@@ -55,7 +80,7 @@ const MAX_ZOOM = 2;
 const ZOOM_STEP = 0.15;
 const ZOOM_SENSITIVITY = 0.002;
 
-export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpdateLineSettings, cardSettings, onUpdateCardSettings, onMovePerson, onReorderPerson, onUpdatePerson, onDeletePerson, onAddPerson, departments: propDepartments, locations: propLocations, jobTitles: propJobTitles, onAddDepartment, onAddLocation, onAddJobTitle, onDeleteDepartment, onDeleteLocation, onDeleteJobTitle, showAddModal, onCloseAddModal, onOpenAddModal, departmentColors = {}, onSetDepartmentColor, locationColors = {}, onSetLocationColor }) => {
+export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpdateLineSettings, cardSettings, onUpdateCardSettings, customFields = [], onUpdateCustomFields, relationshipTypes = [], onUpdateRelationshipTypes, onMovePerson, onReorderPerson, onUpdatePerson, onUpdatePeople, onSchedulePersonUpdate, viewDate, onDeletePeople, onExportBranch, filterResult, changeMarks, onAddPerson, departments: propDepartments, locations: propLocations, jobTitles: propJobTitles, onAddDepartment, onAddLocation, onAddJobTitle, onDeleteDepartment, onDeleteLocation, onDeleteJobTitle, showAddModal, onCloseAddModal, onOpenAddModal, departmentColors = {}, onSetDepartmentColor, locationColors = {}, onSetLocationColor }) => {
   const [scale, setScale] = useState(0.8);
   const [position, setPosition] = useState({ x: 0, y: 0 });
   const [isDraggingCanvas, setIsDraggingCanvas] = useState(false);
@@ -77,6 +102,13 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
   // DnD State for People
   const [draggedPersonId, setDraggedPersonId] = useState<string | null>(null);
 
+  // Multi-select: shift/ctrl-click cards or shift-drag a rubber band on the canvas
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectionBox, setSelectionBox] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+  // People waiting for the delete dialog (single card or the whole selection)
+  const [pendingDeleteIds, setPendingDeleteIds] = useState<string[] | null>(null);
+  const panOrigin = useRef<{ x: number; y: number } | null>(null);
+
   // Edit Modal State
   const [editingPerson, setEditingPerson] = useState<Person | null>(null);
 
@@ -93,6 +125,27 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
   // Department Badge Color Picker State
   const [colorPickerDept, setColorPickerDept] = useState<string | null>(null);
 
+  // Collapsed branches (view state, persisted separately from the undoable chart data)
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(() => {
+    try {
+      const raw = localStorage.getItem('org-chart-collapsed');
+      return new Set<string>(raw ? JSON.parse(raw) : []);
+    } catch {
+      return new Set<string>();
+    }
+  });
+  const [showCollapseMenu, setShowCollapseMenu] = useState(false);
+
+  useEffect(() => {
+    localStorage.setItem('org-chart-collapsed', JSON.stringify(Array.from(collapsedIds)));
+  }, [collapsedIds]);
+
+  const [showMinimap, setShowMinimap] = useState(() => localStorage.getItem('org-chart-minimap') !== 'false');
+
+  useEffect(() => {
+    localStorage.setItem('org-chart-minimap', String(showMinimap));
+  }, [showMinimap]);
+
   // Keep refs in sync with state
   useEffect(() => { scaleRef.current = scale; }, [scale]);
   useEffect(() => { positionRef.current = position; }, [position]);
@@ -194,11 +247,25 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
 
   const handleMouseDown = (e: React.MouseEvent) => {
     if ((e.target as HTMLElement).closest('.card-node')) return;
+    if (e.shiftKey) {
+      // Rubber-band selection instead of panning
+      const rect = canvasRef.current!.getBoundingClientRect();
+      const x = e.clientX - rect.left;
+      const y = e.clientY - rect.top;
+      setSelectionBox({ x0: x, y0: y, x1: x, y1: y });
+      return;
+    }
     setIsDraggingCanvas(true);
     dragStart.current = { x: e.clientX - position.x, y: e.clientY - position.y };
+    panOrigin.current = { x: e.clientX, y: e.clientY };
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
+    if (selectionBox) {
+      const rect = canvasRef.current!.getBoundingClientRect();
+      setSelectionBox({ ...selectionBox, x1: e.clientX - rect.left, y1: e.clientY - rect.top });
+      return;
+    }
     if (!isDraggingCanvas) return;
     setPosition({
       x: e.clientX - dragStart.current.x,
@@ -206,10 +273,62 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
     });
   };
 
-  const handleMouseUp = () => {
+  const handleMouseUp = (e: React.MouseEvent) => {
+    if (selectionBox) {
+      selectCardsInBox(selectionBox);
+      setSelectionBox(null);
+      return;
+    }
+    // A click on empty canvas (no pan) clears the selection
+    const origin = panOrigin.current;
+    if (origin && e.type === 'mouseup' && Math.abs(e.clientX - origin.x) < 3 && Math.abs(e.clientY - origin.y) < 3) {
+      setSelectedIds(new Set());
+    }
+    panOrigin.current = null;
     setIsDraggingCanvas(false);
   };
 
+  // --- SELECTION ---
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Add every card overlapping the box (canvas coordinates) to the selection
+  const selectCardsInBox = (box: { x0: number; y0: number; x1: number; y1: number }) => {
+    const canvasRect = canvasRef.current?.getBoundingClientRect();
+    const container = document.getElementById('chart-content');
+    if (!canvasRect || !container) return;
+    const left = canvasRect.left + Math.min(box.x0, box.x1);
+    const right = canvasRect.left + Math.max(box.x0, box.x1);
+    const top = canvasRect.top + Math.min(box.y0, box.y1);
+    const bottom = canvasRect.top + Math.max(box.y0, box.y1);
+    if (right - left < 3 && bottom - top < 3) return;
+
+    const hits: string[] = [];
+    container.querySelectorAll<HTMLElement>('[id^="node-"]').forEach(el => {
+      const r = el.getBoundingClientRect();
+      if (r.right >= left && r.left <= right && r.bottom >= top && r.top <= bottom) {
+        hits.push(el.id.slice('node-'.length));
+      }
+    });
+    if (hits.length > 0) setSelectedIds(prev => new Set([...prev, ...hits]));
+  };
+
+  // Shift/Ctrl/Cmd-click toggles a card instead of opening the editor
+  const handleCanvasClickCapture = (e: React.MouseEvent) => {
+    if (!(e.shiftKey || e.ctrlKey || e.metaKey)) return;
+    const node = (e.target as HTMLElement).closest('[id^="node-"]');
+    if (!node) return;
+    e.preventDefault();
+    e.stopPropagation();
+    toggleSelected(node.id.slice('node-'.length));
+  };
+
   // --- DND HANDLERS ---
   const onCardDragStart = (e: React.DragEvent, id: string) => {
     setDraggedPersonId(id);
@@ -221,17 +340,28 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
 
   const onCardDrop = (e: React.DragEvent, targetId: string) => {
     if (draggedPersonId && draggedPersonId !== targetId) {
-      onMovePerson(draggedPersonId, targetId);
+      // Dragging a selected card carries the whole selection
+      const movedIds = selectedIds.has(draggedPersonId) ? Array.from(selectedIds) : [draggedPersonId];
+      onMovePerson(movedIds.filter(id => id !== targetId), targetId);
+      expandPerson(targetId);
     }
     setDraggedPersonId(null);
   };
 
-  const getSecondaryManager = (p: Person): Person | undefined => {
-    if (p.secondaryManagerIds && p.secondaryManagerIds.length > 0) {
-      return people.find(m => m.id === p.secondaryManagerIds![0]);
-    }
-    return undefined;
-  };
+  // Dotted-line managers per person, limited to the relationship types switched on in the line settings
+  const dottedLineManagers = useMemo(() => {
+    const byId = new Map<string, Person>(people.map(p => [p.id, p]));
+    const result = new Map<string, DottedLineManager[]>();
+    people.forEach(p => {
+      const managers = getDottedLineManagers(p, byId, lineSettings?.hiddenDottedLineTypes);
+      if (managers.length > 0) result.set(p.id, managers);
+    });
+    return result;
+  }, [people, lineSettings?.hiddenDottedLineTypes]);
+
+  const getSecondaryManagers = useCallback((p: Person) => dottedLineManagers.get(p.id), [dottedLineManagers]);
+
+  const dottedLineTypes = useMemo(() => getDottedLineTypes(people), [people]);
 
   // Cleanup zoom timeout on unmount
   useEffect(() => {
@@ -248,24 +378,162 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
         e.preventDefault();
         setShowSettings(true);
       }
+      if (e.key === 'Escape' && !(e.target instanceof HTMLInputElement)) {
+        setSelectedIds(new Set());
+      }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
+  // --- FOCUS MODE ---
+  // Only one person's reporting neighbourhood is rendered while focused
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const focusPerson = focusId ? people.find(p => p.id === focusId) : undefined;
+  const focusIds = useMemo(() => focusId ? getFocusNeighbourhood(focusId, people) : null, [focusId, people]);
+
+  // Leave focus mode if the focused person is deleted
+  useEffect(() => {
+    if (focusId && !focusPerson) setFocusId(null);
+  }, [focusId, focusPerson]);
+
   // --- DATA PREP ---
+  // People rendered on the canvas: filter matches plus their manager chain as context,
+  // narrowed to the focus neighbourhood when focus mode is on
+  const chartPeople = useMemo(() => {
+    if (!filterResult && !focusIds) return people;
+    return people.filter(p =>
+      (!filterResult || filterResult.matchIds.has(p.id) || filterResult.contextIds.has(p.id)) &&
+      (!focusIds || focusIds.has(p.id))
+    );
+  }, [people, filterResult, focusIds]);
+
   // Root people (executives)
   const rootPeople = useMemo(() => {
-    return people.filter(p => !p.managerId || !people.find(m => m.id === p.managerId)).sort(sortBySortOrder);
-  }, [people]);
+    return chartPeople.filter(p => !p.managerId || !chartPeople.find(m => m.id === p.managerId)).sort(sortBySortOrder);
+  }, [chartPeople]);
 
-  const getDirectReports = (managerId: string) => people.filter(p => p.managerId === managerId).sort(sortBySortOrder);
+  const getDirectReports = (managerId: string) => chartPeople.filter(p => p.managerId === managerId).sort(sortBySortOrder);
 
   // Get Department Heads (Direct reports of Root)
   const deptHeads = useMemo(() => {
-    return rootPeople.flatMap(root => getDirectReports(root.id));
-  }, [rootPeople, people]);
+    return rootPeople.filter(root => !collapsedIds.has(root.id)).flatMap(root => getDirectReports(root.id));
+  }, [rootPeople, chartPeople, collapsedIds]);
+
+  const filterContextIds = filterResult?.contextIds;
+
+  // --- COLLAPSE / EXPAND ---
+  const descendantCounts = useMemo(() => computeDescendantCounts(chartPeople), [chartPeople]);
+  const hiddenIds = useMemo(() => getHiddenDescendantIds(collapsedIds, chartPeople), [collapsedIds, chartPeople]);
+  const visiblePeople = useMemo(() => chartPeople.filter(p => !hiddenIds.has(p.id)), [chartPeople, hiddenIds]);
+  const chartRelationships = useMemo(
+    () => resolveRelationships(visiblePeople, relationshipTypes, viewDate || todayIso()),
+    [visiblePeople, relationshipTypes, viewDate]
+  );
+  const maxDepth = useMemo(() => Math.max(0, ...Array.from(computeDepths(people).values())), [people]);
+
+  const handleToggleCollapse = (id: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const expandPerson = (id: string) => {
+    if (!collapsedIds.has(id)) return;
+    handleToggleCollapse(id);
+  };
+
+  // Show `levels` levels of the hierarchy: collapse everyone with reports at depth levels-1
+  const collapseToDepth = (levels: number) => {
+    const depths = computeDepths(people);
+    const next = new Set<string>();
+    depths.forEach((depth, id) => {
+      if (depth === levels - 1 && (descendantCounts.get(id) || 0) > 0) next.add(id);
+    });
+    setCollapsedIds(next);
+  };
+
+  const expandAll = () => setCollapsedIds(new Set());
+
+  // --- SEARCH ---
+  const [searchQuery, setSearchQuery] = useState('');
+  const [activeSearchId, setActiveSearchId] = useState<string | null>(null);
+  const searchResults = useMemo(() => searchPeople(chartPeople, searchQuery, Infinity, customFields), [chartPeople, searchQuery, customFields]);
+  // null = no search running (nothing dimmed)
+  const searchMatchIds = useMemo(
+    () => searchQuery.trim() ? new Set(searchResults.map(r => r.person.id)) : null,
+    [searchQuery, searchResults]
+  );
+
+  const handleSearchQueryChange = (query: string) => {
+    setSearchQuery(query);
+    setActiveSearchId(null);
+  };
+
+  // Animate the canvas so the node sits in the middle of the viewport
+  const centerOnNode = (personId: string) => {
+    const el = canvasRef.current;
+    const node = document.getElementById(`node-${personId}`);
+    if (!el || !node) return;
+
+    const canvasRect = el.getBoundingClientRect();
+    const nodeRect = node.getBoundingClientRect();
+    const oldScale = scaleRef.current;
+    const pos = positionRef.current;
+    // Node centre in unscaled content coordinates
+    const cx = (nodeRect.left + nodeRect.width / 2 - canvasRect.left - pos.x) / oldScale;
+    const cy = (nodeRect.top + nodeRect.height / 2 - canvasRect.top - pos.y) / oldScale;
+    const newScale = Math.min(Math.max(oldScale, 1), MAX_ZOOM);
+
+    triggerZoomTransition();
+    setScale(newScale);
+    setPosition({ x: canvasRect.width / 2 - cx * newScale, y: canvasRect.height / 2 - cy * newScale });
+  };
+
+  // Expand any collapsed managers above the person, then centre on them.
+  // `rerendering` = the chart is about to change anyway, so wait before measuring.
+  const revealAndCenter = (personId: string, rerendering = false) => {
+    const hiddenByManagers = getManagerChain(personId, people).filter(m => collapsedIds.has(m.id));
+    if (hiddenByManagers.length > 0) {
+      setCollapsedIds(prev => {
+        const next = new Set(prev);
+        hiddenByManagers.forEach(m => next.delete(m.id));
+        return next;
+      });
+    }
+    if (hiddenByManagers.length > 0 || rerendering) {
+      // Wait for the branch to render and tier alignment to settle before measuring
+      setTimeout(() => centerOnNode(personId), 100);
+    } else {
+      centerOnNode(personId);
+    }
+  };
+
+  const handleSelectSearchResult = (person: Person) => {
+    setActiveSearchId(person.id);
+    revealAndCenter(person.id);
+  };
+
+  const handleFocusPerson = (personId: string) => {
+    setFocusId(personId);
+    revealAndCenter(personId, true);
+  };
+
+  const exitFocus = () => {
+    const previousId = focusId;
+    setFocusId(null);
+    if (previousId) revealAndCenter(previousId, true);
+  };
+
+  // Headcount / budget totals per person's part of the tree, when shown
+  const budgetRollups = useMemo(
+    () => cardSettings?.showBudget || cardSettings?.showHeadcount ? computeBudgetRollups(people) : undefined,
+    [people, cardSettings?.showBudget, cardSettings?.showHeadcount]
+  );
 
   // Group Heads by Department
   const departments = useMemo(() => {
@@ -279,57 +547,9 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
   }, [deptHeads]);
 
   // Compute effective tier (absolute depth from root) for each person
-  // Auto-assign: tier = hierarchy depth (CEO=0, direct reports=1, etc.)
-  // Manual override: if person.tier is set, use it (but enforce child > parent)
-  const effectiveTiers = useMemo(() => {
-    const tiers = new Map<string, number>();
-    const visited = new Set<string>();
-    const queue: Array<{ id: string; depth: number }> = [];
-
-    // Build a children lookup for efficient traversal
-    const childrenOf = new Map<string, Person[]>();
-    people.forEach(p => {
-      if (p.managerId) {
-        if (!childrenOf.has(p.managerId)) childrenOf.set(p.managerId, []);
-        childrenOf.get(p.managerId)!.push(p);
-      }
-    });
-
-    // Seed: root people always start at tier 0 (Executive)
-    // unless manually overridden
-    rootPeople.forEach(p => {
-      const tier = (p.tier != null) ? p.tier : 0;
-      tiers.set(p.id, tier);
-      visited.add(p.id);
-      queue.push({ id: p.id, depth: 0 });
-    });
-
-    // BFS traversal - auto-assign based on depth, respect overrides
-    while (queue.length > 0) {
-      const { id, depth } = queue.shift()!;
-      const parentTier = tiers.get(id)!;
-      const children = childrenOf.get(id) || [];
-      children.forEach(child => {
-        if (visited.has(child.id)) return; // cycle protection
-        const naturalTier = parentTier + 1; // auto: one below parent
-        const desired = (child.tier != null) ? child.tier : naturalTier;
-        // Enforce: child must be at least parentTier + 1
-        const effective = Math.max(desired, parentTier + 1);
-        tiers.set(child.id, effective);
-        visited.add(child.id);
-        queue.push({ id: child.id, depth: depth + 1 });
-      });
-    }
-
-    // Orphans: people not reached by BFS
-    people.forEach(p => {
-      if (!visited.has(p.id)) {
-        tiers.set(p.id, (p.tier != null) ? p.tier : 0);
-      }
-    });
-
-    return tiers;
-  }, [people, rootPeople]);
+  // (shared with exports - see utils/hierarchy.ts)
+  // Always from the full chart so filtering doesn't renumber tiers
+  const effectiveTiers = useMemo(() => computeEffectiveTiers(people), [people]);
 
   // Align same-tier nodes horizontally and compute tier background bands.
   // Uses requestAnimationFrame to avoid layout thrashing glitches.
@@ -475,7 +695,7 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
 
     return () => cancelAnimationFrame(tierAlignRafRef.current);
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [people, effectiveTiers, cardSettings]);
+  }, [chartPeople, effectiveTiers, cardSettings, collapsedIds]);
 
   const allDeptNames = useMemo(() => {
     if (propDepartments) return propDepartments;
@@ -494,7 +714,9 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
   }, [people, propLocations]);
 
   // Modal tab state
-  const [modalTab, setModalTab] = useState<'basic' | 'reporting' | 'team'>('basic');
+  const [modalTab, setModalTab] = useState<'basic' | 'reporting' | 'team' | 'dates' | 'fields'>('basic');
+  // When set, saving the edit schedules it for this date instead of applying it now
+  const [effectiveFrom, setEffectiveFrom] = useState('');
 
   // Add new department/location/team state
   const [isAddingDept, setIsAddingDept] = useState(false);
@@ -506,6 +728,14 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
   const [isAddingTeam, setIsAddingTeam] = useState(false);
   const [newTeamName, setNewTeamName] = useState('');
 
+  const peopleById = useMemo(() => new Map(people.map(p => [p.id, p])), [people]);
+
+  // Custom fields chosen to show on cards, in schema order
+  const cardCustomFields = useMemo(() => {
+    const visibleIds = cardSettings?.visibleCustomFieldIds || [];
+    return customFields.filter(f => visibleIds.includes(f.id));
+  }, [customFields, cardSettings?.visibleCustomFieldIds]);
+
   // Get all unique team names from people
   const allTeamNames = useMemo(() => {
     const teams = new Set<string>();
@@ -593,6 +823,7 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
   };
 
   const handleAddDirectReport = (managerId: string, department?: string, location?: string) => {
+    expandPerson(managerId);
     setNewPerson({
       name: '',
       title: '',
@@ -634,19 +865,51 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
   // --- EDIT HANDLERS ---
   const handleEditClick = (person: Person) => {
     setEditingPerson({...person});
+    setEffectiveFrom('');
   };
 
   const handleSaveEdit = () => {
-    if (editingPerson && onUpdatePerson) {
+    if (editingPerson && effectiveFrom && onSchedulePersonUpdate) {
+      onSchedulePersonUpdate(editingPerson, effectiveFrom);
+      setEditingPerson(null);
+    } else if (editingPerson && onUpdatePerson) {
       onUpdatePerson(editingPerson);
       setEditingPerson(null);
     }
   };
 
+  // Deleting always goes through the dialog so reports and references are handled
   const handleDeleteClick = (id: string) => {
-    if (window.confirm("Are you sure you want to delete this person?") && onDeletePerson) {
-      onDeletePerson(id);
-      setEditingPerson(null);
+    if (onDeletePeople) setPendingDeleteIds([id]);
+  };
+
+  const handleConfirmDelete = (handling: ReportHandling) => {
+    if (pendingDeleteIds) {
+      onDeletePeople?.(pendingDeleteIds, handling);
+      if (editingPerson && pendingDeleteIds.includes(editingPerson.id)) setEditingPerson(null);
+      setSelectedIds(prev => new Set([...prev].filter(id => !pendingDeleteIds.includes(id))));
+    }
+    setPendingDeleteIds(null);
+  };
+
+  // --- BULK ACTIONS ---
+  const selectedPeople = people.filter(p => selectedIds.has(p.id));
+
+  const teamNames = useMemo(
+    () => Array.from(new Set(people.map(p => p.teamName).filter((t): t is string => !!t))).sort(),
+    [people]
+  );
+
+  const handleBulkUpdate = (changes: Partial<Person>) => {
+    onUpdatePeople?.(selectedPeople.map(p => ({ ...p, ...changes })));
+  };
+
+  const handleBulkChangeManager = (managerId: string | null) => {
+    if (managerId) {
+      onMovePerson(selectedPeople.map(p => p.id), managerId);
+      expandPerson(managerId);
+    } else {
+      onUpdatePeople?.(selectedPeople.map(p => ({ ...p, managerId: null })));
     }
   };
 
@@ -695,6 +958,21 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
               >
                 <Users size={14} /> Team
               </button>
+              <button 
+                onClick={() => setModalTab('dates')}
+                className={`flex-1 py-3 text-xs font-semibold flex items-center justify-center gap-2 border-b-2 transition-all ${modalTab === 'dates' ? 'border-amber-500 text-amber-600 bg-white' : 'border-transparent text-slate-400 hover:text-slate-600'}`}
+              >
+                <CalendarClock size={14} /> Dates
+                {!!editingPerson.scheduledChanges?.length && (
+                  <span className="bg-amber-500 text-white rounded-full px-1.5 text-[10px] leading-4">{editingPerson.scheduledChanges.length}</span>
+                )}
+              </button>
+              <button 
+                onClick={() => setModalTab('fields')}
+                className={`flex-1 py-3 text-xs font-semibold flex items-center justify-center gap-2 border-b-2 transition-all ${modalTab === 'fields' ? 'border-blue-500 text-blue-600 bg-white' : 'border-transparent text-slate-400 hover:text-slate-600'}`}
+              >
+                <ListPlus size={14} /> Fields
+              </button>
             </div>
 
             {/* Tab Content */}
@@ -1010,6 +1288,65 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
                     </div>
                   </div>
 
+                  <div className="grid grid-cols-2 gap-4 pt-2">
+                    <div className="space-y-1">
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1">
+                        <Briefcase size={10} /> Employment Type
+                      </label>
+                      <select
+                        className="w-full px-3 py-2.5 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white cursor-pointer"
+                        value={getEmploymentType(editingPerson)}
+                        onChange={e => setEditingPerson({...editingPerson, employmentType: e.target.value === 'employee' ? undefined : e.target.value as EmploymentType})}
+                      >
+                        {EMPLOYMENT_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+                      </select>
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">FTE</label>
+                      <select
+                        className="w-full px-3 py-2.5 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white cursor-pointer"
+                        value={getFte(editingPerson)}
+                        onChange={e => setEditingPerson({...editingPerson, fte: Number(e.target.value) === 1 ? undefined : Number(e.target.value)})}
+                        title="Full-time equivalent"
+                      >
+                        {Array.from(new Set([...FTE_OPTIONS, getFte(editingPerson)])).sort((a, b) => b - a).map(fte => (
+                          <option key={fte} value={fte}>{fte === 1 ? 'Full time (1.0)' : formatFte(fte)}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  <div className="space-y-1 pt-2">
+                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1">
+                      <Wallet size={10} /> {editingPerson.isVacancy ? 'Planned Budget' : 'Salary Band'} (yearly)
+                    </label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {(['salaryMin', 'salaryMax'] as const).map(field => (
+                        <input
+                          key={field}
+                          type="number"
+                          min={0}
+                          className="w-full px-3 py-2.5 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all"
+                          value={editingPerson[field] ?? ''}
+                          onChange={e => setEditingPerson({...editingPerson, [field]: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value))})}
+                          placeholder={field === 'salaryMin' ? 'From' : 'To'}
+                        />
+                      ))}
+                      <input
+                        list="currency-options"
+                        className="w-full px-3 py-2.5 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all uppercase"
+                        value={editingPerson.currency || ''}
+                        onChange={e => setEditingPerson({...editingPerson, currency: e.target.value.toUpperCase() || undefined})}
+                        placeholder={DEFAULT_CURRENCY}
+                        maxLength={3}
+                      />
+                      <datalist id="currency-options">
+                        {COMMON_CURRENCIES.map(c => <option key={c} value={c} />)}
+                      </datalist>
+                    </div>
+                    <p className="text-[10px] text-slate-400">Cost is the band midpoint times FTE. Part-time roles count by their FTE.</p>
+                  </div>
+
                 </>
               )}
 
@@ -1092,27 +1429,61 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
                   </div>
 
                   <div className="p-4 bg-amber-50/50 rounded-xl border border-amber-100 space-y-4">
-                    <div className="space-y-1">
+                    <div className="space-y-2">
                       <label className="text-[10px] font-bold text-amber-600 uppercase tracking-wider flex items-center gap-1">
-                        <Link size={10} /> Secondary Manager (Dotted Line)
+                        <Link size={10} /> Secondary Managers (Dotted Line)
                       </label>
+                      {(editingPerson.secondaryManagerIds || []).map((managerId, index) => {
+                        const manager = people.find(p => p.id === managerId);
+                        const rows = (editingPerson.secondaryManagerIds || []).map(id => ({ id, label: getDottedLineLabel(editingPerson, id) }));
+                        return (
+                          <div key={managerId} className="flex items-center gap-2">
+                            <span className="flex-1 min-w-0 px-3 py-2 border border-amber-200 rounded-lg text-sm bg-white truncate">
+                              {manager ? `${manager.name} — ${manager.title}` : 'Unknown person'}
+                            </span>
+                            <input
+                              list="dotted-line-types"
+                              className="w-28 px-3 py-2 border border-amber-200 rounded-lg text-sm focus:ring-2 focus:ring-amber-400 focus:border-amber-400 outline-none bg-white"
+                              value={editingPerson.secondaryManagerLabels?.[managerId] || ''}
+                              onChange={e => setEditingPerson({
+                                ...editingPerson,
+                                secondaryManagerLabels: { ...editingPerson.secondaryManagerLabels, [managerId]: e.target.value }
+                              })}
+                              onBlur={() => setEditingPerson(setDottedLineManagers(editingPerson, rows))}
+                              placeholder="Label"
+                              title="Relationship, e.g. functional or project"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => setEditingPerson(setDottedLineManagers(editingPerson, rows.filter((_, i) => i !== index)))}
+                              className="p-2 text-amber-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                              title="Remove dotted line"
+                            >
+                              <X size={14} />
+                            </button>
+                          </div>
+                        );
+                      })}
+                      <datalist id="dotted-line-types">
+                        {Array.from(new Set([...dottedLineTypes.filter(Boolean), ...COMMON_DOTTED_LINE_LABELS])).map(label => <option key={label} value={label} />)}
+                      </datalist>
                       <div className="relative">
                         <select 
                           className="w-full px-3 py-2.5 border border-amber-200 rounded-lg text-sm focus:ring-2 focus:ring-amber-400 focus:border-amber-400 outline-none bg-white appearance-none cursor-pointer"
-                          value={editingPerson.secondaryManagerIds?.[0] || ''}
-                          onChange={e => setEditingPerson({
+                          value=""
+                          onChange={e => e.target.value && setEditingPerson({
                             ...editingPerson, 
-                            secondaryManagerIds: e.target.value ? [e.target.value] : []
+                            secondaryManagerIds: [...(editingPerson.secondaryManagerIds || []), e.target.value]
                           })}
                         >
-                          <option value="">None</option>
-                          {people.filter(p => p.id !== editingPerson.id && p.id !== editingPerson.managerId).map(p => (
+                          <option value="">{editingPerson.secondaryManagerIds?.length ? 'Add another dotted-line manager…' : 'Add a dotted-line manager…'}</option>
+                          {people.filter(p => p.id !== editingPerson.id && p.id !== editingPerson.managerId && !editingPerson.secondaryManagerIds?.includes(p.id)).map(p => (
                             <option key={`sec-${p.id}`} value={p.id}>{p.name} — {p.title}</option>
                           ))}
                         </select>
                         <ChevronDown size={14} className="absolute right-3 top-1/2 -translate-y-1/2 text-amber-400 pointer-events-none" />
                       </div>
-                      <p className="text-[10px] text-amber-600/70 mt-1">Cross-functional or matrix reporting shown on card</p>
+                      <p className="text-[10px] text-amber-600/70 mt-1">Cross-functional or matrix reporting shown on card. Labels name the relationship type, which can be switched off in Settings → Lines.</p>
                     </div>
                   </div>
 
@@ -1172,6 +1543,120 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
                       </div>
                     </div>
                   </div>
+
+                  <div className="p-4 bg-violet-50/50 rounded-xl border border-violet-100 space-y-2">
+                    <label className="text-[10px] font-bold text-violet-600 uppercase tracking-wider flex items-center gap-1">
+                      <Share2 size={10} /> Other Relationships
+                    </label>
+                    {(editingPerson.relationships || []).map(relationship => {
+                      const type = relationshipTypes.find(t => t.id === relationship.typeId);
+                      const update = (changes: Partial<PersonRelationship>) => setEditingPerson({
+                        ...editingPerson,
+                        relationships: editingPerson.relationships!.map(r => r.id === relationship.id ? { ...r, ...changes } : r)
+                      });
+                      return (
+                        <div key={relationship.id} className="p-2.5 bg-white rounded-lg border border-violet-100 space-y-2">
+                          <div className="flex items-center gap-2">
+                            <select
+                              className="w-32 px-2 py-1.5 border border-violet-200 rounded-lg text-xs focus:ring-2 focus:ring-violet-400 outline-none bg-white cursor-pointer"
+                              value={relationship.typeId}
+                              onChange={e => update({ typeId: e.target.value })}
+                            >
+                              {!type && <option value={relationship.typeId}>Unknown type</option>}
+                              {relationshipTypes.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                            </select>
+                            <span className="text-xs text-slate-400">of</span>
+                            <select
+                              className="flex-1 min-w-0 px-2 py-1.5 border border-violet-200 rounded-lg text-xs focus:ring-2 focus:ring-violet-400 outline-none bg-white cursor-pointer"
+                              value={relationship.toId}
+                              onChange={e => update({ toId: e.target.value })}
+                            >
+                              {!people.some(p => p.id === relationship.toId) && <option value={relationship.toId}>Unknown person</option>}
+                              {people.filter(p => p.id !== editingPerson.id).map(p => (
+                                <option key={`rel-${p.id}`} value={p.id}>{p.name} — {p.title}</option>
+                              ))}
+                            </select>
+                            <button
+                              type="button"
+                              onClick={() => setEditingPerson({ ...editingPerson, relationships: editingPerson.relationships!.filter(r => r.id !== relationship.id) })}
+                              className="p-1.5 text-violet-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                              title="Remove relationship"
+                            >
+                              <X size={14} />
+                            </button>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <input
+                              className="flex-1 min-w-0 px-2 py-1.5 border border-violet-200 rounded-lg text-xs focus:ring-2 focus:ring-violet-400 outline-none"
+                              value={relationship.label || ''}
+                              onChange={e => update({ label: e.target.value || undefined })}
+                              placeholder={type ? `Label (default: ${type.name})` : 'Label'}
+                            />
+                            <select
+                              className="px-2 py-1.5 border border-violet-200 rounded-lg text-xs focus:ring-2 focus:ring-violet-400 outline-none bg-white cursor-pointer"
+                              value={relationship.lineStyle || ''}
+                              onChange={e => update({ lineStyle: (e.target.value || undefined) as RelationshipLineStyle | undefined })}
+                              title="Line style"
+                            >
+                              <option value="">Type style</option>
+                              {RELATIONSHIP_LINE_STYLES.map(style => <option key={style.value} value={style.value}>{style.label}</option>)}
+                            </select>
+                            <input
+                              type="color"
+                              className="w-8 h-7 p-0.5 border border-violet-200 rounded-lg cursor-pointer bg-white"
+                              value={relationship.color || type?.color || '#8b5cf6'}
+                              onChange={e => update({ color: e.target.value })}
+                              title="Line color"
+                            />
+                            {relationship.color && (
+                              <button type="button" onClick={() => update({ color: undefined })} className="text-[10px] text-violet-500 hover:underline">
+                                Reset
+                              </button>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2 text-xs text-slate-500">
+                            <span>From</span>
+                            <input
+                              type="date"
+                              className="flex-1 min-w-0 px-2 py-1 border border-violet-200 rounded-lg text-xs focus:ring-2 focus:ring-violet-400 outline-none"
+                              value={relationship.startDate || ''}
+                              max={relationship.endDate}
+                              onChange={e => update({ startDate: isIsoDate(e.target.value) ? e.target.value : undefined })}
+                            />
+                            <span>to</span>
+                            <input
+                              type="date"
+                              className="flex-1 min-w-0 px-2 py-1 border border-violet-200 rounded-lg text-xs focus:ring-2 focus:ring-violet-400 outline-none"
+                              value={relationship.endDate || ''}
+                              min={relationship.startDate}
+                              onChange={e => update({ endDate: isIsoDate(e.target.value) ? e.target.value : undefined })}
+                            />
+                          </div>
+                        </div>
+                      );
+                    })}
+                    {relationshipTypes.length > 0 ? (
+                      <div className="relative">
+                        <select
+                          className="w-full px-3 py-2.5 border border-violet-200 rounded-lg text-sm focus:ring-2 focus:ring-violet-400 focus:border-violet-400 outline-none bg-white appearance-none cursor-pointer"
+                          value=""
+                          onChange={e => e.target.value && setEditingPerson({
+                            ...editingPerson,
+                            relationships: [...(editingPerson.relationships || []), createRelationship(relationshipTypes[0].id, e.target.value)]
+                          })}
+                        >
+                          <option value="">Add a relationship to…</option>
+                          {people.filter(p => p.id !== editingPerson.id).map(p => (
+                            <option key={`rel-add-${p.id}`} value={p.id}>{p.name} — {p.title}</option>
+                          ))}
+                        </select>
+                        <ChevronDown size={14} className="absolute right-3 top-1/2 -translate-y-1/2 text-violet-400 pointer-events-none" />
+                      </div>
+                    ) : (
+                      <p className="text-xs text-violet-600/70">No relationship types yet. Define them in Settings → Relations.</p>
+                    )}
+                    <p className="text-[10px] text-violet-600/70">Mentors, project leads, backups… drawn as lines in the type's color. Dates limit when a link is shown.</p>
+                  </div>
                 </>
               )}
 
@@ -1321,6 +1806,159 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
                   </div>
                 </>
               )}
+
+              {/* DATES TAB */}
+              {modalTab === 'dates' && (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-1">
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Start Date</label>
+                      <input
+                        type="date"
+                        className="w-full px-3 py-2.5 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all"
+                        value={editingPerson.startDate || ''}
+                        onChange={e => setEditingPerson({...editingPerson, startDate: isIsoDate(e.target.value) ? e.target.value : undefined})}
+                      />
+                      <p className="text-[10px] text-slate-400">Leave empty if already here</p>
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Last Day</label>
+                      <input
+                        type="date"
+                        className="w-full px-3 py-2.5 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all"
+                        value={editingPerson.endDate || ''}
+                        min={editingPerson.startDate}
+                        onChange={e => setEditingPerson({...editingPerson, endDate: isIsoDate(e.target.value) ? e.target.value : undefined})}
+                      />
+                      <p className="text-[10px] text-slate-400">For planned leavers</p>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2 pt-2">
+                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Scheduled Changes</label>
+                    {editingPerson.scheduledChanges?.length ? (
+                      <ul className="space-y-1.5">
+                        {editingPerson.scheduledChanges.map(change => (
+                          <li key={change.id} className="flex items-start gap-2 p-2.5 rounded-lg bg-amber-50/50 border border-amber-100">
+                            <span className="w-24 shrink-0 text-xs font-semibold text-amber-700">{formatDate(change.effectiveDate)}</span>
+                            <span className="flex-1 min-w-0 text-xs text-slate-600 space-y-0.5">
+                              {(Object.keys(change.changes) as Array<keyof Person>).map(field => (
+                                <span key={field} className="block truncate">
+                                  {PERSON_FIELD_LABELS[field] || field}: <span className="font-medium text-slate-800">{formatFieldValue(change.changes as Person, field, peopleById)}</span>
+                                </span>
+                              ))}
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => setEditingPerson(removeScheduledChange(editingPerson, change.id))}
+                              className="p-1 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors shrink-0"
+                              title="Cancel this change"
+                            >
+                              <Trash2 size={12} />
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-xs text-slate-400">Nothing scheduled. Moves and title changes can be planned for a later date below, or by picking a future date in the header and editing the chart.</p>
+                    )}
+                  </div>
+
+                  {onSchedulePersonUpdate && (
+                    <div className="p-3 bg-slate-50 rounded-lg border border-slate-100 space-y-1">
+                      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Apply This Edit From</label>
+                      <div className="flex gap-2">
+                        <input
+                          type="date"
+                          className="flex-1 px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                          value={effectiveFrom}
+                          min={viewDate ? addDays(viewDate, 1) : undefined}
+                          onChange={e => setEffectiveFrom(isIsoDate(e.target.value) && (!viewDate || e.target.value > viewDate) ? e.target.value : '')}
+                        />
+                        {effectiveFrom && (
+                          <button type="button" onClick={() => setEffectiveFrom('')} className="px-3 text-xs font-semibold text-slate-500 hover:text-slate-700">
+                            Now
+                          </button>
+                        )}
+                      </div>
+                      <p className="text-[10px] text-slate-400">Changes made in the other tabs (manager, title, ...) take effect on this date instead of now</p>
+                    </div>
+                  )}
+                </>
+              )}
+
+              {/* CUSTOM FIELDS TAB */}
+              {modalTab === 'fields' && (
+                customFields.length === 0 ? (
+                  <p className="text-xs text-slate-400 text-center py-6">
+                    No custom fields defined yet. Add them under Settings &rarr; Fields.
+                  </p>
+                ) : (
+                  <div className="space-y-4">
+                    {customFields.map(field => {
+                      const value = getCustomFieldValue(editingPerson, field);
+                      const setValue = (next: CustomFieldValue | undefined) =>
+                        setEditingPerson(setCustomFieldValue(editingPerson, field.id, next));
+                      const inputClass = 'w-full px-3 py-2.5 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all';
+
+                      if (field.type === 'boolean') {
+                        return (
+                          <label key={field.id} className="flex items-center gap-3 p-3 rounded-lg border border-slate-200 hover:bg-slate-50 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={value === true}
+                              onChange={e => setValue(e.target.checked)}
+                              className="w-4 h-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            <span className="text-sm font-medium text-slate-700">{field.label}</span>
+                          </label>
+                        );
+                      }
+
+                      return (
+                        <div key={field.id} className="space-y-1">
+                          <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{field.label}</label>
+                          {field.type === 'enum' ? (
+                            <select
+                              className={`${inputClass} bg-white`}
+                              value={value === undefined ? '' : String(value)}
+                              onChange={e => setValue(e.target.value || undefined)}
+                            >
+                              <option value="">Not set</option>
+                              {value !== undefined && !(field.options || []).includes(String(value)) && (
+                                <option value={String(value)}>{String(value)}</option>
+                              )}
+                              {(field.options || []).map(option => <option key={option} value={option}>{option}</option>)}
+                            </select>
+                          ) : field.type === 'number' ? (
+                            <input
+                              type="number"
+                              className={inputClass}
+                              value={value === undefined ? '' : String(value)}
+                              onChange={e => setValue(e.target.value === '' || !Number.isFinite(Number(e.target.value)) ? undefined : Number(e.target.value))}
+                            />
+                          ) : field.type === 'date' ? (
+                            <input
+                              type="date"
+                              className={inputClass}
+                              value={value === undefined ? '' : String(value)}
+                              onChange={e => setValue(isIsoDate(e.target.value) ? e.target.value : undefined)}
+                            />
+                          ) : (
+                            <input
+                              type={field.type === 'url' ? 'url' : 'text'}
+                              className={inputClass}
+                              placeholder={field.type === 'url' ? 'https://' : ''}
+                              value={value === undefined ? '' : String(value)}
+                              onChange={e => setValue(e.target.value)}
+                            />
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )
+              )}
             </div>
 
             {/* Modal Footer */}
@@ -1342,7 +1980,7 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
                   onClick={handleSaveEdit}
                   className="px-5 py-2.5 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-sm font-semibold shadow-sm transition-colors"
                 >
-                  Save Changes
+                  {effectiveFrom && onSchedulePersonUpdate ? `Schedule for ${formatDate(effectiveFrom)}` : 'Save Changes'}
                 </button>
               </div>
             </div>
@@ -1359,9 +1997,14 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
           onUpdateCardSettings={onUpdateCardSettings}
           lineSettings={lineSettings}
           onUpdateLineSettings={onUpdateLineSettings}
+          dottedLineTypes={dottedLineTypes}
           locationColors={locationColors}
           onSetLocationColor={onSetLocationColor || (() => {})}
           locations={allLocations}
+          customFields={customFields}
+          onUpdateCustomFields={onUpdateCustomFields || (() => {})}
+          relationshipTypes={relationshipTypes}
+          onUpdateRelationshipTypes={onUpdateRelationshipTypes || (() => {})}
           previewPerson={people[0]}
           defaultTab={settingsDefaultTab}
         />
@@ -1516,6 +2159,46 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
         </div>
       )}
 
+      {/* Search */}
+      <SearchBar
+        query={searchQuery}
+        onQueryChange={handleSearchQueryChange}
+        results={searchResults}
+        onSelect={handleSelectSearchResult}
+      />
+
+      {/* Focus Breadcrumb */}
+      {focusPerson && (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-20 flex items-center gap-1 bg-white pl-3 pr-1 py-1 rounded-full shadow-xl border border-blue-200 max-w-[50vw]">
+          <Focus size={14} className="text-blue-600 shrink-0" />
+          <span className="text-[10px] font-bold text-blue-600 uppercase tracking-wider mr-1 shrink-0">Focus</span>
+          <div className="flex items-center gap-0.5 min-w-0 overflow-hidden">
+            {getManagerChain(focusPerson.id, people).map(manager => (
+              <React.Fragment key={manager.id}>
+                <button
+                  onClick={() => handleFocusPerson(manager.id)}
+                  className="px-2 py-1 text-xs font-medium text-slate-500 hover:text-blue-600 hover:bg-slate-50 rounded-full truncate max-w-[10rem]"
+                  title={`Focus on ${manager.name}`}
+                >
+                  {manager.isVacancy ? 'Open Position' : manager.name}
+                </button>
+                <ChevronRight size={12} className="text-slate-300 shrink-0" />
+              </React.Fragment>
+            ))}
+            <span className="px-2 py-1 text-xs font-bold text-slate-800 truncate max-w-[12rem]">
+              {focusPerson.isVacancy ? 'Open Position' : focusPerson.name}
+            </span>
+          </div>
+          <button
+            onClick={exitFocus}
+            className="p-1.5 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600 transition-colors shrink-0"
+            title="Exit focus mode"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
       {/* Floating Controls */}
       <div className="absolute bottom-8 right-8 z-50 flex flex-col gap-2 bg-white p-2 rounded-xl shadow-xl border border-slate-200">
         <button 
@@ -1557,8 +2240,89 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
         </button>
         <button onClick={handleFitToScreen} className="p-2 hover:bg-slate-100 rounded-lg text-slate-600 transition-colors" title="Fit to Screen"><Maximize size={20} /></button>
         <button onClick={resetZoom} className="p-2 hover:bg-slate-100 rounded-lg text-slate-600 transition-colors" title="Reset (80%)"><RotateCcw size={20} /></button>
+        <button
+          onClick={() => setShowMinimap(!showMinimap)}
+          className={`p-2 rounded-lg transition-colors ${showMinimap ? 'bg-blue-50 text-blue-600' : 'text-slate-600 hover:bg-slate-100'}`}
+          title={showMinimap ? 'Hide Minimap' : 'Show Minimap'}
+        >
+          <MapIcon size={20} />
+        </button>
+        <div className="h-px bg-slate-200 my-1" />
+        <div className="relative">
+          <button
+            onClick={() => setShowCollapseMenu(!showCollapseMenu)}
+            disabled={maxDepth === 0}
+            className={`p-2 rounded-lg text-slate-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent ${showCollapseMenu ? 'bg-slate-100' : 'hover:bg-slate-100'}`}
+            title="Collapse to Depth"
+          >
+            <ChevronsDownUp size={20} />
+          </button>
+          {showCollapseMenu && (
+            <div className="absolute right-full mr-3 bottom-0 w-40 bg-white p-2 rounded-xl shadow-xl border border-slate-200 animate-in fade-in zoom-in duration-100">
+              <div className="px-2 pb-1 text-[10px] font-bold text-slate-400 uppercase tracking-wider">Show Levels</div>
+              {Array.from({ length: Math.min(maxDepth, 8) }, (_, i) => i + 1).map(levels => (
+                <button
+                  key={levels}
+                  onClick={() => { collapseToDepth(levels); setShowCollapseMenu(false); }}
+                  className="w-full text-left px-2 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50 hover:text-blue-600 rounded-lg"
+                >
+                  {levels === 1 ? 'Top level only' : `${levels} levels`}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <button
+          onClick={() => { expandAll(); setShowCollapseMenu(false); }}
+          disabled={collapsedIds.size === 0}
+          className="p-2 hover:bg-slate-100 rounded-lg text-slate-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+          title="Expand All"
+        >
+          <ChevronsUpDown size={20} />
+        </button>
       </div>
 
+      {chartRelationships.length > 0 && (
+        <div className="absolute bottom-8 right-28 z-40">
+          <RelationshipLegend relationships={chartRelationships} />
+        </div>
+      )}
+
+      {showMinimap && chartPeople.length > 0 && (
+        <Minimap
+          people={chartPeople}
+          departmentColors={departmentColors}
+          tierBands={tierBands}
+          scale={scale}
+          position={position}
+          canvasRef={canvasRef}
+          onNavigate={setPosition}
+        />
+      )}
+
+      {selectedPeople.length > 0 && onUpdatePeople && (
+        <SelectionToolbar
+          selectedPeople={selectedPeople}
+          people={people}
+          departments={allDeptNames}
+          locations={allLocations}
+          teams={teamNames}
+          onUpdate={handleBulkUpdate}
+          onChangeManager={handleBulkChangeManager}
+          onDelete={() => setPendingDeleteIds(selectedPeople.map(p => p.id))}
+          onClear={() => setSelectedIds(new Set())}
+        />
+      )}
+
+      {pendingDeleteIds && (
+        <DeletePeopleDialog
+          ids={pendingDeleteIds}
+          people={people}
+          onCancel={() => setPendingDeleteIds(null)}
+          onConfirm={handleConfirmDelete}
+        />
+      )}
+
       {/* Canvas Area */}
       <div 
         ref={canvasRef}
@@ -1567,7 +2331,19 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
         onMouseLeave={handleMouseUp}
+        onClickCapture={handleCanvasClickCapture}
       >
+        {selectionBox && (
+          <div
+            className="absolute z-30 border border-blue-500 bg-blue-500/10 rounded-sm pointer-events-none"
+            style={{
+              left: Math.min(selectionBox.x0, selectionBox.x1),
+              top: Math.min(selectionBox.y0, selectionBox.y1),
+              width: Math.abs(selectionBox.x1 - selectionBox.x0),
+              height: Math.abs(selectionBox.y1 - selectionBox.y0),
+            }}
+          />
+        )}
         <div 
           className={`origin-top-left ${isZooming ? 'transition-transform duration-300 ease-out' : ''}`}
           style={{ 
@@ -1581,6 +2357,7 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
             {tierBands.length > 0 && tierBands.map((band, i) => (
               <div
                 key={`tier-band-${band.tier}`}
+                data-tier-band={band.tier}
                 style={{
                   position: 'absolute',
                   top: band.top,
@@ -1622,7 +2399,7 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
             {/* We achieve this by keeping backgrounds inside content but with negative z-index */}
             
             {/* Lines Layer - position absolute, z-index 2 */}
-            <Lines people={people} deptHeads={deptHeads} scale={scale} settings={lineSettings} />
+            <Lines people={visiblePeople} deptHeads={deptHeads} scale={scale} settings={lineSettings} relationships={chartRelationships} />
 
             {/* Content - no z-index to avoid creating stacking context */}
             <div className="flex flex-col items-center gap-8 relative">
@@ -1631,8 +2408,9 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
               {rootPeople.length > 0 ? (
                 <div className="flex flex-col items-center gap-4 shrink-0">
                   {/* Executive Department Badge */}
-                  <div className={`px-6 py-2 rounded-full text-xs font-bold uppercase tracking-widest shadow-lg border-2 border-white ${getDeptBadgeClasses('Executive')}`}>
+                  <div className={`px-6 py-2 rounded-full text-xs font-bold uppercase tracking-widest shadow-lg border-2 border-white text-center ${getDeptBadgeClasses('Executive')}`}>
                     Executive
+                    {budgetRollups && <BudgetLine withCost={!!cardSettings?.showBudget} totals={sumTotals(rootPeople.map(p => budgetRollups.get(p.id)!))} />}
                   </div>
                   <div className="flex justify-center gap-16 shrink-0">
                   {rootPeople.map(person => (
@@ -1645,12 +2423,27 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
                         onDragEnd={onCardDragEnd}
                         onDrop={onCardDrop}
                         isDragging={draggedPersonId === person.id}
-                        secondaryManager={getSecondaryManager(person)}
+                        secondaryManagers={getSecondaryManagers(person)}
                         supportedPeople={people.filter(p => person.supportedIds?.includes(p.id))}
                         onEdit={() => handleEditClick(person)}
                         onDelete={() => handleDeleteClick(person.id)}
+                        onExportBranch={() => onExportBranch?.(person.id)}
+                        onFocusPerson={() => handleFocusPerson(person.id)}
+                        highlight={getCardHighlight(person.id, searchMatchIds, activeSearchId, filterContextIds)}
+                        isSelected={selectedIds?.has(person.id)}
+                        customFields={cardCustomFields}
+                        budget={budgetRollups?.get(person.id)}
+                        changeMarks={changeMarks?.get(person.id)}
                         cardSettings={cardSettings}
                       />
+                      {(descendantCounts.get(person.id) || 0) > 0 && (
+                        <CollapseToggle
+                          isCollapsed={collapsedIds.has(person.id)}
+                          hiddenCount={descendantCounts.get(person.id) || 0}
+                          onToggle={() => handleToggleCollapse(person.id)}
+                          hoverClass="group-hover/root:opacity-100"
+                        />
+                      )}
                       {/* Reorder Arrows for root-level cards */}
                       {onReorderPerson && rootPeople.length > 1 && (
                         <>
@@ -1674,6 +2467,10 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
                   ))}
                   </div>
                 </div>
+              ) : filterResult ? (
+                <div className="text-slate-500 font-bold p-10 bg-white rounded shadow">
+                  No people match the current filters.
+                </div>
               ) : (
                 <div className="text-red-500 font-bold p-10 bg-white rounded shadow">
                   No root node found.
@@ -1699,6 +2496,7 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
                             className={`px-8 py-3 rounded-full text-sm font-bold uppercase tracking-widest shadow-xl border-4 border-white cursor-pointer hover:scale-105 transition-transform whitespace-nowrap ${getDeptBadgeClasses(deptName)}`}
                           >
                             {deptName}
+                            {budgetRollups && <BudgetLine withCost={!!cardSettings?.showBudget} totals={sumTotals(heads.map(h => budgetRollups.get(h.id)!))} />}
                           </button>
                           
                           {/* Color Picker Popup */}
@@ -1750,16 +2548,28 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
                               <HierarchyTree 
                                 key={head.id}
                                 root={head}
-                                people={people}
+                                people={chartPeople}
                                 onPersonClick={handleEditClick}
                                 onDragStart={onCardDragStart}
                                 onDragEnd={onCardDragEnd}
                                 onDrop={onCardDrop}
                                 draggedId={draggedPersonId}
-                                getSecondaryManager={getSecondaryManager}
+                                getSecondaryManagers={getSecondaryManagers}
                                 onEdit={() => handleEditClick(head)}
                                 onDelete={() => handleDeleteClick(head.id)}
                                 onDeletePerson={handleDeleteClick}
+                                onExportBranch={onExportBranch}
+                                onFocusPerson={handleFocusPerson}
+                                collapsedIds={collapsedIds}
+                                descendantCounts={descendantCounts}
+                                onToggleCollapse={handleToggleCollapse}
+                                searchMatchIds={searchMatchIds}
+                                activeSearchId={activeSearchId}
+                                filterContextIds={filterContextIds}
+                                selectedIds={selectedIds}
+                                changeMarks={changeMarks}
+                                cardCustomFields={cardCustomFields}
+                                budgetRollups={budgetRollups}
                                 departmentColors={departmentColors}
                                 locationColors={locationColors}
                                 onAddDirectReport={handleAddDirectReport}
@@ -1784,6 +2594,13 @@ export const OrgChart: React.FC<OrgChartProps> = ({ people, lineSettings, onUpda
 };
 
 // --- DEPARTMENT BADGE HELPER (standalone for use in sub-components) ---
+// Heads / FTE (and cost) summary under a department badge or team label
+const BudgetLine: React.FC<{ totals: BudgetTotals; withCost: boolean }> = ({ totals, withCost }) => (
+  <span className="block mt-0.5 text-[10px] font-semibold normal-case tracking-normal opacity-75 whitespace-nowrap">
+    {formatTotals(totals, withCost)}
+  </span>
+);
+
 const getDeptBadgeClassesStandalone = (deptName: string, departmentColors: Record<string, string> = {}): string => {
   const color = departmentColors[deptName];
   const defaultStyle = 'bg-slate-700 text-white';
@@ -1805,6 +2622,36 @@ const getDeptBadgeClassesStandalone = (deptName: string, departmentColors: Recor
   return defaultStyle;
 };
 
+// --- CARD HIGHLIGHT HELPER ---
+// Search matches are ringed, everything else dims while a search runs.
+// Managers kept only as filter context are always faded.
+const getCardHighlight = (id: string, matchIds?: Set<string> | null, activeId?: string | null, contextIds?: Set<string>): CardHighlight | undefined => {
+  if (activeId === id) return 'active';
+  if (matchIds) return matchIds.has(id) ? 'match' : 'dimmed';
+  if (contextIds?.has(id)) return 'dimmed';
+  return undefined;
+};
+
+// --- COLLAPSE TOGGLE (sits on the bottom edge of a manager's card) ---
+const CollapseToggle: React.FC<{
+  isCollapsed: boolean;
+  hiddenCount: number;
+  onToggle: () => void;
+  hoverClass: string; // group-hover class of the wrapping card-node
+}> = ({ isCollapsed, hiddenCount, onToggle, hoverClass }) => (
+  <button
+    onClick={(e) => { e.stopPropagation(); onToggle(); }}
+    className={`absolute -bottom-3 right-4 h-6 px-2 rounded-full flex items-center gap-1 text-[10px] font-bold shadow-md border transition-all z-50 ${
+      isCollapsed
+        ? 'bg-slate-700 text-white border-slate-700 hover:bg-slate-800'
+        : `bg-white text-slate-500 border-slate-200 hover:text-slate-700 opacity-0 ${hoverClass}`
+    }`}
+    title={isCollapsed ? `Expand (${hiddenCount} hidden)` : 'Collapse branch'}
+  >
+    {isCollapsed ? <>+{hiddenCount}<ChevronDown size={12} /></> : <ChevronUp size={12} />}
+  </button>
+);
+
 // --- RECURSIVE HIERARCHY TREE ---
 interface TreeProps {
   root: Person;
@@ -1814,10 +2661,20 @@ interface TreeProps {
   onDragEnd?: () => void;
   onDrop: (e: React.DragEvent, targetId: string) => void;
   draggedId: string | null;
-  getSecondaryManager: (p: Person) => Person | undefined;
+  getSecondaryManagers: (p: Person) => DottedLineManager[] | undefined;
   onEdit: () => void;
   onDelete: () => void;
   onDeletePerson?: (id: string) => void;
+  onExportBranch?: (id: string) => void;
+  onFocusPerson?: (id: string) => void;
+  collapsedIds?: Set<string>;
+  descendantCounts?: Map<string, number>;
+  onToggleCollapse?: (id: string) => void;
+  searchMatchIds?: Set<string> | null;
+  activeSearchId?: string | null;
+  filterContextIds?: Set<string>;
+  selectedIds?: Set<string>;
+  changeMarks?: Map<string, ScenarioChangeKind[]>;
   isInsideParentTeam?: boolean; // Skip creating team wrapper if already inside parent's team
   departmentColors?: Record<string, string>;
   locationColors?: Record<string, string>;
@@ -1825,16 +2682,21 @@ interface TreeProps {
   onReorderPerson?: (personId: string, direction: 'left' | 'right') => void;
   onSetDepartmentColor?: (dept: string, color: string) => void;
   cardSettings?: CardSettings;
+  cardCustomFields?: CustomFieldDefinition[];
+  budgetRollups?: Map<string, BudgetTotals>; // Set when budget roll-ups are shown
   level?: number;
 }
 
-const HierarchyTree: React.FC<TreeProps> = ({ root, people, onPersonClick, onDragStart, onDragEnd, onDrop, draggedId, getSecondaryManager, onEdit, onDelete, onDeletePerson, isInsideParentTeam = false, departmentColors = {}, locationColors = {}, onAddDirectReport, onReorderPerson, onSetDepartmentColor, cardSettings, level = 0 }) => {
+const HierarchyTree: React.FC<TreeProps> = ({ root, people, onPersonClick, onDragStart, onDragEnd, onDrop, draggedId, getSecondaryManagers, onEdit, onDelete, onDeletePerson, onExportBranch, onFocusPerson, collapsedIds, descendantCounts, onToggleCollapse, searchMatchIds, activeSearchId, filterContextIds, selectedIds, changeMarks, isInsideParentTeam = false, departmentColors = {}, locationColors = {}, onAddDirectReport, onReorderPerson, onSetDepartmentColor, cardSettings, cardCustomFields, budgetRollups, level = 0 }) => {
   const [subColorPickerDept, setSubColorPickerDept] = useState<string | null>(null);
   
   // Find direct reports
+  const isCollapsed = !!collapsedIds?.has(root.id);
   const directReports = useMemo(() => {
+    if (isCollapsed) return [];
     return people.filter(p => p.managerId === root.id).sort(sortBySortOrder);
-  }, [people, root.id]);
+  }, [people, root.id, isCollapsed]);
+  const hiddenCount = descendantCounts?.get(root.id) || 0;
 
   // Group by Team and Others (Flattened Location)
   const { teams, others } = useMemo(() => {
@@ -1902,8 +2764,20 @@ const HierarchyTree: React.FC<TreeProps> = ({ root, people, onPersonClick, onDra
           onDrop={onDrop}
           onDragEnd={onDragEnd}
           draggedId={draggedId}
-          getSecondaryManager={getSecondaryManager}
+          getSecondaryManagers={getSecondaryManagers}
           onDeletePerson={onDeletePerson}
+          onExportBranch={onExportBranch}
+          onFocusPerson={onFocusPerson}
+          collapsedIds={collapsedIds}
+          descendantCounts={descendantCounts}
+          onToggleCollapse={onToggleCollapse}
+          searchMatchIds={searchMatchIds}
+          activeSearchId={activeSearchId}
+          filterContextIds={filterContextIds}
+          selectedIds={selectedIds}
+          changeMarks={changeMarks}
+          cardCustomFields={cardCustomFields}
+          budgetRollups={budgetRollups}
           includeRootAsHead={true}
           rootPerson={root}
           onRootEdit={onEdit}
@@ -1933,10 +2807,17 @@ const HierarchyTree: React.FC<TreeProps> = ({ root, people, onPersonClick, onDra
           onDragEnd={onDragEnd}
           onDrop={onDrop}
           isDragging={draggedId === root.id}
-          secondaryManager={getSecondaryManager(root)}
+          secondaryManagers={getSecondaryManagers(root)}
           supportedPeople={people.filter(p => root.supportedIds?.includes(p.id))}
           onEdit={onEdit}
           onDelete={onDelete}
+          onExportBranch={() => onExportBranch?.(root.id)}
+          onFocusPerson={() => onFocusPerson?.(root.id)}
+          highlight={getCardHighlight(root.id, searchMatchIds, activeSearchId, filterContextIds)}
+          isSelected={selectedIds?.has(root.id)}
+          customFields={cardCustomFields}
+          budget={budgetRollups?.get(root.id)}
+          changeMarks={changeMarks?.get(root.id)}
           deptColorOverride={departmentColors[root.department]}
           locationColorOverride={locationColors[root.location || '']}
           cardSettings={cardSettings}
@@ -1952,6 +2833,15 @@ const HierarchyTree: React.FC<TreeProps> = ({ root, people, onPersonClick, onDra
         >
             <Plus size={14} />
         </button>
+        {/* Collapse / Expand */}
+        {hiddenCount > 0 && onToggleCollapse && (
+          <CollapseToggle
+            isCollapsed={isCollapsed}
+            hiddenCount={hiddenCount}
+            onToggle={() => onToggleCollapse(root.id)}
+            hoverClass="group-hover/add:opacity-100"
+          />
+        )}
         {/* Reorder Arrows */}
         {onReorderPerson && (
           <>
@@ -1992,6 +2882,9 @@ const HierarchyTree: React.FC<TreeProps> = ({ root, people, onPersonClick, onDra
                     className={`px-8 py-3 rounded-full text-sm font-bold uppercase tracking-widest shadow-xl border-4 border-white whitespace-nowrap cursor-pointer hover:scale-105 transition-transform ${getDeptBadgeClassesStandalone(deptName, departmentColors)}`}
                   >
                     {deptName}
+                    {budgetRollups && (
+                      <BudgetLine withCost={!!cardSettings?.showBudget} totals={sumTotals([...nonTeamMembers, ...Object.values(teamMembers).flat()].map(p => budgetRollups.get(p.id)!))} />
+                    )}
                   </button>
                   {/* Color Picker Popup */}
                   {subColorPickerDept === deptName && (
@@ -2049,8 +2942,20 @@ const HierarchyTree: React.FC<TreeProps> = ({ root, people, onPersonClick, onDra
                           onDragEnd={onDragEnd}
                           onDrop={onDrop}
                           draggedId={draggedId}
-                          getSecondaryManager={getSecondaryManager}
+                          getSecondaryManagers={getSecondaryManagers}
                           onDeletePerson={onDeletePerson}
+                          onExportBranch={onExportBranch}
+                          onFocusPerson={onFocusPerson}
+                          collapsedIds={collapsedIds}
+                          descendantCounts={descendantCounts}
+                          onToggleCollapse={onToggleCollapse}
+                          searchMatchIds={searchMatchIds}
+                          activeSearchId={activeSearchId}
+                          filterContextIds={filterContextIds}
+                          selectedIds={selectedIds}
+                          changeMarks={changeMarks}
+                          cardCustomFields={cardCustomFields}
+                          budgetRollups={budgetRollups}
                           teamColor={teamColor}
                           departmentColors={departmentColors}
                           locationColors={locationColors}
@@ -2073,10 +2978,22 @@ const HierarchyTree: React.FC<TreeProps> = ({ root, people, onPersonClick, onDra
                         onDragEnd={onDragEnd}
                         onDrop={onDrop}
                         draggedId={draggedId}
-                        getSecondaryManager={getSecondaryManager}
+                        getSecondaryManagers={getSecondaryManagers}
                         onEdit={() => onPersonClick(member)}
                         onDelete={() => onDeletePerson?.(member.id)}
                         onDeletePerson={onDeletePerson}
+                        onExportBranch={onExportBranch}
+                        onFocusPerson={onFocusPerson}
+                        collapsedIds={collapsedIds}
+                        descendantCounts={descendantCounts}
+                        onToggleCollapse={onToggleCollapse}
+                        searchMatchIds={searchMatchIds}
+                        activeSearchId={activeSearchId}
+                        filterContextIds={filterContextIds}
+                        selectedIds={selectedIds}
+                        changeMarks={changeMarks}
+                        cardCustomFields={cardCustomFields}
+                        budgetRollups={budgetRollups}
                         departmentColors={departmentColors}
                         locationColors={locationColors}
                         onAddDirectReport={onAddDirectReport}
@@ -2107,8 +3024,20 @@ const HierarchyTree: React.FC<TreeProps> = ({ root, people, onPersonClick, onDra
                     onDragEnd={onDragEnd}
                     onDrop={onDrop}
                     draggedId={draggedId}
-                    getSecondaryManager={getSecondaryManager}
+                    getSecondaryManagers={getSecondaryManagers}
                     onDeletePerson={onDeletePerson}
+                    onExportBranch={onExportBranch}
+                    onFocusPerson={onFocusPerson}
+                    collapsedIds={collapsedIds}
+                    descendantCounts={descendantCounts}
+                    onToggleCollapse={onToggleCollapse}
+                    searchMatchIds={searchMatchIds}
+                    activeSearchId={activeSearchId}
+                    filterContextIds={filterContextIds}
+                    selectedIds={selectedIds}
+                    changeMarks={changeMarks}
+                    cardCustomFields={cardCustomFields}
+                    budgetRollups={budgetRollups}
                     teamColor={teamColor}
                     departmentColors={departmentColors}
                     locationColors={locationColors}
@@ -2132,10 +3061,22 @@ const HierarchyTree: React.FC<TreeProps> = ({ root, people, onPersonClick, onDra
                       onDragEnd={onDragEnd}
                       onDrop={onDrop}
                       draggedId={draggedId}
-                      getSecondaryManager={getSecondaryManager}
+                      getSecondaryManagers={getSecondaryManagers}
                       onEdit={() => onPersonClick(member)}
                       onDelete={() => onDeletePerson?.(member.id)}
                       onDeletePerson={onDeletePerson}
+                      onExportBranch={onExportBranch}
+                      onFocusPerson={onFocusPerson}
+                      collapsedIds={collapsedIds}
+                      descendantCounts={descendantCounts}
+                      onToggleCollapse={onToggleCollapse}
+                      searchMatchIds={searchMatchIds}
+                      activeSearchId={activeSearchId}
+                      filterContextIds={filterContextIds}
+                      selectedIds={selectedIds}
+                      changeMarks={changeMarks}
+                      cardCustomFields={cardCustomFields}
+                      budgetRollups={budgetRollups}
                       departmentColors={departmentColors}
                       locationColors={locationColors}
                       onAddDirectReport={onAddDirectReport}
@@ -2166,8 +3107,18 @@ const TeamGroup: React.FC<{
   onDragEnd?: () => void;
   onDrop: (e: React.DragEvent, targetId: string) => void;
   draggedId: string | null;
-  getSecondaryManager: (p: Person) => Person | undefined;
+  getSecondaryManagers: (p: Person) => DottedLineManager[] | undefined;
   onDeletePerson?: (id: string) => void;
+  onExportBranch?: (id: string) => void;
+  onFocusPerson?: (id: string) => void;
+  collapsedIds?: Set<string>;
+  descendantCounts?: Map<string, number>;
+  onToggleCollapse?: (id: string) => void;
+  searchMatchIds?: Set<string> | null;
+  activeSearchId?: string | null;
+  filterContextIds?: Set<string>;
+  selectedIds?: Set<string>;
+  changeMarks?: Map<string, ScenarioChangeKind[]>;
   includeRootAsHead?: boolean;
   rootPerson?: Person;
   onRootEdit?: () => void;
@@ -2181,8 +3132,10 @@ const TeamGroup: React.FC<{
   onReorderPerson?: (personId: string, direction: 'left' | 'right') => void;
   onSetDepartmentColor?: (dept: string, color: string) => void;
   cardSettings?: CardSettings;
+  cardCustomFields?: CustomFieldDefinition[];
+  budgetRollups?: Map<string, BudgetTotals>; // Set when budget roll-ups are shown
   level?: number;
-}> = ({ teamName, members, people, onPersonClick, onDragStart, onDragEnd, onDrop, draggedId, getSecondaryManager, onDeletePerson, includeRootAsHead, rootPerson, onRootEdit, onRootDelete, teamColor, otherTeams, others, departmentColors = {}, locationColors = {}, onAddDirectReport, onReorderPerson, onSetDepartmentColor, cardSettings, level = 0 }) => {
+}> = ({ teamName, members, people, onPersonClick, onDragStart, onDragEnd, onDrop, draggedId, getSecondaryManagers, onDeletePerson, onExportBranch, onFocusPerson, collapsedIds, descendantCounts, onToggleCollapse, searchMatchIds, activeSearchId, filterContextIds, selectedIds, changeMarks, includeRootAsHead, rootPerson, onRootEdit, onRootDelete, teamColor, otherTeams, others, departmentColors = {}, locationColors = {}, onAddDirectReport, onReorderPerson, onSetDepartmentColor, cardSettings, cardCustomFields, budgetRollups, level = 0 }) => {
   
   // Sort: by sortOrder first, then Team Leader, then name (handled by sortBySortOrder)
   const sortedMembers = useMemo(() => {
@@ -2220,6 +3173,9 @@ const TeamGroup: React.FC<{
             style={{ zIndex: 10, position: 'relative', marginTop: '-12px', marginBottom: '8px' }}
         >
             {teamName}
+            {budgetRollups && (
+              <BudgetLine withCost={!!cardSettings?.showBudget} totals={sumTotals(Array.from(new Set([...(includeRootAsHead && rootPerson ? [rootPerson] : []), ...members])).map(p => budgetRollups.get(p.id)!))} />
+            )}
         </div>
         {/* Content container - z-index above lines */}
         <div className="p-4 pt-0 relative flex flex-col gap-8 items-center" style={{ zIndex: 10 }}>
@@ -2235,14 +3191,30 @@ const TeamGroup: React.FC<{
                   onDragEnd={onDragEnd}
                   onDrop={onDrop}
                   isDragging={draggedId === rootPerson.id}
-                  secondaryManager={getSecondaryManager(rootPerson)}
+                  secondaryManagers={getSecondaryManagers(rootPerson)}
                   supportedPeople={people.filter(p => rootPerson.supportedIds?.includes(p.id))}
                   onEdit={onRootEdit}
                   onDelete={onRootDelete}
+                  onExportBranch={() => onExportBranch?.(rootPerson.id)}
+                  onFocusPerson={() => onFocusPerson?.(rootPerson.id)}
+                  highlight={getCardHighlight(rootPerson.id, searchMatchIds, activeSearchId, filterContextIds)}
+                  isSelected={selectedIds?.has(rootPerson.id)}
+                  customFields={cardCustomFields}
+                  budget={budgetRollups?.get(rootPerson.id)}
+                  changeMarks={changeMarks?.get(rootPerson.id)}
                   deptColorOverride={departmentColors[rootPerson.department]}
                   locationColorOverride={locationColors[rootPerson.location || '']}
                   cardSettings={cardSettings}
                 />
+                {/* Collapse / Expand */}
+                {onToggleCollapse && (descendantCounts?.get(rootPerson.id) || 0) > 0 && (
+                  <CollapseToggle
+                    isCollapsed={!!collapsedIds?.has(rootPerson.id)}
+                    hiddenCount={descendantCounts?.get(rootPerson.id) || 0}
+                    onToggle={() => onToggleCollapse(rootPerson.id)}
+                    hoverClass="group-hover/add:opacity-100"
+                  />
+                )}
                 {/* Add Button */}
                 <button
                     onClick={(e) => {
@@ -2268,10 +3240,22 @@ const TeamGroup: React.FC<{
                         onDragEnd={onDragEnd}
                         onDrop={onDrop}
                         draggedId={draggedId}
-                        getSecondaryManager={getSecondaryManager}
+                        getSecondaryManagers={getSecondaryManagers}
                         onEdit={() => onPersonClick(member)}
                         onDelete={() => onDeletePerson?.(member.id)}
                         onDeletePerson={onDeletePerson}
+                        onExportBranch={onExportBranch}
+                        onFocusPerson={onFocusPerson}
+                        collapsedIds={collapsedIds}
+                        descendantCounts={descendantCounts}
+                        onToggleCollapse={onToggleCollapse}
+                        searchMatchIds={searchMatchIds}
+                        activeSearchId={activeSearchId}
+                        filterContextIds={filterContextIds}
+                        selectedIds={selectedIds}
+                        changeMarks={changeMarks}
+                        cardCustomFields={cardCustomFields}
+                        budgetRollups={budgetRollups}
                         isInsideParentTeam={true}
                         departmentColors={departmentColors}
                         locationColors={locationColors}
@@ -2300,8 +3284,20 @@ const TeamGroup: React.FC<{
                       onDragEnd={onDragEnd}
                       onDrop={onDrop}
                       draggedId={draggedId}
-                      getSecondaryManager={getSecondaryManager}
+                      getSecondaryManagers={getSecondaryManagers}
                       onDeletePerson={onDeletePerson}
+                      onExportBranch={onExportBranch}
+                      onFocusPerson={onFocusPerson}
+                      collapsedIds={collapsedIds}
+                      descendantCounts={descendantCounts}
+                      onToggleCollapse={onToggleCollapse}
+                      searchMatchIds={searchMatchIds}
+                      activeSearchId={activeSearchId}
+                      filterContextIds={filterContextIds}
+                      selectedIds={selectedIds}
+                      changeMarks={changeMarks}
+                      cardCustomFields={cardCustomFields}
+                      budgetRollups={budgetRollups}
                       teamColor={otherColor}
                       departmentColors={departmentColors}
                       locationColors={locationColors}
@@ -2329,10 +3325,22 @@ const TeamGroup: React.FC<{
                     onDragEnd={onDragEnd}
                     onDrop={onDrop}
                     draggedId={draggedId}
-                    getSecondaryManager={getSecondaryManager}
+                    getSecondaryManagers={getSecondaryManagers}
                     onEdit={() => onPersonClick(member)}
                     onDelete={() => onDeletePerson?.(member.id)}
                     onDeletePerson={onDeletePerson}
+                    onExportBranch={onExportBranch}
+                    onFocusPerson={onFocusPerson}
+                    collapsedIds={collapsedIds}
+                    descendantCounts={descendantCounts}
+                    onToggleCollapse={onToggleCollapse}
+                    searchMatchIds={searchMatchIds}
+                    activeSearchId={activeSearchId}
+                    filterContextIds={filterContextIds}
+                    selectedIds={selectedIds}
+                    changeMarks={changeMarks}
+                    cardCustomFields={cardCustomFields}
+                    budgetRollups={budgetRollups}
                     departmentColors={departmentColors}
                     locationColors={locationColors}
                     onAddDirectReport={onAddDirectReport}
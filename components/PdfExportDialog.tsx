@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { PdfExportOptions, PdfPageSize, PdfOrientation, DEFAULT_PDF_OPTIONS } from '../utils/pdfExport';
+import { X, FileText, Printer, Loader2 } from 'lucide-react';
+
+interface PdfExportDialogProps {
+  isExporting: boolean;
+  onCancel: () => void;
+  onExport: (options: PdfExportOptions) => void;
+}
+
+const PAGE_SIZE_LABELS: Record<PdfPageSize, string> = {
+  a4: 'A4',
+  a3: 'A3',
+  letter: 'US Letter',
+};
+
+export const PdfExportDialog: React.FC<PdfExportDialogProps> = ({ isExporting, onCancel, onExport }) => {
+  const [options, setOptions] = useState<PdfExportOptions>(DEFAULT_PDF_OPTIONS);
+
+  const update = <K extends keyof PdfExportOptions>(key: K, value: PdfExportOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onCancel}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200 flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-5 border-b border-slate-100 flex justify-between items-center bg-gradient-to-r from-blue-50 to-white">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center">
+              <FileText size={20} />
+            </div>
+            <div>
+              <h3 className="font-bold text-slate-800">Print PDF</h3>
+              <p className="text-xs text-slate-500">Tile the chart across pages for printing</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div className="space-y-1">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Title</label>
+            <input
+              type="text"
+              value={options.title}
+              onChange={e => update('title', e.target.value)}
+              className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Paper Size</label>
+            <div className="flex gap-2">
+              {(Object.keys(PAGE_SIZE_LABELS) as PdfPageSize[]).map(size => (
+                <button
+                  key={size}
+                  onClick={() => update('pageSize', size)}
+                  className={`flex-1 px-3 py-2 rounded-lg text-xs font-bold border transition-colors ${
+                    options.pageSize === size ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  {PAGE_SIZE_LABELS[size]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Orientation</label>
+            <div className="flex gap-2">
+              {(['portrait', 'landscape'] as PdfOrientation[]).map(orientation => (
+                <button
+                  key={orientation}
+                  onClick={() => update('orientation', orientation)}
+                  className={`flex-1 px-3 py-2 rounded-lg text-xs font-bold border capitalize transition-colors ${
+                    options.orientation === orientation ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  {orientation}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Pages Across</label>
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={options.pagesAcross}
+                onChange={e => update('pagesAcross', Math.min(10, Math.max(1, parseInt(e.target.value) || 1)))}
+                className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Overlap (mm)</label>
+              <input
+                type="number"
+                min={0}
+                max={30}
+                value={options.overlapMm}
+                onChange={e => update('overlapMm', Math.min(30, Math.max(0, parseInt(e.target.value) || 0)))}
+                className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+          </div>
+          <p className="text-[10px] text-slate-400">
+            Rows are added automatically to fit the chart height. Overlapping strips are marked with dashed guides.
+          </p>
+
+          <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer p-3 bg-slate-50 rounded-lg border border-slate-100">
+            <input
+              type="checkbox"
+              checked={options.includeCover}
+              onChange={e => update('includeCover', e.target.checked)}
+              className="rounded text-blue-600 focus:ring-blue-500"
+            />
+            Include cover page with department index
+          </label>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-5 py-2.5 text-slate-600 hover:bg-slate-200 rounded-lg text-sm font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onExport(options)}
+            disabled={isExporting}
+            className="px-5 py-2.5 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-sm font-semibold shadow-sm transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isExporting ? <Loader2 size={16} className="animate-spin" /> : <Printer size={16} />}
+            {isExporting ? 'Generating…' : 'Export PDF'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,474 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Person, CustomFieldDefinition } from '../types';
+import { GridColumn, GridColumnKey, applyCellText, applyPastedBlock, compareCells, getCellText, getGridColumns } from '../utils/peopleGrid';
+import { getDescendantIds } from '../utils/hierarchy';
+import { searchPeople } from '../utils/search';
+import { parseDelimited } from '../utils/csv';
+import { ArrowUp, ArrowDown, ArrowUpDown, Check, X, AlertTriangle } from 'lucide-react';
+
+interface PeopleGridProps {
+  people: Person[];
+  departments: string[];
+  locations: string[];
+  jobTitles: string[];
+  customFields: CustomFieldDefinition[];
+  onUpdatePeople: (updated: Person[]) => void; // One undo step per call
+}
+
+type SortState = { key: GridColumnKey; direction: 1 | -1 } | null;
+
+// Active cell is tracked by person id so it follows the row when sorting moves it
+type ActiveCell = { id: string; col: number };
+
+const MAX_MANAGER_RESULTS = 8;
+
+// Searchable manager picker; excludes the person and their reports to prevent cycles
+const ManagerPicker: React.FC<{
+  person: Person;
+  people: Person[];
+  initialQuery: string;
+  onSelect: (managerId: string | null) => void;
+  onCancel: () => void;
+  onDismiss: () => void; // Focus moved elsewhere
+}> = ({ person, people, initialQuery, onSelect, onCancel, onDismiss }) => {
+  const [query, setQuery] = useState(initialQuery);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const candidates = useMemo(() => {
+    const excluded = new Set([person.id, ...getDescendantIds(person.id, people)]);
+    return people.filter(p => !excluded.has(p.id));
+  }, [person.id, people]);
+
+  // Index 0 is always "No manager"
+  const options = useMemo(() => {
+    const matches = query.trim()
+      ? searchPeople(candidates, query, MAX_MANAGER_RESULTS).map(r => r.person)
+      : [...candidates].sort((a, b) => a.name.localeCompare(b.name)).slice(0, MAX_MANAGER_RESULTS);
+    return [null, ...matches];
+  }, [candidates, query]);
+
+  useEffect(() => { setActiveIndex(query.trim() && options.length > 1 ? 1 : 0); }, [query, options.length]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, options.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      onSelect(options[activeIndex]?.id ?? null);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="absolute left-0 top-0 z-20 w-72">
+      <input
+        autoFocus
+        type="text"
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={onDismiss}
+        placeholder="Search managers…"
+        className="w-full px-2 py-1.5 text-xs border border-blue-400 rounded-md shadow-lg outline-none ring-2 ring-blue-500 bg-white"
+      />
+      <div className="mt-1 bg-white rounded-lg shadow-xl border border-slate-100 py-1 max-h-64 overflow-y-auto custom-scrollbar">
+        {options.map((option, i) => (
+          <button
+            key={option?.id ?? 'none'}
+            onMouseDown={e => { e.preventDefault(); onSelect(option?.id ?? null); }}
+            onMouseEnter={() => setActiveIndex(i)}
+            className={`w-full text-left px-3 py-1.5 flex flex-col ${i === activeIndex ? 'bg-blue-50' : ''}`}
+          >
+            {option ? (
+              <>
+                <span className="text-xs font-semibold text-slate-800 truncate">{option.name}</span>
+                <span className="text-[10px] text-slate-500 truncate">{option.title}{option.department && ` · ${option.department}`}</span>
+              </>
+            ) : (
+              <span className="text-xs italic text-slate-500">No manager (top level)</span>
+            )}
+          </button>
+        ))}
+        {options.length === 1 && query.trim() && (
+          <div className="px-3 py-1.5 text-[11px] text-slate-400">No people match “{query}”</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const PeopleGrid: React.FC<PeopleGridProps> = ({ people, departments, locations, jobTitles, customFields, onUpdatePeople }) => {
+  const [sort, setSort] = useState<SortState>(null);
+  const [columnFilters, setColumnFilters] = useState<Partial<Record<GridColumnKey, string>>>({});
+  const [active, setActive] = useState<ActiveCell | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [status, setStatus] = useState<{ kind: 'error' | 'info'; messages: string[] } | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  // Guards against committing twice (Enter followed by the input's blur)
+  const editingRef = useRef(false);
+
+  const peopleById = useMemo(() => new Map(people.map(p => [p.id, p])), [people]);
+  const columns = useMemo(() => getGridColumns(customFields), [customFields]);
+  const context = { people, departments, locations, jobTitles };
+
+  const visibleRows = useMemo(() => {
+    // Filters of removed custom fields are ignored
+    const filters = (Object.entries(columnFilters) as Array<[GridColumnKey, string]>)
+      .filter(([, value]) => value)
+      .flatMap(([key, value]) => {
+        const column = columns.find(c => c.key === key);
+        return column ? [{ column, value }] : [];
+      });
+    let rows = people.filter(person => filters.every(({ column, value }) => {
+      const text = getCellText(person, column, peopleById);
+      if (column.editor === 'boolean') return value === 'yes' ? !!text : !text;
+      return text.toLowerCase().includes(value.toLowerCase());
+    }));
+    const sortColumn = sort ? columns.find(c => c.key === sort.key) : undefined;
+    if (sort && sortColumn) {
+      rows = [...rows].sort((a, b) =>
+        compareCells(getCellText(a, sortColumn, peopleById), getCellText(b, sortColumn, peopleById), sortColumn, sort.direction)
+      );
+    }
+    return rows;
+  }, [people, peopleById, columns, columnFilters, sort]);
+
+  const activeRow = active ? visibleRows.findIndex(p => p.id === active.id) : -1;
+  const activePerson = activeRow >= 0 ? visibleRows[activeRow] : null;
+  const activeColumn = active ? columns[active.col] ?? null : null;
+
+  // Keep the active cell in view while navigating with the keyboard
+  useEffect(() => {
+    if (activeRow < 0 || !active) return;
+    gridRef.current
+      ?.querySelector(`[data-cell="${activeRow}-${active.col}"]`)
+      ?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [activeRow, active]);
+
+  const moveTo = (row: number, col: number) => {
+    if (visibleRows.length === 0) return;
+    const r = Math.max(0, Math.min(row, visibleRows.length - 1));
+    const c = Math.max(0, Math.min(col, columns.length - 1));
+    setActive({ id: visibleRows[r].id, col: c });
+  };
+
+  const commitCell = (person: Person, column: GridColumn, text: string) => {
+    const result = applyCellText(person, column, text, context);
+    if ('error' in result) {
+      setStatus({ kind: 'error', messages: [result.error] });
+      return;
+    }
+    if (result.person !== person) onUpdatePeople([result.person]);
+    setStatus(null);
+  };
+
+  const stopEditing = (refocus = true) => {
+    editingRef.current = false;
+    setEditing(false);
+    if (refocus) gridRef.current?.focus();
+  };
+
+  const finishEdit = (text: string, move: { row: number; col: number } = { row: 0, col: 0 }, refocus = true) => {
+    if (!editingRef.current) return;
+    if (activePerson && activeColumn) commitCell(activePerson, activeColumn, text);
+    stopEditing(refocus);
+    if (move.row || move.col) moveTo(activeRow + move.row, active!.col + move.col);
+  };
+
+  const startEditing = (initial?: string) => {
+    if (!activePerson || !activeColumn) return;
+    if (activeColumn.editor === 'boolean') {
+      commitCell(activePerson, activeColumn, getCellText(activePerson, activeColumn, peopleById) ? '' : 'yes');
+      return;
+    }
+    setDraft(initial ?? getCellText(activePerson, activeColumn, peopleById));
+    editingRef.current = true;
+    setEditing(true);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (editing || !active || activeRow < 0) return;
+    const isTyping = e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey;
+
+    switch (e.key) {
+      case 'ArrowUp': e.preventDefault(); moveTo(activeRow - 1, active.col); return;
+      case 'ArrowDown': e.preventDefault(); moveTo(activeRow + 1, active.col); return;
+      case 'ArrowLeft': e.preventDefault(); moveTo(activeRow, active.col - 1); return;
+      case 'ArrowRight': e.preventDefault(); moveTo(activeRow, active.col + 1); return;
+      case 'Tab': e.preventDefault(); moveTo(activeRow, active.col + (e.shiftKey ? -1 : 1)); return;
+      case 'Enter':
+      case 'F2':
+        e.preventDefault();
+        startEditing();
+        return;
+      case 'Delete':
+      case 'Backspace':
+        e.preventDefault();
+        if (activePerson && activeColumn) commitCell(activePerson, activeColumn, '');
+        return;
+    }
+
+    if (isTyping) {
+      e.preventDefault();
+      const editor = activeColumn?.editor;
+      if (editor === 'boolean') {
+        if (e.key === ' ') startEditing();
+      } else if (editor === 'text' || editor === 'number' || editor === 'manager' || editor === 'people') {
+        startEditing(e.key);
+      } else {
+        startEditing();
+      }
+    }
+  };
+
+  // Paste a block copied from a spreadsheet, starting at the active cell
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (editing || !active || activeRow < 0) return;
+    const text = e.clipboardData.getData('text/plain');
+    if (!text) return;
+    e.preventDefault();
+
+    const block = parseDelimited(text, '\t');
+    const { updated, errors } = applyPastedBlock(block, visibleRows, columns, activeRow, active.col, context);
+    if (updated.length > 0) onUpdatePeople(updated);
+
+    const summary = `Pasted into ${updated.length} ${updated.length === 1 ? 'row' : 'rows'}`;
+    setStatus(errors.length > 0
+      ? { kind: 'error', messages: [`${summary}; ${errors.length} ${errors.length === 1 ? 'cell was' : 'cells were'} skipped:`, ...errors] }
+      : { kind: 'info', messages: [summary] });
+  };
+
+  const handleCopy = (e: React.ClipboardEvent) => {
+    if (editing || !activePerson || !activeColumn) return;
+    e.preventDefault();
+    e.clipboardData.setData('text/plain', getCellText(activePerson, activeColumn, peopleById));
+  };
+
+  const toggleSort = (key: GridColumnKey) => {
+    setSort(prev => {
+      if (!prev || prev.key !== key) return { key, direction: 1 };
+      if (prev.direction === 1) return { key, direction: -1 };
+      return null;
+    });
+  };
+
+  const hasColumnFilters = Object.values(columnFilters).some(Boolean);
+
+  const renderEditor = (person: Person, column: GridColumn) => {
+    const editorKeyDown = (e: React.KeyboardEvent<HTMLInputElement | HTMLSelectElement>) => {
+      e.stopPropagation();
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        finishEdit(e.currentTarget.value, { row: 1, col: 0 });
+      } else if (e.key === 'Tab') {
+        e.preventDefault();
+        finishEdit(e.currentTarget.value, { row: 0, col: e.shiftKey ? -1 : 1 });
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        stopEditing();
+      }
+    };
+
+    if (column.editor === 'manager') {
+      return (
+        <ManagerPicker
+          person={person}
+          people={people}
+          initialQuery={draft === getCellText(person, column, peopleById) ? '' : draft}
+          onSelect={id => finishEdit(id ?? '')}
+          onCancel={() => stopEditing()}
+          onDismiss={() => stopEditing(false)}
+        />
+      );
+    }
+
+    if (column.editor === 'department' || column.editor === 'location' || column.editor === 'title' || column.editor === 'choice') {
+      const list = column.editor === 'department' ? departments
+        : column.editor === 'location' ? locations
+        : column.editor === 'title' ? jobTitles
+        : column.options || [];
+      const current = getCellText(person, column, peopleById);
+      const options = current && !list.includes(current) ? [current, ...list] : list;
+      return (
+        <select
+          autoFocus
+          value={current}
+          onChange={e => finishEdit(e.target.value)}
+          onKeyDown={editorKeyDown}
+          onBlur={() => stopEditing(false)}
+          className="absolute inset-0 w-full h-full px-2 text-xs bg-white border-2 border-blue-500 outline-none"
+        >
+          {column.editor === 'title' && <option value="">(No title)</option>}
+          {column.editor === 'choice' && column.field && <option value="">(Not set)</option>}
+          {options.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+      );
+    }
+
+    return (
+      <input
+        autoFocus
+        type={column.editor === 'number' ? 'number' : column.editor === 'date' ? 'date' : 'text'}
+        min={column.editor === 'number' ? 0 : undefined}
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={editorKeyDown}
+        onBlur={e => finishEdit(e.target.value, undefined, false)}
+        className="absolute inset-0 w-full h-full px-2 text-xs bg-white border-2 border-blue-500 outline-none"
+      />
+    );
+  };
+
+  return (
+    <div className="h-full w-full pt-16 flex flex-col bg-slate-50">
+      {/* Toolbar */}
+      <div className="px-8 py-3 flex items-center gap-4 border-b border-slate-200 bg-white">
+        <span className="text-xs text-slate-500">
+          {hasColumnFilters
+            ? <><span className="font-bold text-slate-700">{visibleRows.length}</span> of {people.length} people</>
+            : `${people.length} people`}
+        </span>
+        {hasColumnFilters && (
+          <button
+            onClick={() => setColumnFilters({})}
+            className="text-xs font-semibold text-slate-500 hover:text-red-600"
+          >
+            Clear column filters
+          </button>
+        )}
+        <span className="ml-auto text-[11px] text-slate-400">
+          Double-click or start typing to edit · Enter to confirm · Ctrl+V pastes rows from a spreadsheet
+        </span>
+      </div>
+
+      {status && (
+        <div className={`px-8 py-2 flex items-start gap-2 border-b text-xs ${
+          status.kind === 'error' ? 'bg-red-50 border-red-100 text-red-700' : 'bg-blue-50 border-blue-100 text-blue-700'
+        }`}>
+          {status.kind === 'error' ? <AlertTriangle size={14} className="shrink-0 mt-0.5" /> : <Check size={14} className="shrink-0 mt-0.5" />}
+          <ul className="flex-1 space-y-0.5 max-h-24 overflow-y-auto custom-scrollbar">
+            {status.messages.map((message, i) => <li key={i}>{message}</li>)}
+          </ul>
+          <button onClick={() => setStatus(null)} className="p-0.5 rounded hover:bg-white/60" title="Dismiss">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      <div
+        ref={gridRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onPaste={handlePaste}
+        onCopy={handleCopy}
+        className="flex-1 overflow-auto custom-scrollbar outline-none"
+      >
+        <table className="border-separate border-spacing-0 text-xs bg-white" style={{ tableLayout: 'fixed' }}>
+          <colgroup>
+            <col style={{ width: 48 }} />
+            {columns.map(column => <col key={column.key} style={{ width: column.width }} />)}
+          </colgroup>
+          <thead className="sticky top-0 z-10 bg-white">
+            <tr>
+              <th className="border-b border-r border-slate-200 bg-slate-50" />
+              {columns.map(column => (
+                <th key={column.key} className="border-b border-r border-slate-200 bg-slate-50 p-0 text-left">
+                  <button
+                    onClick={() => toggleSort(column.key)}
+                    className="w-full px-2 py-2 flex items-center gap-1 text-[10px] font-bold text-slate-500 uppercase tracking-wider hover:text-slate-800"
+                  >
+                    <span className="truncate">{column.label}</span>
+                    {sort?.key === column.key
+                      ? (sort.direction === 1 ? <ArrowUp size={12} className="text-blue-600" /> : <ArrowDown size={12} className="text-blue-600" />)
+                      : <ArrowUpDown size={12} className="text-slate-300" />}
+                  </button>
+                </th>
+              ))}
+            </tr>
+            <tr>
+              <th className="border-b border-r border-slate-200 bg-white" />
+              {columns.map(column => (
+                <th key={column.key} className="border-b border-r border-slate-200 bg-white p-1 font-normal">
+                  {column.editor === 'boolean' ? (
+                    <select
+                      value={columnFilters[column.key] || ''}
+                      onChange={e => setColumnFilters(prev => ({ ...prev, [column.key]: e.target.value }))}
+                      className="w-full px-1.5 py-1 text-[11px] border border-slate-200 rounded-md outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+                    >
+                      <option value="">Any</option>
+                      <option value="yes">Yes</option>
+                      <option value="no">No</option>
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      value={columnFilters[column.key] || ''}
+                      onChange={e => setColumnFilters(prev => ({ ...prev, [column.key]: e.target.value }))}
+                      placeholder="Filter…"
+                      className="w-full px-1.5 py-1 text-[11px] border border-slate-200 rounded-md outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map((person, rowIndex) => (
+              <tr key={person.id} className={activeRow === rowIndex ? 'bg-blue-50/40' : 'hover:bg-slate-50'}>
+                <td className="border-b border-r border-slate-100 px-2 py-1.5 text-[10px] text-slate-400 text-right">{rowIndex + 1}</td>
+                {columns.map((column, colIndex) => {
+                  const isActive = activeRow === rowIndex && active?.col === colIndex;
+                  const text = getCellText(person, column, peopleById);
+                  return (
+                    <td
+                      key={column.key}
+                      data-cell={`${rowIndex}-${colIndex}`}
+                      onMouseDown={() => {
+                        if (isActive) return;
+                        // Clicking another cell keeps a typed value, like a spreadsheet
+                        if (activeColumn?.editor === 'text' || activeColumn?.editor === 'number' || activeColumn?.editor === 'people') finishEdit(draft, undefined, false);
+                        else if (editingRef.current) stopEditing(false);
+                        setActive({ id: person.id, col: colIndex });
+                      }}
+                      onDoubleClick={() => startEditing()}
+                      className={`relative border-b border-r border-slate-100 px-2 py-1.5 truncate cursor-default ${
+                        isActive ? 'outline outline-2 -outline-offset-2 outline-blue-500' : ''
+                      } ${person.isVacancy && column.key === 'name' ? 'italic text-slate-400' : 'text-slate-700'}`}
+                    >
+                      {column.editor === 'boolean' ? (
+                        <button
+                          onClick={() => commitCell(person, column, text ? '' : 'yes')}
+                          className={`w-4 h-4 rounded border flex items-center justify-center ${
+                            text ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-300'
+                          }`}
+                        >
+                          {text && <Check size={10} />}
+                        </button>
+                      ) : (
+                        text || <span className="text-slate-300">—</span>
+                      )}
+                      {isActive && editing && renderEditor(person, column)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {visibleRows.length === 0 && (
+          <div className="px-8 py-12 text-center text-sm text-slate-400">
+            {people.length === 0 ? 'No people yet.' : 'No people match the column filters.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useMemo } from 'react';
+import { Person } from '../types';
+import { getDepartmentPlans, sumTotals, plannedCost, formatCost, formatFte, getPersonCost, BudgetTotals } from '../utils/budget';
+import { EMPLOYMENT_TYPES } from '../utils/employment';
+import { X, Wallet } from 'lucide-react';
+
+interface PlanningSummaryDialogProps {
+  people: Person[];
+  onClose: () => void;
+}
+
+const HEADERS = ['Department', 'Filled', 'Open', 'Planned', 'FTE filled / planned', 'Filled cost', 'Planned cost'];
+
+const cells = (totals: BudgetTotals) => [
+  totals.filled,
+  totals.open,
+  totals.filled + totals.open,
+  `${formatFte(totals.filledFte)} / ${formatFte(totals.filledFte + totals.openFte)}`,
+  formatCost(totals.filledCost) || '—',
+  formatCost(plannedCost(totals)) || '—',
+];
+
+// Filled headcount by employment type, e.g. "8 employees, 2 contractors"; empty when everyone is an employee
+const employmentMix = (totals: BudgetTotals): string => {
+  if ((totals.filledByType.employee || 0) === totals.filled) return '';
+  return EMPLOYMENT_TYPES
+    .filter(t => totals.filledByType[t.type])
+    .map(t => `${totals.filledByType[t.type]} ${totals.filledByType[t.type] === 1 ? t.label.toLowerCase() : t.plural}`)
+    .join(', ');
+};
+
+// Filled vs planned headcount and budget per department (vacancies are the plan)
+export const PlanningSummaryDialog: React.FC<PlanningSummaryDialogProps> = ({ people, onClose }) => {
+  const plans = useMemo(() => getDepartmentPlans(people), [people]);
+  const total = useMemo(() => sumTotals(plans), [plans]);
+  const missingBands = useMemo(() => people.filter(p => !getPersonCost(p)).length, [people]);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl overflow-hidden animate-in fade-in zoom-in duration-200 flex flex-col max-h-[85vh]"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-5 border-b border-slate-100 flex justify-between items-center bg-gradient-to-r from-emerald-50 to-white">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-emerald-100 text-emerald-600 flex items-center justify-center">
+              <Wallet size={20} />
+            </div>
+            <div>
+              <h3 className="font-bold text-slate-800">Headcount &amp; Budget</h3>
+              <p className="text-xs text-slate-500">
+                {total.filled} filled, {total.open} open {total.open === 1 ? 'position' : 'positions'} across {plans.length} {plans.length === 1 ? 'department' : 'departments'}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 overflow-y-auto custom-scrollbar">
+          {plans.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-6">The chart has no people yet.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left">
+                  {HEADERS.map((header, index) => (
+                    <th key={header} className={`pb-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider ${index > 0 ? 'text-right' : ''}`}>{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {plans.map(plan => {
+                  const filledShare = plan.filled + plan.open > 0 ? plan.filled / (plan.filled + plan.open) : 1;
+                  return (
+                    <tr key={plan.department} className="border-t border-slate-100">
+                      <td className="py-2 pr-3">
+                        <div className="font-semibold text-slate-700">{plan.department}</div>
+                        {employmentMix(plan) && <div className="text-[10px] text-slate-400">{employmentMix(plan)}</div>}
+                        <div className="mt-1 h-1.5 w-32 rounded-full bg-amber-100 overflow-hidden" title={`${Math.round(filledShare * 100)}% filled`}>
+                          <div className="h-full bg-emerald-500" style={{ width: `${filledShare * 100}%` }} />
+                        </div>
+                      </td>
+                      {cells(plan).map((value, index) => (
+                        <td key={index} className={`py-2 pl-3 text-right text-slate-600 whitespace-nowrap ${index === 1 && plan.open > 0 ? 'text-amber-600 font-semibold' : ''}`}>{value}</td>
+                      ))}
+                    </tr>
+                  );
+                })}
+                <tr className="border-t-2 border-slate-200 font-bold text-slate-800">
+                  <td className="py-2 pr-3">
+                    Total
+                    {employmentMix(total) && <div className="text-[10px] font-normal text-slate-400">{employmentMix(total)}</div>}
+                  </td>
+                  {cells(total).map((value, index) => (
+                    <td key={index} className="py-2 pl-3 text-right whitespace-nowrap">{value}</td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-between items-center gap-2">
+          <p className="text-[11px] text-slate-500">
+            Cost is the salary band midpoint times FTE, per currency.
+            {missingBands > 0 && ` ${missingBands} ${missingBands === 1 ? 'person has' : 'people have'} no salary band and add no cost.`}
+          </p>
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 text-slate-600 hover:bg-slate-200 rounded-lg text-sm font-medium transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
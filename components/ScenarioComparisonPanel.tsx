@@ -0,0 +1,199 @@
+import React, { useMemo } from 'react';
+import { Person } from '../types';
+import { ScenarioComparison } from '../utils/scenario';
+import { X, GitCompare, UserPlus, UserMinus, ArrowRightLeft, PenLine, Building, Eye, EyeOff } from 'lucide-react';
+
+interface ScenarioComparisonPanelProps {
+  baselineName: string;
+  scenarioName: string;
+  baselinePeople: Person[];
+  scenarioPeople: Person[];
+  comparison: ScenarioComparison;
+  showOnChart: boolean;
+  onToggleShowOnChart: () => void;
+  onClose: () => void;
+}
+
+const displayName = (p: Person) => p.isVacancy ? 'Open Position' : p.name;
+
+const deltaClass = (delta: number) => delta > 0 ? 'text-emerald-600' : delta < 0 ? 'text-red-600' : 'text-slate-400';
+const formatDelta = (delta: number) => delta > 0 ? `+${delta}` : delta < 0 ? `−${-delta}` : '0';
+
+// Side-by-side summary of a what-if scenario against the chart it was branched from
+export const ScenarioComparisonPanel: React.FC<ScenarioComparisonPanelProps> = ({
+  baselineName,
+  scenarioName,
+  baselinePeople,
+  scenarioPeople,
+  comparison,
+  showOnChart,
+  onToggleShowOnChart,
+  onClose
+}) => {
+  const baselineById = useMemo(() => new Map(baselinePeople.map(p => [p.id, p])), [baselinePeople]);
+  const scenarioById = useMemo(() => new Map(scenarioPeople.map(p => [p.id, p])), [scenarioPeople]);
+
+  const managerName = (id: string | null, byId: Map<string, Person>) => {
+    if (!id) return 'Top level';
+    const manager = byId.get(id);
+    return manager ? displayName(manager) : id;
+  };
+
+  const stats = (people: Person[]) => ({
+    heads: people.filter(p => !p.isVacancy).length,
+    open: people.filter(p => p.isVacancy).length,
+    departments: new Set(people.map(p => p.department)).size,
+  });
+  const before = stats(baselinePeople);
+  const after = stats(scenarioPeople);
+
+  const changeCount = comparison.added.length + comparison.removed.length + comparison.moved.length
+    + comparison.retitled.length + comparison.redepartmented.length;
+
+  const section = (icon: React.ReactNode, title: string, count: number, tone: string, rows: React.ReactNode[]) => count > 0 && (
+    <div className="space-y-2">
+      <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+        {icon} {title} ({count})
+      </label>
+      <ul className="space-y-1">
+        {rows.map((row, index) => (
+          <li key={index} className={`text-sm p-2 rounded-lg border text-slate-700 ${tone}`}>{row}</li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  const statColumn = (label: string, name: string, values: ReturnType<typeof stats>, compareTo?: ReturnType<typeof stats>) => (
+    <div className="flex-1 p-4 rounded-xl border border-slate-100 bg-slate-50 space-y-2 min-w-0">
+      <div>
+        <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{label}</div>
+        <div className="font-bold text-slate-800 truncate">{name}</div>
+      </div>
+      {([['Headcount', 'heads'], ['Open roles', 'open'], ['Departments', 'departments']] as const).map(([text, key]) => (
+        <div key={key} className="flex justify-between text-xs text-slate-600">
+          <span>{text}</span>
+          <span className="font-semibold">
+            {values[key]}
+            {compareTo && <span className={`ml-1.5 ${deltaClass(values[key] - compareTo[key])}`}>({formatDelta(values[key] - compareTo[key])})</span>}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl overflow-hidden animate-in fade-in zoom-in duration-200 flex flex-col max-h-[85vh]"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-5 border-b border-slate-100 flex justify-between items-center bg-gradient-to-r from-violet-50 to-white">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-violet-100 text-violet-600 flex items-center justify-center">
+              <GitCompare size={20} />
+            </div>
+            <div>
+              <h3 className="font-bold text-slate-800">Compare with Baseline</h3>
+              <p className="text-xs text-slate-500">
+                {changeCount === 0 ? 'No changes yet' : `${changeCount} ${changeCount === 1 ? 'change' : 'changes'} in this scenario`}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-5 overflow-y-auto custom-scrollbar">
+          <div className="flex gap-3">
+            {statColumn('Baseline', baselineName, before)}
+            {statColumn('Scenario', scenarioName, after, before)}
+          </div>
+
+          {section(<UserPlus size={12} />, 'Added', comparison.added.length, 'bg-emerald-50/50 border-emerald-100',
+            comparison.added.map(p => (
+              <><span className="font-semibold">{displayName(p)}</span><span className="text-slate-400"> · {p.title} · {p.department}</span></>
+            ))
+          )}
+
+          {section(<UserMinus size={12} />, 'Removed', comparison.removed.length, 'bg-red-50/50 border-red-100',
+            comparison.removed.map(p => (
+              <><span className="font-semibold">{displayName(p)}</span><span className="text-slate-400"> · {p.title} · {p.department}</span></>
+            ))
+          )}
+
+          {section(<ArrowRightLeft size={12} />, 'Moved', comparison.moved.length, 'bg-violet-50/50 border-violet-100',
+            comparison.moved.map(({ person, from, to }) => (
+              <>
+                <span className="font-semibold">{displayName(person)}</span>
+                <span className="text-xs text-slate-500"> · {managerName(from, baselineById)} → <span className="text-violet-700 font-medium">{managerName(to, scenarioById)}</span></span>
+              </>
+            ))
+          )}
+
+          {section(<PenLine size={12} />, 'Retitled', comparison.retitled.length, 'bg-amber-50/50 border-amber-100',
+            comparison.retitled.map(({ person, from, to }) => (
+              <>
+                <span className="font-semibold">{displayName(person)}</span>
+                <span className="text-xs text-slate-500"> · <span className="line-through">{from || '—'}</span> → <span className="text-amber-700 font-medium">{to || '—'}</span></span>
+              </>
+            ))
+          )}
+
+          {section(<Building size={12} />, 'Changed department', comparison.redepartmented.length, 'bg-blue-50/50 border-blue-100',
+            comparison.redepartmented.map(({ person, from, to }) => (
+              <>
+                <span className="font-semibold">{displayName(person)}</span>
+                <span className="text-xs text-slate-500"> · {from || '—'} → <span className="text-blue-700 font-medium">{to || '—'}</span></span>
+              </>
+            ))
+          )}
+
+          <div className="space-y-2">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Headcount by Department</label>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-slate-400 border-b border-slate-100">
+                  <th className="py-1.5 font-semibold">Department</th>
+                  <th className="py-1.5 font-semibold text-right">Baseline</th>
+                  <th className="py-1.5 font-semibold text-right">Scenario</th>
+                  <th className="py-1.5 font-semibold text-right">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.headcount.map(row => (
+                  <tr key={row.department} className={`border-b border-slate-50 ${row.delta !== 0 ? 'bg-slate-50' : ''}`}>
+                    <td className="py-1.5 text-slate-700">{row.department || '—'}</td>
+                    <td className="py-1.5 text-right text-slate-600">{row.baseline}</td>
+                    <td className="py-1.5 text-right text-slate-600">{row.scenario}</td>
+                    <td className={`py-1.5 text-right font-semibold ${deltaClass(row.delta)}`}>{formatDelta(row.delta)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-between items-center gap-2">
+          <button
+            onClick={onToggleShowOnChart}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border transition-colors ${
+              showOnChart ? 'bg-violet-50 border-violet-300 text-violet-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-100'
+            }`}
+          >
+            {showOnChart ? <Eye size={16} /> : <EyeOff size={16} />}
+            Mark changes on chart
+          </button>
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 text-slate-600 hover:bg-slate-200 rounded-lg text-sm font-medium transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
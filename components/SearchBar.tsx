@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Person } from '../types';
+import { SearchResult } from '../utils/search';
+import { Search, X, CornerDownLeft } from 'lucide-react';
+
+interface SearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  results: SearchResult[];
+  onSelect: (person: Person) => void;
+}
+
+const MAX_VISIBLE_RESULTS = 8;
+
+// Wrap the matched part of `text` in a <mark>
+const Highlight: React.FC<{ text: string; start: number; length: number }> = ({ text, start, length }) => {
+  if (start < 0) return <>{text}</>;
+  return (
+    <>
+      {text.slice(0, start)}
+      <mark className="bg-amber-200 text-inherit rounded-sm">{text.slice(start, start + length)}</mark>
+      {text.slice(start + length)}
+    </>
+  );
+};
+
+export const SearchBar: React.FC<SearchBarProps> = ({ query, onQueryChange, results, onSelect }) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const visibleResults = results.slice(0, MAX_VISIBLE_RESULTS);
+
+  // Reset the keyboard cursor whenever the result list changes
+  useEffect(() => { setActiveIndex(0); }, [query]);
+
+  // Ctrl/Cmd+F focuses the search box
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key === 'f') {
+        e.preventDefault();
+        inputRef.current?.focus();
+        inputRef.current?.select();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const selectResult = (index: number) => {
+    const result = visibleResults[index];
+    if (!result) return;
+    setActiveIndex(index);
+    onSelect(result.person);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsOpen(true);
+      const next = Math.min(activeIndex + 1, visibleResults.length - 1);
+      selectResult(next);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      selectResult(Math.max(activeIndex - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      selectResult(activeIndex);
+      setIsOpen(false);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      if (query) onQueryChange('');
+      else inputRef.current?.blur();
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="absolute top-20 left-4 z-20 w-80">
+      <div className="flex items-center gap-2 bg-white px-3 py-2 rounded-xl shadow-xl border border-slate-200 focus-within:ring-2 focus-within:ring-blue-500">
+        <Search size={16} className="text-slate-400 shrink-0" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={e => { onQueryChange(e.target.value); setIsOpen(true); }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search people… (Ctrl+F)"
+          className="flex-1 min-w-0 text-sm outline-none bg-transparent text-slate-700 placeholder:text-slate-400"
+        />
+        {query && (
+          <>
+            <span className="text-[10px] font-bold text-slate-400 whitespace-nowrap">{results.length} found</span>
+            <button
+              onClick={() => { onQueryChange(''); inputRef.current?.focus(); }}
+              className="p-0.5 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600 transition-colors"
+              title="Clear search"
+            >
+              <X size={14} />
+            </button>
+          </>
+        )}
+      </div>
+
+      {isOpen && query.trim() && (
+        <div className="mt-2 bg-white rounded-xl shadow-xl border border-slate-100 py-1 max-h-96 overflow-y-auto custom-scrollbar animate-in fade-in zoom-in duration-100">
+          {visibleResults.length === 0 ? (
+            <div className="px-4 py-3 text-xs text-slate-400">No people match “{query}”</div>
+          ) : (
+            visibleResults.map((result, i) => {
+              const { person, match } = result;
+              const name = person.isVacancy ? 'Open Position' : person.name;
+              const showFieldLine = match.field !== 'name' && match.field !== 'title';
+              return (
+                <button
+                  key={person.id}
+                  onMouseEnter={() => setActiveIndex(i)}
+                  onClick={() => { selectResult(i); setIsOpen(false); }}
+                  className={`w-full text-left px-4 py-2 flex items-center gap-3 transition-colors ${i === activeIndex ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs font-bold text-slate-800 truncate">
+                      {match.field === 'name' ? <Highlight text={name} start={match.start} length={match.length} /> : name}
+                    </div>
+                    <div className="text-[10px] text-slate-500 truncate">
+                      {match.field === 'title' ? <Highlight text={person.title} start={match.start} length={match.length} /> : person.title}
+                      {person.department && ` · ${person.department}`}
+                    </div>
+                    {showFieldLine && (
+                      <div className="text-[10px] text-slate-400 truncate">
+                        {match.label}: <Highlight text={match.value} start={match.start} length={match.length} />
+                      </div>
+                    )}
+                  </div>
+                  {i === activeIndex && <CornerDownLeft size={12} className="text-blue-400 shrink-0" />}
+                </button>
+              );
+            })
+          )}
+          {results.length > visibleResults.length && (
+            <div className="px-4 py-1.5 text-[10px] text-slate-400 border-t border-slate-100">
+              +{results.length - visibleResults.length} more highlighted on the chart
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,257 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Person } from '../types';
+import { getDescendantIds } from '../utils/hierarchy';
+import { searchPeople } from '../utils/search';
+import { Building, MapPin, Users, Palette, Layers, UserCheck, Trash2, X, Check } from 'lucide-react';
+
+interface SelectionToolbarProps {
+  selectedPeople: Person[];
+  people: Person[];
+  departments: string[];
+  locations: string[];
+  teams: string[];
+  onUpdate: (changes: Partial<Person>) => void;
+  onChangeManager: (managerId: string | null) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+type BulkAction = 'department' | 'location' | 'team' | 'teamColor' | 'tier' | 'manager';
+
+const TEAM_COLORS = [
+  { name: 'indigo', bg: 'bg-indigo-500' },
+  { name: 'emerald', bg: 'bg-emerald-500' },
+  { name: 'amber', bg: 'bg-amber-500' },
+  { name: 'rose', bg: 'bg-rose-500' },
+  { name: 'cyan', bg: 'bg-cyan-500' },
+  { name: 'purple', bg: 'bg-purple-500' },
+  { name: 'blue', bg: 'bg-blue-500' },
+  { name: 'orange', bg: 'bg-orange-500' },
+];
+
+const ACTIONS: Array<{ action: BulkAction; label: string; icon: React.ReactNode }> = [
+  { action: 'department', label: 'Department', icon: <Building size={14} /> },
+  { action: 'location', label: 'Location', icon: <MapPin size={14} /> },
+  { action: 'team', label: 'Team', icon: <Users size={14} /> },
+  { action: 'teamColor', label: 'Team Color', icon: <Palette size={14} /> },
+  { action: 'tier', label: 'Tier', icon: <Layers size={14} /> },
+  { action: 'manager', label: 'Manager', icon: <UserCheck size={14} /> },
+];
+
+const menuItemClass = 'w-full text-left px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50 hover:text-blue-600 rounded-lg flex items-center gap-2';
+
+// Floating bar for bulk actions on the people selected on the canvas
+export const SelectionToolbar: React.FC<SelectionToolbarProps> = ({
+  selectedPeople,
+  people,
+  departments,
+  locations,
+  teams,
+  onUpdate,
+  onChangeManager,
+  onDelete,
+  onClear
+}) => {
+  const [openAction, setOpenAction] = useState<BulkAction | null>(null);
+  const [teamName, setTeamName] = useState('');
+  const [tier, setTier] = useState('');
+  const [managerQuery, setManagerQuery] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!openAction) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpenAction(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [openAction]);
+
+  // Selected people and their reports can't become the new manager
+  const managerCandidates = useMemo(() => {
+    const excluded = new Set<string>();
+    selectedPeople.forEach(p => {
+      excluded.add(p.id);
+      getDescendantIds(p.id, people).forEach(id => excluded.add(id));
+    });
+    return people.filter(p => !excluded.has(p.id));
+  }, [selectedPeople, people]);
+
+  const managerResults = useMemo(
+    () => managerQuery.trim()
+      ? searchPeople(managerCandidates, managerQuery, 8).map(r => r.person)
+      : [...managerCandidates].sort((a, b) => a.name.localeCompare(b.name)).slice(0, 8),
+    [managerCandidates, managerQuery]
+  );
+
+  const apply = (changes: Partial<Person>) => {
+    onUpdate(changes);
+    setOpenAction(null);
+  };
+
+  const renderPopover = () => {
+    switch (openAction) {
+      case 'department':
+      case 'location': {
+        const options = openAction === 'department' ? departments : locations;
+        return (
+          <div className="max-h-64 overflow-y-auto custom-scrollbar">
+            {options.map(option => (
+              <button key={option} onClick={() => apply({ [openAction]: option })} className={menuItemClass}>
+                {option}
+              </button>
+            ))}
+          </div>
+        );
+      }
+
+      case 'team':
+        return (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                autoFocus
+                type="text"
+                list="bulk-team-names"
+                value={teamName}
+                onChange={e => setTeamName(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && teamName.trim() && apply({ teamName: teamName.trim() })}
+                placeholder="Team name…"
+                className="flex-1 min-w-0 px-3 py-1.5 border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+              <datalist id="bulk-team-names">
+                {teams.map(t => <option key={t} value={t} />)}
+              </datalist>
+              <button
+                onClick={() => apply({ teamName: teamName.trim() })}
+                disabled={!teamName.trim()}
+                className="px-3 py-1.5 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-xs font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Apply
+              </button>
+            </div>
+            <button onClick={() => apply({ teamName: undefined, isTeamLead: undefined })} className={menuItemClass}>
+              <X size={12} /> Remove from team
+            </button>
+          </div>
+        );
+
+      case 'teamColor':
+        return (
+          <div className="flex flex-wrap gap-2 p-1">
+            {TEAM_COLORS.map(color => (
+              <button
+                key={color.name}
+                onClick={() => apply({ teamColor: color.name })}
+                className={`w-7 h-7 rounded-lg ${color.bg} hover:scale-110 transition-transform`}
+                title={color.name}
+              />
+            ))}
+          </div>
+        );
+
+      case 'tier':
+        return (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                autoFocus
+                type="number"
+                min={0}
+                value={tier}
+                onChange={e => setTier(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && tier !== '' && apply({ tier: parseInt(tier) })}
+                placeholder="Tier…"
+                className="flex-1 min-w-0 px-3 py-1.5 border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+              <button
+                onClick={() => apply({ tier: parseInt(tier) })}
+                disabled={tier === '' || parseInt(tier) < 0}
+                className="px-3 py-1.5 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-xs font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Apply
+              </button>
+            </div>
+            <button onClick={() => apply({ tier: undefined })} className={menuItemClass}>
+              <X size={12} /> Clear override (auto)
+            </button>
+          </div>
+        );
+
+      case 'manager':
+        return (
+          <div className="space-y-1">
+            <input
+              autoFocus
+              type="text"
+              value={managerQuery}
+              onChange={e => setManagerQuery(e.target.value)}
+              placeholder="Search managers…"
+              className="w-full px-3 py-1.5 border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <div className="max-h-56 overflow-y-auto custom-scrollbar">
+              <button onClick={() => { onChangeManager(null); setOpenAction(null); }} className={`${menuItemClass} italic`}>
+                No manager (top level)
+              </button>
+              {managerResults.map(p => (
+                <button key={p.id} onClick={() => { onChangeManager(p.id); setOpenAction(null); }} className={menuItemClass}>
+                  <span className="truncate">{p.isVacancy ? 'Open Position' : p.name}</span>
+                  <span className="text-[10px] text-slate-400 truncate">{p.title}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="absolute bottom-8 left-1/2 -translate-x-1/2 z-40">
+      {openAction && (
+        <div className="absolute bottom-full mb-3 left-1/2 -translate-x-1/2 w-64 bg-white p-2 rounded-xl shadow-xl border border-slate-200 animate-in fade-in zoom-in duration-100">
+          <div className="px-1 pb-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+            Set {ACTIONS.find(a => a.action === openAction)?.label} for {selectedPeople.length}
+          </div>
+          {renderPopover()}
+        </div>
+      )}
+
+      <div className="flex items-center gap-1 bg-white p-2 rounded-xl shadow-xl border border-slate-200">
+        <span className="flex items-center gap-1.5 px-3 text-xs font-bold text-blue-700">
+          <Check size={14} /> {selectedPeople.length} selected
+        </span>
+        <div className="w-px h-6 bg-slate-200 mx-1" />
+        {ACTIONS.map(({ action, label, icon }) => (
+          <button
+            key={action}
+            onClick={() => setOpenAction(openAction === action ? null : action)}
+            className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-semibold transition-colors ${
+              openAction === action ? 'bg-blue-50 text-blue-700' : 'text-slate-600 hover:bg-slate-100'
+            }`}
+          >
+            {icon} {label}
+          </button>
+        ))}
+        <div className="w-px h-6 bg-slate-200 mx-1" />
+        <button
+          onClick={onDelete}
+          className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-semibold text-red-600 hover:bg-red-50 transition-colors"
+        >
+          <Trash2 size={14} /> Delete
+        </button>
+        <button
+          onClick={onClear}
+          className="p-1.5 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-600 transition-colors"
+          title="Clear selection (Esc)"
+        >
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SaveFileData } from '../utils/saveFormat';
+import { SnapshotSummary, listSnapshots, createSnapshot, loadSnapshot, deleteSnapshot } from '../utils/storage';
+import { diffCharts } from '../utils/chartDiff';
+import { ChartDiffView } from './ChartDiffView';
+import { X, Camera, RotateCcw, GitCompare, Trash2, ArrowLeft, Loader2 } from 'lucide-react';
+
+interface SnapshotsPanelProps {
+  workspaceId: string;
+  current: SaveFileData;
+  onRestore: (data: SaveFileData) => void;
+  onClose: () => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+// Named copies of the whole chart stored in IndexedDB
+export const SnapshotsPanel: React.FC<SnapshotsPanelProps> = ({ workspaceId, current, onRestore, onClose }) => {
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[] | null>(null);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [comparing, setComparing] = useState<{ summary: SnapshotSummary; data: SaveFileData } | null>(null);
+
+  useEffect(() => {
+    listSnapshots(workspaceId)
+      .then(setSnapshots)
+      .catch(err => {
+        console.error('Failed to list snapshots:', err);
+        setError('Snapshots are unavailable: browser storage could not be opened.');
+        setSnapshots([]);
+      });
+  }, [workspaceId]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(failure, err);
+      setError(failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => run(async () => {
+    const summary = await createSnapshot(workspaceId, name.trim(), current);
+    setSnapshots(prev => [summary, ...(prev || [])]);
+    setName('');
+  }, 'Failed to save the snapshot.');
+
+  const withSnapshot = (summary: SnapshotSummary, use: (data: SaveFileData) => void) => run(async () => {
+    const data = await loadSnapshot(summary.id);
+    if (!data) throw new Error('Snapshot is unreadable');
+    use(data);
+  }, `Failed to open "${summary.name}".`);
+
+  const handleRestore = (summary: SnapshotSummary) => {
+    if (!confirm(`Replace the current chart with "${summary.name}"? You can undo this with Ctrl+Z.`)) return;
+    withSnapshot(summary, data => {
+      onRestore(data);
+      onClose();
+    });
+  };
+
+  const handleDelete = (summary: SnapshotSummary) => {
+    if (!confirm(`Delete the snapshot "${summary.name}"? This cannot be undone.`)) return;
+    run(async () => {
+      await deleteSnapshot(summary.id);
+      setSnapshots(prev => (prev || []).filter(s => s.id !== summary.id));
+    }, 'Failed to delete the snapshot.');
+  };
+
+  const diff = useMemo(() => comparing && diffCharts(comparing.data, current), [comparing, current]);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden animate-in fade-in zoom-in duration-200 flex flex-col max-h-[85vh]"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-5 border-b border-slate-100 flex justify-between items-center bg-gradient-to-r from-blue-50 to-white">
+          <div className="flex items-center gap-3">
+            {comparing ? (
+              <button onClick={() => setComparing(null)} className="w-10 h-10 rounded-full bg-blue-100 text-blue-600 hover:bg-blue-200 flex items-center justify-center transition-colors" title="Back to snapshots">
+                <ArrowLeft size={20} />
+              </button>
+            ) : (
+              <div className="w-10 h-10 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center">
+                <Camera size={20} />
+              </div>
+            )}
+            <div>
+              <h3 className="font-bold text-slate-800">{comparing ? `Changes since "${comparing.summary.name}"` : 'Snapshots'}</h3>
+              <p className="text-xs text-slate-500">
+                {comparing ? `Snapshot from ${formatDate(comparing.summary.createdAt)} compared with the current chart` : 'Save named copies of the chart to restore or compare later'}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto custom-scrollbar">
+          {error && <p className="text-xs text-red-600 p-2 bg-red-50 border border-red-100 rounded-lg">{error}</p>}
+
+          {comparing && diff ? (
+            <ChartDiffView diff={diff} beforePeople={comparing.data.people} afterPeople={current.people} />
+          ) : (
+            <>
+              <div className="flex gap-2">
+                <input
+                  autoFocus
+                  type="text"
+                  value={name}
+                  onChange={e => setName(e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && name.trim() && !busy && handleCreate()}
+                  placeholder="Snapshot name, e.g. Q3 reorg draft"
+                  className="flex-1 px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+                <button
+                  onClick={handleCreate}
+                  disabled={!name.trim() || busy}
+                  className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-sm font-semibold shadow-sm transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Camera size={16} />
+                  Save Snapshot
+                </button>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Saved Snapshots</label>
+                {snapshots === null ? (
+                  <div className="flex justify-center py-6 text-slate-400"><Loader2 size={20} className="animate-spin" /></div>
+                ) : snapshots.length === 0 ? (
+                  <p className="text-sm text-slate-500 text-center py-6">No snapshots yet.</p>
+                ) : snapshots.map(summary => (
+                  <div key={summary.id} className="flex items-center gap-3 p-3 rounded-lg border border-slate-100 bg-slate-50">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold text-slate-700 truncate">{summary.name}</p>
+                      <p className="text-[11px] text-slate-400">{formatDate(summary.createdAt)} · {summary.peopleCount} people</p>
+                    </div>
+                    <button
+                      onClick={() => withSnapshot(summary, data => setComparing({ summary, data }))}
+                      disabled={busy}
+                      className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold text-slate-600 bg-white border border-slate-200 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      <GitCompare size={12} /> Compare
+                    </button>
+                    <button
+                      onClick={() => handleRestore(summary)}
+                      disabled={busy}
+                      className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold text-blue-700 bg-white border border-blue-200 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      <RotateCcw size={12} /> Restore
+                    </button>
+                    <button
+                      onClick={() => handleDelete(summary)}
+                      disabled={busy}
+                      className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                      title="Delete snapshot"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 text-slate-600 hover:bg-slate-200 rounded-lg text-sm font-medium transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
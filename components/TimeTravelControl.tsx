@@ -0,0 +1,132 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Person } from '../types';
+import { TimelineEvent, TimelineEventKind, getTimelineEvents, addDays, daysBetween, isIsoDate, formatDate } from '../utils/effectiveDating';
+import { CalendarClock, ChevronDown, UserPlus, UserMinus, ArrowRightLeft } from 'lucide-react';
+
+interface TimeTravelControlProps {
+  people: Person[]; // Stored people, with their dates and scheduled changes
+  today: string;
+  asOfDate: string | null; // null = today
+  onChange: (date: string | null) => void;
+}
+
+const EVENT_ICONS: Record<TimelineEventKind, React.ReactNode> = {
+  joins: <UserPlus size={12} className="text-emerald-500 shrink-0" />,
+  leaves: <UserMinus size={12} className="text-red-500 shrink-0" />,
+  changes: <ArrowRightLeft size={12} className="text-violet-500 shrink-0" />,
+};
+
+const describeEvent = (event: TimelineEvent) => {
+  const name = event.person.isVacancy ? 'Open Position' : event.person.name;
+  if (event.kind === 'joins') return `${name} joins`;
+  if (event.kind === 'leaves') return `${name} leaves`;
+  const fields = Object.keys(event.change?.changes || {});
+  if (fields.includes('managerId')) return `${name} moves`;
+  if (fields.includes('title')) return `${name}: new title`;
+  return `${name}: ${fields.length} ${fields.length === 1 ? 'change' : 'changes'}`;
+};
+
+// The slider always covers a year either side of today, and stretches to the furthest event
+const MIN_RANGE_DAYS = 365;
+
+// Header date picker that shows the chart as of another day (planned hires, moves and leavers)
+export const TimeTravelControl: React.FC<TimeTravelControlProps> = ({ people, today, asOfDate, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const events = useMemo(() => getTimelineEvents(people), [people]);
+  const upcoming = events.filter(e => e.date > today);
+  const date = asOfDate || today;
+
+  const minOffset = Math.min(-MIN_RANGE_DAYS, ...events.map(e => daysBetween(today, e.date)));
+  const maxOffset = Math.max(MIN_RANGE_DAYS, ...events.map(e => daysBetween(today, e.date)));
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const setDate = (next: string) => onChange(next === today ? null : next);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 text-xs font-bold px-4 py-2 rounded-full transition-colors shadow-sm border ${
+          asOfDate
+            ? 'text-amber-700 bg-amber-50 border-amber-200 hover:bg-amber-100'
+            : 'text-slate-600 bg-white border-slate-200 hover:bg-slate-50'
+        }`}
+        title="Show the chart as of another date"
+      >
+        <CalendarClock size={14} />
+        {asOfDate ? `${asOfDate > today ? 'Planning' : 'As of'} ${formatDate(asOfDate)}` : 'Today'}
+        {!asOfDate && upcoming.length > 0 && (
+          <span className="bg-slate-500 text-white rounded-full px-1.5 text-[10px] leading-4">{upcoming.length}</span>
+        )}
+        <ChevronDown size={12} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-white rounded-xl shadow-xl border border-slate-100 p-4 z-50 space-y-3 animate-in fade-in zoom-in duration-100">
+          <div className="flex items-center justify-between gap-2">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Show chart as of</label>
+            <button
+              onClick={() => onChange(null)}
+              disabled={!asOfDate}
+              className="text-xs font-semibold text-blue-600 hover:text-blue-800 disabled:text-slate-300"
+            >
+              Today
+            </button>
+          </div>
+          <input
+            type="date"
+            value={date}
+            onChange={e => { if (isIsoDate(e.target.value)) setDate(e.target.value); }}
+            className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+          />
+          <input
+            type="range"
+            min={minOffset}
+            max={maxOffset}
+            value={daysBetween(today, date)}
+            onChange={e => setDate(addDays(today, Number(e.target.value)))}
+            className="w-full accent-amber-500"
+          />
+          <p className="text-[11px] text-slate-500">
+            {date > today
+              ? 'Edits made now are scheduled for this date.'
+              : date < today
+                ? 'Past dates are read-only.'
+                : 'Edits apply immediately. Pick a later date to plan changes.'}
+          </p>
+
+          <div className="border-t border-slate-100 pt-3 space-y-1">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Upcoming ({upcoming.length})</label>
+            {upcoming.length === 0 ? (
+              <p className="text-xs text-slate-400">No planned hires, moves or leavers.</p>
+            ) : (
+              <div className="max-h-48 overflow-y-auto custom-scrollbar -mx-1">
+                {upcoming.map((event, index) => (
+                  <button
+                    key={index}
+                    onClick={() => setDate(event.date)}
+                    className={`w-full flex items-center gap-2 px-1 py-1 rounded text-left text-xs hover:bg-slate-50 ${event.date === date ? 'bg-amber-50' : ''}`}
+                  >
+                    {EVENT_ICONS[event.kind]}
+                    <span className="w-20 shrink-0 text-slate-400">{formatDate(event.date)}</span>
+                    <span className="truncate text-slate-700">{describeEvent(event)}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Workspace } from '../utils/storage';
+import { ChevronDown, Check, Plus, Copy, Pencil, Trash2, Upload, FolderOpen, GitBranch } from 'lucide-react';
+
+interface WorkspaceSwitcherProps {
+  workspaces: Workspace[];
+  activeId: string;
+  disabled?: boolean;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onDuplicate: (name: string) => void;
+  onBranchScenario: (name: string) => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  onImportIntoNew: (file: File) => void;
+}
+
+type NamingAction = 'create' | 'duplicate' | 'scenario' | 'rename';
+
+const NAMING_LABELS: Record<NamingAction, string> = {
+  create: 'New workspace',
+  duplicate: 'Duplicate as',
+  scenario: 'What-if scenario name',
+  rename: 'Rename workspace',
+};
+
+const menuItemClass = 'w-full text-left px-4 py-2 text-xs font-medium text-slate-700 hover:bg-slate-50 hover:text-blue-600 flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-slate-700';
+
+// Header dropdown for switching between independent charts
+export const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({
+  workspaces,
+  activeId,
+  disabled,
+  onSwitch,
+  onCreate,
+  onDuplicate,
+  onBranchScenario,
+  onRename,
+  onDelete,
+  onImportIntoNew
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Which action the name field is for, if any
+  const [naming, setNaming] = useState<NamingAction | null>(null);
+  const [name, setName] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const active = workspaces.find(w => w.id === activeId);
+
+  // Scenarios are listed (indented) under the workspace they branch from
+  const ordered = useMemo(() => {
+    const ids = new Set(workspaces.map(w => w.id));
+    const result: Array<{ workspace: Workspace; depth: number }> = [];
+    const visit = (parentId: string | undefined, depth: number) => {
+      workspaces
+        .filter(w => (w.baselineId && ids.has(w.baselineId) ? w.baselineId : undefined) === parentId)
+        .forEach(w => {
+          result.push({ workspace: w, depth });
+          visit(w.id, depth + 1);
+        });
+    };
+    visit(undefined, 0);
+    return result;
+  }, [workspaces]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setNaming(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const close = () => {
+    setIsOpen(false);
+    setNaming(null);
+  };
+
+  const startNaming = (action: NamingAction) => {
+    setNaming(action);
+    setName(
+      action === 'rename' ? active?.name || ''
+        : action === 'duplicate' ? `${active?.name || 'Chart'} (copy)`
+        : action === 'scenario' ? `${active?.name || 'Chart'} – what-if`
+        : ''
+    );
+  };
+
+  const submitName = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (naming === 'create') onCreate(trimmed);
+    else if (naming === 'duplicate') onDuplicate(trimmed);
+    else if (naming === 'scenario') onBranchScenario(trimmed);
+    else if (naming === 'rename') onRename(trimmed);
+    close();
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        disabled={disabled}
+        className="flex items-center gap-2 font-bold text-slate-800 text-lg tracking-tight hover:text-blue-600 transition-colors disabled:hover:text-slate-800"
+        title="Switch workspace"
+      >
+        <span className="truncate max-w-[16rem]">{active?.name || 'Organization Chart'}</span>
+        <ChevronDown size={16} className="text-slate-400 shrink-0" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-72 bg-white rounded-xl shadow-xl border border-slate-100 py-1 z-50 animate-in fade-in zoom-in duration-100">
+          <div className="px-4 pt-2 pb-1 text-[10px] font-bold text-slate-400 uppercase tracking-wider">Workspaces</div>
+          <div className="max-h-64 overflow-y-auto custom-scrollbar">
+            {ordered.map(({ workspace, depth }) => (
+              <button
+                key={workspace.id}
+                onClick={() => { close(); if (workspace.id !== activeId) onSwitch(workspace.id); }}
+                className={menuItemClass}
+                style={{ paddingLeft: 16 + depth * 16 }}
+              >
+                {depth > 0
+                  ? <GitBranch size={14} className="shrink-0 text-violet-500" />
+                  : <FolderOpen size={14} className="shrink-0" />}
+                <span className="flex-1 truncate">{workspace.name}</span>
+                {workspace.id === activeId && <Check size={14} className="text-blue-600 shrink-0" />}
+              </button>
+            ))}
+          </div>
+
+          <div className="border-t border-slate-100 my-1" />
+
+          {naming ? (
+            <div className="px-3 py-2 space-y-2">
+              <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                {NAMING_LABELS[naming]}
+              </label>
+              <div className="flex gap-2">
+                <input
+                  autoFocus
+                  type="text"
+                  value={name}
+                  onChange={e => setName(e.target.value)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') submitName();
+                    if (e.key === 'Escape') setNaming(null);
+                  }}
+                  placeholder="Workspace name…"
+                  className="flex-1 min-w-0 px-3 py-1.5 border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+                <button
+                  onClick={submitName}
+                  disabled={!name.trim()}
+                  className="px-3 py-1.5 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-xs font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {naming === 'rename' ? 'Save' : 'Create'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <button onClick={() => startNaming('create')} className={menuItemClass}>
+                <Plus size={14} /> New workspace
+              </button>
+              <button onClick={() => startNaming('duplicate')} className={menuItemClass}>
+                <Copy size={14} /> Duplicate this workspace
+              </button>
+              <button onClick={() => startNaming('scenario')} className={menuItemClass}>
+                <GitBranch size={14} /> Branch into what-if scenario
+              </button>
+              <button onClick={() => startNaming('rename')} className={menuItemClass}>
+                <Pencil size={14} /> Rename
+              </button>
+              <label className={`${menuItemClass} cursor-pointer`}>
+                <Upload size={14} /> Import into new workspace…
+                <input
+                  type="file"
+                  accept=".json,.csv,.tsv,.txt"
+                  onChange={e => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) {
+                      close();
+                      onImportIntoNew(file);
+                    }
+                  }}
+                  className="hidden"
+                />
+              </label>
+              <button
+                onClick={() => { close(); onDelete(); }}
+                disabled={workspaces.length <= 1}
+                title={workspaces.length <= 1 ? 'The last workspace cannot be deleted' : undefined}
+                className={`${menuItemClass} text-red-600 hover:text-red-700`}
+              >
+                <Trash2 size={14} /> Delete this workspace
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
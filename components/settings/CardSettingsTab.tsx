@@ -3,12 +3,13 @@ import {
   Palette, Layout, Eye, Sparkles, MapPin, Search, RotateCcw, 
   Wand2, Moon, Sun, Zap, Building2
 } from 'lucide-react';
-import { CardSettings, Person } from '../../types';
+import { CardSettings, Person, CustomFieldDefinition } from '../../types';
 import { AccordionSection } from './AccordionSection';
 import { ColorPicker } from './ColorPicker';
 import { Slider } from './Slider';
 import { ToggleSwitch } from './ToggleSwitch';
 import { Tooltip } from './Tooltip';
+import { EMPLOYMENT_TYPES } from '../../utils/employment';
 
 interface CardSettingsTabProps {
   settings: CardSettings;
@@ -16,6 +17,7 @@ interface CardSettingsTabProps {
   locationColors: Record<string, string>;
   onSetLocationColor: (loc: string, color: string) => void;
   locations: string[];
+  customFields?: CustomFieldDefinition[];
   previewPerson?: Person;
 }
 
@@ -161,6 +163,10 @@ const DEFAULT_SETTINGS: CardSettings = {
   showEmail: false,
   showPhone: false,
   showSecondaryManager: true,
+  visibleCustomFieldIds: [],
+  showBudget: false,
+  showHeadcount: false,
+  employmentTypeMarker: 'badge',
   fontFamily: 'default',
   hoverEffect: 'lift',
   showGradientHeader: false
@@ -172,6 +178,7 @@ export const CardSettingsTab: React.FC<CardSettingsTabProps> = ({
   locationColors,
   onSetLocationColor,
   locations,
+  customFields = [],
   previewPerson
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
@@ -203,7 +210,7 @@ export const CardSettingsTab: React.FC<CardSettingsTabProps> = ({
   const showLayoutSection = filterMatch('layout width radius border shadow padding font');
   const showHeaderSection = filterMatch('header alignment name title size gradient');
   const showAvatarSection = filterMatch('avatar size shape position body');
-  const showVisibilitySection = filterMatch('show hide visibility avatar title department location email phone secondary flag');
+  const showVisibilitySection = filterMatch('show hide visibility avatar title department location email phone secondary flag budget headcount fte employment contractor intern ribbon');
   const showEffectsSection = filterMatch('effect hover glow lift scale');
   const showLocationSection = filterMatch('location color');
 
@@ -585,7 +592,9 @@ export const CardSettingsTab: React.FC<CardSettingsTabProps> = ({
               { key: 'showLocationFlag', label: 'Country Flag 🏳️', tooltip: 'Show emoji flag for countries (e.g. 🇺🇸 🇬🇧 🇨🇳)' },
               { key: 'showEmail', label: 'Email Address', tooltip: 'Display email if available' },
               { key: 'showPhone', label: 'Phone Number', tooltip: 'Display phone if available' },
-              { key: 'showSecondaryManager', label: 'Secondary Manager', tooltip: 'Show dotted-line reporting relationship' }
+              { key: 'showSecondaryManager', label: 'Secondary Manager', tooltip: 'Show dotted-line reporting relationship' },
+              { key: 'showHeadcount', label: 'Heads vs FTE', tooltip: 'Show head and FTE counts on managers, department badges and team headers' },
+              { key: 'showBudget', label: 'Budget Roll-ups', tooltip: 'Also show the yearly cost next to the head and FTE counts' }
             ].map(({ key, label, tooltip }) => (
               <label
                 key={key}
@@ -609,6 +618,66 @@ export const CardSettingsTab: React.FC<CardSettingsTabProps> = ({
               </label>
             ))}
           </div>
+          <div className="mt-4 space-y-2">
+            <div className="flex items-center gap-1.5">
+              <label className="text-xs font-medium text-slate-600">Employment Type Marker</label>
+              <Tooltip content="How contractors, interns, part-timers and agency staff stand out from employees" />
+            </div>
+            <div className="flex gap-2">
+              {[
+                { value: 'badge', label: 'Badge' },
+                { value: 'border', label: 'Border' },
+                { value: 'ribbon', label: 'Ribbon' },
+                { value: 'none', label: 'None' }
+              ].map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => onUpdate({ ...settings, employmentTypeMarker: value as CardSettings['employmentTypeMarker'] })}
+                  className={`flex-1 px-3 py-2 text-xs font-medium rounded-lg border transition-all ${
+                    (settings.employmentTypeMarker || 'badge') === value
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-slate-200 hover:border-slate-300 text-slate-600'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {EMPLOYMENT_TYPES.filter(t => t.type !== 'employee').map(t => (
+                <span key={t.type} className={`px-2 py-0.5 rounded-full text-[10px] font-semibold ${t.badge}`}>{t.label}</span>
+              ))}
+            </div>
+          </div>
+          {customFields.length > 0 && (
+            <div className="mt-4 space-y-2">
+              <label className="text-xs font-medium text-slate-600">Custom Fields</label>
+              <div className="grid grid-cols-2 gap-3">
+                {customFields.map(field => {
+                  const visibleIds = settings.visibleCustomFieldIds || [];
+                  return (
+                    <label
+                      key={field.id}
+                      className="flex items-center gap-3 p-3 rounded-lg border border-slate-200 hover:border-blue-300 hover:bg-blue-50/50 transition-all cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={visibleIds.includes(field.id)}
+                        onChange={(e) => onUpdate({
+                          ...settings,
+                          visibleCustomFieldIds: e.target.checked
+                            ? [...visibleIds, field.id]
+                            : visibleIds.filter(id => id !== field.id)
+                        })}
+                        className="w-4 h-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="text-xs font-medium text-slate-700 truncate">{field.label}</span>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          )}
         </AccordionSection>
       )}
 
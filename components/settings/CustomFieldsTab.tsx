@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { ListPlus, Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import { CustomFieldDefinition, CustomFieldType } from '../../types';
+import { CUSTOM_FIELD_TYPES, createCustomField } from '../../utils/customFields';
+import { AccordionSection } from './AccordionSection';
+import { Tooltip } from './Tooltip';
+
+interface CustomFieldsTabProps {
+  fields: CustomFieldDefinition[];
+  onUpdate: (fields: CustomFieldDefinition[]) => void;
+}
+
+const typeLabel = (type: CustomFieldType) => CUSTOM_FIELD_TYPES.find(t => t.type === type)?.label || type;
+
+const parseOptions = (text: string) => Array.from(new Set(text.split(',').map(o => o.trim()).filter(Boolean)));
+
+// Choice lists are edited as comma-separated text and saved when the input loses focus
+const OptionsInput: React.FC<{ options: string[]; onCommit: (options: string[]) => void }> = ({ options, onCommit }) => {
+  const [text, setText] = useState(options.join(', '));
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={e => setText(e.target.value)}
+      onBlur={() => onCommit(parseOptions(text))}
+      placeholder="Choice A, Choice B, …"
+      className="w-full px-3 py-1.5 border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+    />
+  );
+};
+
+// Settings tab where the extra person fields are defined
+export const CustomFieldsTab: React.FC<CustomFieldsTabProps> = ({ fields, onUpdate }) => {
+  const [label, setLabel] = useState('');
+  const [type, setType] = useState<CustomFieldType>('text');
+  const [optionsText, setOptionsText] = useState('');
+
+  const canAdd = !!label.trim() && (type !== 'enum' || parseOptions(optionsText).length > 0);
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onUpdate([...fields, createCustomField(label.trim(), type, parseOptions(optionsText))]);
+    setLabel('');
+    setOptionsText('');
+  };
+
+  const updateField = (id: string, changes: Partial<CustomFieldDefinition>) =>
+    onUpdate(fields.map(f => f.id === id ? { ...f, ...changes } : f));
+
+  const moveField = (index: number, offset: number) => {
+    const next = [...fields];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onUpdate(next);
+  };
+
+  const handleDelete = (field: CustomFieldDefinition) => {
+    if (!confirm(`Delete the field "${field.label}"? Its values are removed from everyone.`)) return;
+    onUpdate(fields.filter(f => f.id !== field.id));
+  };
+
+  return (
+    <div className="space-y-4">
+      <AccordionSection title="Custom Fields" icon={<ListPlus size={14} />} badge={fields.length} defaultOpen>
+        <div className="space-y-2">
+          {fields.length === 0 && (
+            <p className="text-xs text-slate-400">
+              No custom fields yet. Add fields such as an employee number, cost centre or grade below.
+            </p>
+          )}
+          {fields.map((field, index) => (
+            <div key={field.id} className="p-3 bg-slate-50 rounded-lg border border-slate-100 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={field.label}
+                  onChange={e => updateField(field.id, { label: e.target.value })}
+                  className="flex-1 min-w-0 px-3 py-1.5 border border-slate-200 rounded-lg text-xs font-medium focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                />
+                <span className="px-2 py-0.5 rounded-full bg-white border border-slate-200 text-[10px] font-semibold text-slate-500 shrink-0">
+                  {typeLabel(field.type)}
+                </span>
+                <button
+                  onClick={() => moveField(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ArrowUp size={12} />
+                </button>
+                <button
+                  onClick={() => moveField(index, 1)}
+                  disabled={index === fields.length - 1}
+                  className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ArrowDown size={12} />
+                </button>
+                <button
+                  onClick={() => handleDelete(field)}
+                  className="p-1 text-slate-400 hover:text-red-600"
+                  title="Delete field"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+              {field.type === 'enum' && (
+                <OptionsInput options={field.options || []} onCommit={options => updateField(field.id, { options })} />
+              )}
+            </div>
+          ))}
+        </div>
+      </AccordionSection>
+
+      <AccordionSection title="Add Field" icon={<Plus size={14} />} defaultOpen>
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-slate-600">Name</label>
+              <input
+                type="text"
+                value={label}
+                onChange={e => setLabel(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleAdd()}
+                placeholder="e.g. Cost Centre"
+                className="w-full px-3 py-2 border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-slate-600 flex items-center gap-1">
+                Type
+                <Tooltip content="The type decides the input in the person editor and how spreadsheet values are read" />
+              </label>
+              <select
+                value={type}
+                onChange={e => setType(e.target.value as CustomFieldType)}
+                className="w-full px-3 py-2 border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+              >
+                {CUSTOM_FIELD_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+              </select>
+            </div>
+          </div>
+          {type === 'enum' && (
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-slate-600">Choices (comma-separated)</label>
+              <input
+                type="text"
+                value={optionsText}
+                onChange={e => setOptionsText(e.target.value)}
+                placeholder="Junior, Mid, Senior"
+                className="w-full px-3 py-2 border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+          )}
+          <button
+            onClick={handleAdd}
+            disabled={!canAdd}
+            className="w-full px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-xs font-semibold flex items-center justify-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus size={14} /> Add Field
+          </button>
+          <p className="text-[10px] text-slate-400">
+            Values are edited in the person dialog's Fields tab. Choose which fields show on cards in the Cards tab.
+          </p>
+        </div>
+      </AccordionSection>
+    </div>
+  );
+};
@@ -6,10 +6,12 @@ import { ColorPicker } from './ColorPicker';
 import { Slider } from './Slider';
 import { ToggleSwitch } from './ToggleSwitch';
 import { Tooltip } from './Tooltip';
+import { dottedLineTypeKey, formatDottedLineType, isDottedLineTypeHidden } from '../../utils/dottedLines';
 
 interface LineSettingsTabProps {
   settings: LineSettings;
   onUpdate: (settings: LineSettings) => void;
+  dottedLineTypes?: string[]; // Relationship labels in use on the chart
 }
 
 const DEFAULT_SETTINGS: LineSettings = {
@@ -19,13 +21,26 @@ const DEFAULT_SETTINGS: LineSettings = {
   secondaryStyle: 'dotted',
   cornerRadius: 12,
   useRandomSecondaryColors: true,
-  secondaryColor: '#f59e0b'
+  secondaryColor: '#f59e0b',
+  hiddenDottedLineTypes: []
 };
 
 export const LineSettingsTab: React.FC<LineSettingsTabProps> = ({
   settings,
-  onUpdate
+  onUpdate,
+  dottedLineTypes = []
 }) => {
+  const hiddenTypes = settings.hiddenDottedLineTypes || [];
+
+  const toggleType = (label: string, visible: boolean) => {
+    const key = dottedLineTypeKey(label);
+    onUpdate({
+      ...settings,
+      hiddenDottedLineTypes: visible ? hiddenTypes.filter(t => t !== key) : [...hiddenTypes.filter(t => t !== key), key]
+    });
+  };
+
+
   return (
     <div className="space-y-4">
       {/* Live Preview */}
@@ -186,6 +201,26 @@ export const LineSettingsTab: React.FC<LineSettingsTabProps> = ({
         </div>
       </AccordionSection>
 
+      {/* Dotted-line relationship types */}
+      {dottedLineTypes.length > 0 && (
+        <AccordionSection title="Dotted-line Relationships" icon={<Sliders size={14} />} badge={dottedLineTypes.length} defaultOpen>
+          <div className="space-y-3">
+            {dottedLineTypes.map(label => (
+              <ToggleSwitch
+                key={dottedLineTypeKey(label)}
+                checked={!isDottedLineTypeHidden(label, hiddenTypes)}
+                onChange={(checked) => toggleType(label, checked)}
+                label={formatDottedLineType(label)}
+                description={label ? undefined : 'Dotted lines without a label'}
+              />
+            ))}
+            <p className="text-[10px] text-slate-400">
+              Hidden relationship types are left out of the lines and the cards. Label relationships in the person dialog's Reporting tab.
+            </p>
+          </div>
+        </AccordionSection>
+      )}
+
       {/* General Settings */}
       <AccordionSection title="General" icon={<Sliders size={14} />} defaultOpen>
         <Slider
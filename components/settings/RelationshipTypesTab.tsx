@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Share2, Plus, Trash2 } from 'lucide-react';
+import { RelationshipLineStyle, RelationshipType } from '../../types';
+import { RELATIONSHIP_COLORS, RELATIONSHIP_LINE_STYLES, createRelationshipType } from '../../utils/relationships';
+import { AccordionSection } from './AccordionSection';
+import { Tooltip } from './Tooltip';
+
+interface RelationshipTypesTabProps {
+  types: RelationshipType[];
+  onUpdate: (types: RelationshipType[]) => void;
+}
+
+const LineSample: React.FC<{ color: string; lineStyle: RelationshipLineStyle }> = ({ color, lineStyle }) => (
+  <svg width="32" height="8" className="shrink-0">
+    <line x1="2" y1="4" x2="30" y2="4" stroke={color} strokeWidth={2} strokeLinecap="round" strokeDasharray={lineStyle === 'dotted' ? '0 5' : lineStyle === 'dashed' ? '6 4' : undefined} />
+  </svg>
+);
+
+const ColorSwatches: React.FC<{ value: string; onChange: (color: string) => void }> = ({ value, onChange }) => (
+  <div className="flex flex-wrap gap-1.5">
+    {RELATIONSHIP_COLORS.map(color => (
+      <button
+        key={color}
+        type="button"
+        onClick={() => onChange(color)}
+        className={`w-5 h-5 rounded-full transition-all ${value === color ? 'ring-2 ring-offset-1 ring-blue-400 scale-110' : 'opacity-70 hover:opacity-100'}`}
+        style={{ backgroundColor: color }}
+        title={color}
+      />
+    ))}
+  </div>
+);
+
+const StyleSelect: React.FC<{ value: RelationshipLineStyle; onChange: (style: RelationshipLineStyle) => void }> = ({ value, onChange }) => (
+  <select
+    value={value}
+    onChange={e => onChange(e.target.value as RelationshipLineStyle)}
+    className="px-2 py-1.5 border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+  >
+    {RELATIONSHIP_LINE_STYLES.map(style => <option key={style.value} value={style.value}>{style.label}</option>)}
+  </select>
+);
+
+// Settings tab where the kinds of relationship (mentor, backup, ...) are defined
+export const RelationshipTypesTab: React.FC<RelationshipTypesTabProps> = ({ types, onUpdate }) => {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(RELATIONSHIP_COLORS[0]);
+  const [lineStyle, setLineStyle] = useState<RelationshipLineStyle>('dashed');
+
+  const canAdd = !!name.trim() && !types.some(t => t.name.toLowerCase() === name.trim().toLowerCase());
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onUpdate([...types, createRelationshipType(name.trim(), color, lineStyle)]);
+    setName('');
+    setColor(RELATIONSHIP_COLORS[(types.length + 1) % RELATIONSHIP_COLORS.length]);
+  };
+
+  const updateType = (id: string, changes: Partial<RelationshipType>) =>
+    onUpdate(types.map(t => t.id === id ? { ...t, ...changes } : t));
+
+  const handleDelete = (type: RelationshipType) => {
+    if (!confirm(`Delete the relationship type "${type.name}"? Relationships of this type are removed from everyone.`)) return;
+    onUpdate(types.filter(t => t.id !== type.id));
+  };
+
+  return (
+    <div className="space-y-4">
+      <AccordionSection title="Relationship Types" icon={<Share2 size={14} />} badge={types.length} defaultOpen>
+        <div className="space-y-2">
+          {types.length === 0 && (
+            <p className="text-xs text-slate-400">
+              No relationship types yet. Add types such as mentor, project lead or backup below.
+            </p>
+          )}
+          {types.map(type => (
+            <div key={type.id} className="p-3 bg-slate-50 rounded-lg border border-slate-100 space-y-2">
+              <div className="flex items-center gap-2">
+                <LineSample color={type.color} lineStyle={type.lineStyle} />
+                <input
+                  type="text"
+                  value={type.name}
+                  onChange={e => updateType(type.id, { name: e.target.value })}
+                  className="flex-1 min-w-0 px-3 py-1.5 border border-slate-200 rounded-lg text-xs font-medium focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                />
+                <StyleSelect value={type.lineStyle} onChange={style => updateType(type.id, { lineStyle: style })} />
+                <button
+                  onClick={() => handleDelete(type)}
+                  className="p-1 text-slate-400 hover:text-red-600"
+                  title="Delete type"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+              <ColorSwatches value={type.color} onChange={c => updateType(type.id, { color: c })} />
+            </div>
+          ))}
+        </div>
+      </AccordionSection>
+
+      <AccordionSection title="Add Type" icon={<Plus size={14} />} defaultOpen>
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-slate-600">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleAdd()}
+                placeholder="e.g. Buddy"
+                className="w-full px-3 py-2 border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-slate-600 flex items-center gap-1">
+                Line Style
+                <Tooltip content="Single relationships can override the style and color in the person dialog" />
+              </label>
+              <div className="flex items-center gap-2">
+                <StyleSelect value={lineStyle} onChange={setLineStyle} />
+                <LineSample color={color} lineStyle={lineStyle} />
+              </div>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-slate-600">Color</label>
+            <ColorSwatches value={color} onChange={setColor} />
+          </div>
+          <button
+            onClick={handleAdd}
+            disabled={!canAdd}
+            className="w-full px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-xs font-semibold flex items-center justify-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus size={14} /> Add Type
+          </button>
+          <p className="text-[10px] text-slate-400">
+            Relationships are added in the person dialog's Reporting tab and drawn on the chart with a legend.
+          </p>
+        </div>
+      </AccordionSection>
+    </div>
+  );
+};
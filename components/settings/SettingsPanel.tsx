@@ -1,15 +1,17 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { 
   X, Settings, Palette, Sliders, MapPin, PanelRightClose, PanelRight,
-  Undo, Redo, Keyboard, Check
+  Undo, Redo, Keyboard, Check, ListPlus, Share2
 } from 'lucide-react';
-import { CardSettings, LineSettings, Person } from '../../types';
+import { CardSettings, LineSettings, Person, CustomFieldDefinition, RelationshipType } from '../../types';
 import { CardSettingsTab } from './CardSettingsTab';
 import { LineSettingsTab } from './LineSettingsTab';
+import { CustomFieldsTab } from './CustomFieldsTab';
+import { RelationshipTypesTab } from './RelationshipTypesTab';
 import { Tooltip } from './Tooltip';
 import { getLocationFlag, getFlagImageUrl } from '../../countries';
 
-type SettingsTab = 'cards' | 'lines';
+type SettingsTab = 'cards' | 'lines' | 'fields' | 'relations';
 
 interface SettingsPanelProps {
   isOpen: boolean;
@@ -20,10 +22,17 @@ interface SettingsPanelProps {
   // Line settings
   lineSettings: LineSettings;
   onUpdateLineSettings: (settings: LineSettings) => void;
+  dottedLineTypes?: string[];
   // Location colors
   locationColors: Record<string, string>;
   onSetLocationColor: (loc: string, color: string) => void;
   locations: string[];
+  // Custom person fields (changes go through the app's undo history)
+  customFields: CustomFieldDefinition[];
+  onUpdateCustomFields: (fields: CustomFieldDefinition[]) => void;
+  // Relationship types (changes go through the app's undo history)
+  relationshipTypes: RelationshipType[];
+  onUpdateRelationshipTypes: (types: RelationshipType[]) => void;
   // For preview
   previewPerson?: Person;
   // Panel mode
@@ -38,9 +47,14 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
   onUpdateCardSettings,
   lineSettings,
   onUpdateLineSettings,
+  dottedLineTypes,
   locationColors,
   onSetLocationColor,
   locations,
+  customFields,
+  onUpdateCustomFields,
+  relationshipTypes,
+  onUpdateRelationshipTypes,
   previewPerson,
   defaultTab = 'cards',
   sidebarMode: initialSidebarMode = false
@@ -86,10 +100,10 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
   }, [onUpdateLineSettings, lineHistoryIndex]);
 
   // Undo/Redo handlers
-  const canUndo = activeTab === 'cards' ? cardHistoryIndex > 0 : lineHistoryIndex > 0;
+  const canUndo = activeTab === 'cards' ? cardHistoryIndex > 0 : activeTab === 'lines' && lineHistoryIndex > 0;
   const canRedo = activeTab === 'cards' 
     ? cardHistoryIndex < cardHistory.length - 1 
-    : lineHistoryIndex < lineHistory.length - 1;
+    : activeTab === 'lines' && lineHistoryIndex < lineHistory.length - 1;
 
   const handleUndo = () => {
     if (activeTab === 'cards' && cardHistoryIndex > 0) {
@@ -148,6 +162,12 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
       } else if (e.key === '2' && (e.ctrlKey || e.metaKey)) {
         e.preventDefault();
         setActiveTab('lines');
+      } else if (e.key === '3' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        setActiveTab('fields');
+      } else if (e.key === '4' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        setActiveTab('relations');
       }
     };
 
@@ -179,7 +199,9 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
 
   const tabs = [
     { id: 'cards' as const, label: 'Cards', icon: <Palette size={16} /> },
-    { id: 'lines' as const, label: 'Lines', icon: <Sliders size={16} /> }
+    { id: 'lines' as const, label: 'Lines', icon: <Sliders size={16} /> },
+    { id: 'fields' as const, label: 'Fields', icon: <ListPlus size={16} /> },
+    { id: 'relations' as const, label: 'Relations', icon: <Share2 size={16} /> }
   ];
 
   // Card Preview Component
@@ -376,6 +398,8 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
             <div className="flex justify-between"><span>Redo</span><kbd className="px-1.5 py-0.5 bg-white/20 rounded text-[10px]">Ctrl+Shift+Z</kbd></div>
             <div className="flex justify-between"><span>Cards tab</span><kbd className="px-1.5 py-0.5 bg-white/20 rounded text-[10px]">Ctrl+1</kbd></div>
             <div className="flex justify-between"><span>Lines tab</span><kbd className="px-1.5 py-0.5 bg-white/20 rounded text-[10px]">Ctrl+2</kbd></div>
+            <div className="flex justify-between"><span>Fields tab</span><kbd className="px-1.5 py-0.5 bg-white/20 rounded text-[10px]">Ctrl+3</kbd></div>
+            <div className="flex justify-between"><span>Relations tab</span><kbd className="px-1.5 py-0.5 bg-white/20 rounded text-[10px]">Ctrl+4</kbd></div>
           </div>
         )}
 
@@ -420,6 +444,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
               locationColors={locationColors}
               onSetLocationColor={onSetLocationColor}
               locations={locations}
+              customFields={customFields}
               previewPerson={previewPerson}
             />
           )}
@@ -427,6 +452,19 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
             <LineSettingsTab
               settings={lineSettings}
               onUpdate={handleLineSettingsUpdate}
+              dottedLineTypes={dottedLineTypes}
+            />
+          )}
+          {activeTab === 'fields' && (
+            <CustomFieldsTab
+              fields={customFields}
+              onUpdate={onUpdateCustomFields}
+            />
+          )}
+          {activeTab === 'relations' && (
+            <RelationshipTypesTab
+              types={relationshipTypes}
+              onUpdate={onUpdateRelationshipTypes}
             />
           )}
         </div>
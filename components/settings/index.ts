@@ -2,6 +2,8 @@
 export { SettingsPanel } from './SettingsPanel';
 export { CardSettingsTab } from './CardSettingsTab';
 export { LineSettingsTab } from './LineSettingsTab';
+export { CustomFieldsTab } from './CustomFieldsTab';
+export { RelationshipTypesTab } from './RelationshipTypesTab';
 
 // Reusable UI Components
 export { AccordionSection } from './AccordionSection';
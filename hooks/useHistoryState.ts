@@ -61,9 +61,15 @@ export function useHistoryState<T>(initialState: T | (() => T)) {
     });
   }, []);
 
+  // Replace the state without recording history (e.g. after loading from storage)
+  const reset = useCallback((newPresent: T) => {
+    setState({ past: [], present: newPresent, future: [] });
+  }, []);
+
   return {
     state: state.present,
     set,
+    reset,
     undo,
     redo,
     canUndo,
@@ -12,6 +12,7 @@ export interface Person {
   location: Country | string;
   managerId?: string | null;
   secondaryManagerIds?: string[]; // New field for dotted-line reporting
+  secondaryManagerLabels?: Record<string, string>; // Relationship per dotted-line manager id ("functional", "project")
   supportedIds?: string[]; // New field for support staff relationships
   supportColor?: string; // Custom color for support lines
   tier?: number; // Visual tier/level override
@@ -24,6 +25,62 @@ export interface Person {
   email?: string;
   phone?: string;
   isVacancy?: boolean; // New field for future roles/vacancies
+  salaryMin?: number; // Yearly salary band, in `currency`
+  salaryMax?: number;
+  currency?: string; // ISO currency code; absent = DEFAULT_CURRENCY
+  fte?: number; // Full-time equivalent fraction (0-1); absent = 1
+  employmentType?: EmploymentType; // Absent = employee
+  startDate?: string; // ISO date (yyyy-mm-dd) the person joins; absent = already here
+  endDate?: string; // ISO date of the last day; absent = no planned leave
+  scheduledChanges?: ScheduledChange[]; // Future moves / title changes, applied as of their date
+  customFields?: Record<string, CustomFieldValue>; // Values keyed by CustomFieldDefinition.id
+  relationships?: PersonRelationship[]; // Typed links from this person to others (mentor, backup, ...)
+}
+
+export type EmploymentType = 'employee' | 'contractor' | 'intern' | 'part-time' | 'agency';
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'enum' | 'boolean' | 'url';
+
+export type CustomFieldValue = string | number | boolean;
+
+// Admin-defined extra person field (employee number, cost centre, grade, ...)
+export interface CustomFieldDefinition {
+  id: string;
+  label: string;
+  type: CustomFieldType;
+  options?: string[]; // Choices for 'enum' fields
+}
+
+export type RelationshipLineStyle = 'solid' | 'dashed' | 'dotted';
+
+// User-defined kind of relationship (mentor, project lead, backup, ...)
+export interface RelationshipType {
+  id: string;
+  name: string;
+  color: string; // Hex line color
+  lineStyle: RelationshipLineStyle;
+}
+
+// One typed relationship, stored on the person it starts from
+export interface PersonRelationship {
+  id: string;
+  typeId: string; // RelationshipType.id
+  toId: string; // Person the relationship points at
+  label?: string; // Shown on the line instead of the type name
+  color?: string; // Overrides the type's color
+  lineStyle?: RelationshipLineStyle; // Overrides the type's line style
+  startDate?: string; // ISO date the relationship begins; absent = always
+  endDate?: string; // ISO date of its last day; absent = open-ended
+}
+
+// Fields that can change on a future date instead of immediately (the dating fields themselves are set directly)
+export type DatingField = 'startDate' | 'endDate' | 'scheduledChanges';
+export type ScheduledField = Exclude<keyof Person, 'id' | DatingField>;
+
+export interface ScheduledChange {
+  id: string;
+  effectiveDate: string; // ISO date (yyyy-mm-dd)
+  changes: Partial<Pick<Person, ScheduledField>>;
 }
 
 export interface ChartData {
@@ -38,6 +95,7 @@ export interface LineSettings {
   cornerRadius: number;
   useRandomSecondaryColors: boolean;
   secondaryColor: string; // Fallback/Base color if not random
+  hiddenDottedLineTypes: string[]; // Dotted-line relationship types switched off (lower-case labels; '' = unlabelled)
 }
 
 export interface CardSettings {
@@ -90,6 +148,10 @@ export interface CardSettings {
   showEmail: boolean;
   showPhone: boolean;
   showSecondaryManager: boolean;
+  visibleCustomFieldIds: string[]; // Custom fields shown on cards
+  showBudget: boolean; // Headcount / budget roll-ups on managers, department badges and team headers
+  showHeadcount: boolean; // Heads vs FTE roll-ups in the same places, without costs
+  employmentTypeMarker: 'badge' | 'border' | 'ribbon' | 'none'; // How non-employees stand out on cards
   
   // ═══════════════════════════════════════
   // TYPOGRAPHY
@@ -0,0 +1,171 @@
+import { Person } from '../types';
+import { getEmploymentType } from './employment';
+
+// Headcount and budget planning. People and vacancies can carry a salary band, a currency
+// and an FTE fraction; their cost is the band midpoint times FTE. Totals are kept per
+// currency since the chart has no exchange rates.
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const COMMON_CURRENCIES = ['USD', 'EUR', 'GBP', 'CHF', 'JPY', 'CNY', 'HKD', 'SGD', 'INR', 'AUD', 'CAD'];
+
+// Choices offered in the person editor (imported files may hold any fraction)
+export const FTE_OPTIONS = [1, 0.9, 0.8, 0.75, 0.7, 0.6, 0.5, 0.4, 0.3, 0.25, 0.2, 0.1];
+
+export interface BudgetTotals {
+  filled: number; // Headcount of people in post
+  open: number; // Headcount of vacancies
+  filledFte: number;
+  openFte: number;
+  filledCost: Record<string, number>; // Currency → yearly cost
+  openCost: Record<string, number>;
+  filledByType: Record<string, number>; // Employment type → filled headcount
+}
+
+export interface DepartmentPlan extends BudgetTotals {
+  department: string;
+}
+
+export const emptyTotals = (): BudgetTotals => ({
+  filled: 0, open: 0, filledFte: 0, openFte: 0, filledCost: {}, openCost: {}, filledByType: {},
+});
+
+/** FTE fraction, 1 when not set */
+export const getFte = (person: Person): number => person.fte ?? 1;
+
+/** Yearly cost (band midpoint × FTE), or null without a salary band */
+export const getPersonCost = (person: Person): { amount: number; currency: string } | null => {
+  const { salaryMin, salaryMax } = person;
+  if (salaryMin === undefined && salaryMax === undefined) return null;
+  const midpoint = salaryMin !== undefined && salaryMax !== undefined ? (salaryMin + salaryMax) / 2 : (salaryMin ?? salaryMax)!;
+  return { amount: midpoint * getFte(person), currency: person.currency || DEFAULT_CURRENCY };
+};
+
+const addCosts = (target: Record<string, number>, source: Record<string, number>) => {
+  Object.entries(source).forEach(([currency, amount]) => { target[currency] = (target[currency] || 0) + amount; });
+};
+
+/** Adds one person to running totals */
+export const addPerson = (totals: BudgetTotals, person: Person): BudgetTotals => {
+  const cost = getPersonCost(person);
+  if (person.isVacancy) {
+    totals.open += 1;
+    totals.openFte += getFte(person);
+    if (cost) addCosts(totals.openCost, { [cost.currency]: cost.amount });
+  } else {
+    totals.filled += 1;
+    totals.filledFte += getFte(person);
+    if (cost) addCosts(totals.filledCost, { [cost.currency]: cost.amount });
+    addCosts(totals.filledByType, { [getEmploymentType(person)]: 1 });
+  }
+  return totals;
+};
+
+export const sumTotals = (list: BudgetTotals[]): BudgetTotals => list.reduce((sum, t) => {
+  sum.filled += t.filled;
+  sum.open += t.open;
+  sum.filledFte += t.filledFte;
+  sum.openFte += t.openFte;
+  addCosts(sum.filledCost, t.filledCost);
+  addCosts(sum.openCost, t.openCost);
+  addCosts(sum.filledByType, t.filledByType);
+  return sum;
+}, emptyTotals());
+
+export const totalsOf = (people: Person[]): BudgetTotals => people.reduce(addPerson, emptyTotals());
+
+/** Filled plus open cost, per currency */
+export const plannedCost = (totals: BudgetTotals): Record<string, number> => {
+  const cost: Record<string, number> = {};
+  addCosts(cost, totals.filledCost);
+  addCosts(cost, totals.openCost);
+  return cost;
+};
+
+/**
+ * Totals for everyone in each person's part of the tree (the person included).
+ * Cycles in the reporting lines are cut where they close.
+ */
+export const computeBudgetRollups = (people: Person[]): Map<string, BudgetTotals> => {
+  const ids = new Set(people.map(p => p.id));
+  const children = new Map<string, Person[]>();
+  people.forEach(p => {
+    if (p.managerId && ids.has(p.managerId)) children.set(p.managerId, [...(children.get(p.managerId) || []), p]);
+  });
+
+  const rollups = new Map<string, BudgetTotals>();
+  const visiting = new Set<string>();
+  const visit = (person: Person): BudgetTotals => {
+    const known = rollups.get(person.id);
+    if (known) return known;
+    if (visiting.has(person.id)) return emptyTotals();
+    visiting.add(person.id);
+    const own = addPerson(emptyTotals(), person);
+    const totals = sumTotals([own, ...(children.get(person.id) || []).map(visit)]);
+    visiting.delete(person.id);
+    rollups.set(person.id, totals);
+    return totals;
+  };
+  people.forEach(visit);
+  return rollups;
+};
+
+/** Filled vs planned headcount and budget per department, largest first */
+export const getDepartmentPlans = (people: Person[]): DepartmentPlan[] => {
+  const byDept = new Map<string, BudgetTotals>();
+  people.forEach(p => {
+    const dept = p.department || 'Other';
+    byDept.set(dept, addPerson(byDept.get(dept) || emptyTotals(), p));
+  });
+  return Array.from(byDept.entries())
+    .map(([department, totals]) => ({ department, ...totals }))
+    .sort((a, b) => (b.filled + b.open) - (a.filled + a.open) || a.department.localeCompare(b.department));
+};
+
+export const formatFte = (fte: number): string => (Math.round(fte * 100) / 100).toString();
+
+/** Compact money, e.g. "$1.2M"; several currencies are joined with " + " */
+export const formatCost = (cost: Record<string, number>): string => {
+  const entries = Object.entries(cost).filter(([, amount]) => amount > 0);
+  if (entries.length === 0) return '';
+  return entries
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([currency, amount]) => {
+      try {
+        return new Intl.NumberFormat(undefined, { style: 'currency', currency, notation: 'compact', minimumFractionDigits: 0, maximumFractionDigits: 1 }).format(amount);
+      } catch {
+        // Not an ISO currency code
+        return `${new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 }).format(amount)} ${currency}`;
+      }
+    })
+    .join(' + ');
+};
+
+/**
+ * One-line summary for badges and team headers, e.g. "12 heads + 2 open · 13.5 FTE · $1.4M".
+ * FTE counts open positions too; the cost is left out unless asked for.
+ */
+export const formatTotals = (totals: BudgetTotals, withCost = true): string => {
+  const heads = `${totals.filled} ${totals.filled === 1 ? 'head' : 'heads'}`;
+  const headcount = totals.open > 0 ? `${heads} + ${totals.open} open` : heads;
+  const cost = withCost ? formatCost(plannedCost(totals)) : '';
+  return [headcount, `${formatFte(totals.filledFte + totals.openFte)} FTE`, cost].filter(Boolean).join(' · ');
+};
+
+/** Reads an amount typed into a spreadsheet cell ("$85,000", "85000 EUR"); null when unreadable */
+export const parseAmount = (text: string): number | null => {
+  const cleaned = text.replace(/[^0-9.\-]/g, '');
+  if (!cleaned) return null;
+  const amount = Number(cleaned);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+};
+
+/** Reads an FTE fraction ("0.5", "50%"); null unless it's above 0 and at most 1 */
+export const parseFte = (text: string): number | null => {
+  const trimmed = text.trim();
+  const value = trimmed.endsWith('%') ? Number(trimmed.slice(0, -1)) / 100 : Number(trimmed);
+  return Number.isFinite(value) && value > 0 && value <= 1 ? value : null;
+};
+
+export const isValidFte = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= 1;
@@ -0,0 +1,136 @@
+import { Person, PersonRelationship, ScheduledChange } from '../types';
+
+// Person-level comparison of two versions of a chart, matched by id
+
+export interface PersonChange {
+  id: string;
+  before: Person;
+  after: Person;
+  fields: Array<keyof Person>;
+}
+
+export interface ListChange {
+  list: 'departments' | 'locations' | 'jobTitles';
+  added: string[];
+  removed: string[];
+}
+
+export interface ChartDiff {
+  added: Person[];
+  removed: Person[];
+  changed: PersonChange[];
+  lists: ListChange[];
+}
+
+export interface DiffableChart {
+  people: Person[];
+  departments?: string[];
+  locations?: string[];
+  jobTitles?: string[];
+}
+
+export const PERSON_FIELD_LABELS: Record<keyof Person, string> = {
+  id: 'ID',
+  name: 'Name',
+  title: 'Title',
+  department: 'Department',
+  location: 'Location',
+  managerId: 'Manager',
+  secondaryManagerIds: 'Dotted-line managers',
+  secondaryManagerLabels: 'Dotted-line labels',
+  supportedIds: 'Supports',
+  supportColor: 'Support line color',
+  tier: 'Tier',
+  photoUrl: 'Photo',
+  teamName: 'Team',
+  isTeamLead: 'Team lead',
+  teamColor: 'Team color',
+  deptColor: 'Department color',
+  sortOrder: 'Sort order',
+  email: 'Email',
+  phone: 'Phone',
+  isVacancy: 'Vacancy',
+  salaryMin: 'Salary from',
+  salaryMax: 'Salary to',
+  currency: 'Currency',
+  fte: 'FTE',
+  employmentType: 'Employment type',
+  startDate: 'Start date',
+  endDate: 'Last day',
+  scheduledChanges: 'Scheduled changes',
+  customFields: 'Custom fields',
+  relationships: 'Relationships',
+};
+
+// Missing, null, empty string and empty list all mean "not set"
+const normalize = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (Array.isArray(value)) return value.length ? JSON.stringify(value) : undefined;
+  if (value === false) return undefined;
+  return typeof value === 'object' ? JSON.stringify(value) : value;
+};
+
+export const personFieldsChanged = (before: Person, after: Person): Array<keyof Person> => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as Array<keyof Person>);
+  return [...keys].filter(key => key !== 'id' && normalize(before[key]) !== normalize(after[key]));
+};
+
+const diffList = (list: ListChange['list'], before: string[] = [], after: string[] = []): ListChange | null => {
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  const added = after.filter(v => !beforeSet.has(v));
+  const removed = before.filter(v => !afterSet.has(v));
+  return added.length || removed.length ? { list, added, removed } : null;
+};
+
+export const diffCharts = (before: DiffableChart, after: DiffableChart): ChartDiff => {
+  const beforeById = new Map(before.people.map(p => [p.id, p]));
+  const afterIds = new Set(after.people.map(p => p.id));
+
+  const changed: PersonChange[] = [];
+  const added: Person[] = [];
+  after.people.forEach(p => {
+    const old = beforeById.get(p.id);
+    if (!old) {
+      added.push(p);
+      return;
+    }
+    const fields = personFieldsChanged(old, p);
+    if (fields.length) changed.push({ id: p.id, before: old, after: p, fields });
+  });
+
+  return {
+    added,
+    removed: before.people.filter(p => !afterIds.has(p.id)),
+    changed,
+    lists: [
+      diffList('departments', before.departments, after.departments),
+      diffList('locations', before.locations, after.locations),
+      diffList('jobTitles', before.jobTitles, after.jobTitles),
+    ].filter((c): c is ListChange => c !== null),
+  };
+};
+
+export const isEmptyDiff = (diff: ChartDiff) =>
+  !diff.added.length && !diff.removed.length && !diff.changed.length && !diff.lists.length;
+
+// Human-readable value for a field, resolving ids to names where possible
+export const formatFieldValue = (person: Person, field: keyof Person, peopleById: Map<string, Person>): string => {
+  const nameFor = (id: string) => {
+    const p = peopleById.get(id);
+    return p ? (p.isVacancy ? 'Open Position' : p.name) : id;
+  };
+  const value = person[field];
+  if (value === undefined || value === null || value === '' || (Array.isArray(value) && !value.length)) return '—';
+  if (field === 'managerId') return nameFor(value as string);
+  if (field === 'secondaryManagerIds' || field === 'supportedIds') return (value as string[]).map(nameFor).join(', ');
+  if (field === 'photoUrl') return 'set';
+  if (field === 'secondaryManagerLabels') {
+    return Object.entries(value as Record<string, string>).map(([id, label]) => `${nameFor(id)}: ${label}`).join(', ');
+  }
+  if (field === 'customFields') return Object.values(value as Record<string, unknown>).map(String).join(', ');
+  if (field === 'relationships') return (value as PersonRelationship[]).map(r => `${r.label ? `${r.label} ` : ''}→ ${nameFor(r.toId)}`).join(', ');
+  if (field === 'scheduledChanges') return (value as ScheduledChange[]).map(c => c.effectiveDate).join(', ');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
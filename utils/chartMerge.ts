@@ -0,0 +1,86 @@
+import { Person } from '../types';
+import { SaveFileData } from './saveFormat';
+import { diffCharts } from './chartDiff';
+
+// Two-way merge of saved charts. "left" is the chart being merged into (a file or the
+// current state); every difference in "right" becomes a change that can be taken or not.
+
+export type MergeSide = 'left' | 'right';
+
+export type MergeChange =
+  | { key: string; kind: 'added'; personId: string; person: Person } // Only in right
+  | { key: string; kind: 'removed'; personId: string; person: Person } // Only in left
+  | { key: string; kind: 'field'; personId: string; field: keyof Person; left: Person; right: Person };
+
+export type MergeChoices = Record<string, MergeSide>;
+
+export const getMergeChanges = (left: SaveFileData, right: SaveFileData): MergeChange[] => {
+  const diff = diffCharts(left, right);
+  return [
+    ...diff.changed.flatMap(change => change.fields.map(field => ({
+      key: `field:${change.id}:${field}`,
+      kind: 'field' as const,
+      personId: change.id,
+      field,
+      left: change.before,
+      right: change.after,
+    }))),
+    ...diff.added.map(person => ({ key: `added:${person.id}`, kind: 'added' as const, personId: person.id, person })),
+    ...diff.removed.map(person => ({ key: `removed:${person.id}`, kind: 'removed' as const, personId: person.id, person })),
+  ];
+};
+
+/** Every change taken from one side */
+export const chooseAll = (changes: MergeChange[], side: MergeSide): MergeChoices =>
+  Object.fromEntries(changes.map(change => [change.key, side]));
+
+const union = (a: string[], b: string[]) => Array.from(new Set([...a, ...b]));
+
+const copyField = <K extends keyof Person>(target: Person, source: Person, key: K) => {
+  target[key] = source[key];
+};
+
+/**
+ * Builds the merged chart. Unchosen changes keep the left side. Lists, colors, custom field
+ * definitions and relationship types are combined (left wins on clashes); settings always come from the left.
+ */
+export const applyMerge = (left: SaveFileData, right: SaveFileData, changes: MergeChange[], choices: MergeChoices): SaveFileData => {
+  const takeRight = (change: MergeChange) => choices[change.key] === 'right';
+
+  const droppedIds = new Set(changes.filter(c => c.kind === 'removed' && takeRight(c)).map(c => c.personId));
+  const fieldsById = new Map<string, Array<keyof Person>>();
+  changes.forEach(c => {
+    if (c.kind === 'field' && takeRight(c)) fieldsById.set(c.personId, [...(fieldsById.get(c.personId) || []), c.field]);
+  });
+  const rightById = new Map(right.people.map(p => [p.id, p]));
+
+  const people = left.people
+    .filter(p => !droppedIds.has(p.id))
+    .map(p => {
+      const fields = fieldsById.get(p.id);
+      if (!fields) return p;
+      const source = rightById.get(p.id)!;
+      const merged: Person = { ...p };
+      fields.forEach(field => {
+        if (source[field] === undefined) delete merged[field];
+        else copyField(merged, source, field);
+      });
+      return merged;
+    });
+
+  changes.forEach(c => {
+    if (c.kind === 'added' && takeRight(c)) people.push(c.person);
+  });
+
+  return {
+    ...left,
+    people,
+    departments: union(left.departments, right.departments),
+    locations: union(left.locations, right.locations),
+    jobTitles: union(left.jobTitles, right.jobTitles),
+    departmentColors: { ...right.departmentColors, ...left.departmentColors },
+    locationColors: { ...right.locationColors, ...left.locationColors },
+    customFields: [...left.customFields, ...right.customFields.filter(f => !left.customFields.some(l => l.id === f.id))],
+    relationshipTypes: [...left.relationshipTypes, ...right.relationshipTypes.filter(t => !left.relationshipTypes.some(l => l.id === t.id))],
+  };
+};
@@ -0,0 +1,84 @@
+// Minimal RFC 4180 style CSV/TSV reading and writing.
+// Handles quoted fields, escaped quotes ("") and newlines inside quotes.
+
+export type Delimiter = ',' | '\t' | ';';
+
+// Pick the delimiter that appears most often in the header line
+export const detectDelimiter = (text: string): Delimiter => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates: Delimiter[] = [',', '\t', ';'];
+  let best: Delimiter = ',';
+  let bestCount = 0;
+  candidates.forEach(d => {
+    const count = firstLine.split(d).length - 1;
+    if (count > bestCount) {
+      best = d;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+export const parseDelimited = (text: string, delimiter: Delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM that Excel likes to prepend
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  // Flush the last field/row (files without a trailing newline)
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop fully empty lines
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const escapeCell = (value: string, delimiter: Delimiter): string => {
+  if (value.includes('"') || value.includes(delimiter) || value.includes('\n') || value.includes('\r')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+export const toDelimited = (rows: Array<Array<string | number | boolean | null | undefined>>, delimiter: Delimiter = ','): string => {
+  return rows
+    .map(row => row.map(cell => escapeCell(cell == null ? '' : String(cell), delimiter)).join(delimiter))
+    .join('\r\n');
+};
@@ -0,0 +1,75 @@
+import { Person, CustomFieldDefinition, RelationshipType } from '../types';
+import { toDelimited } from './csv';
+import { customFieldText, getCustomFieldValue } from './customFields';
+import { DEFAULT_CURRENCY, getFte } from './budget';
+import { getEmploymentType, getEmploymentTypeStyle } from './employment';
+import { getDottedLineLabel } from './dottedLines';
+import { getRootPeople, buildChildrenMap, computeEffectiveTiers, computeDepths, getDescendantIds, getManagerChain } from './hierarchy';
+
+const CHAIN_SEPARATOR = ' > ';
+
+// Spreadsheet-friendly export of the people list with derived hierarchy columns.
+// `onlyIds` limits the rows (e.g. to the active filter) while the derived columns
+// are still computed from the whole chart. Custom fields follow the built-in ones.
+export const buildPeopleCsv = (
+  people: Person[],
+  onlyIds?: Set<string>,
+  customFields: CustomFieldDefinition[] = [],
+  relationshipTypes: RelationshipType[] = []
+): string => {
+  const byId = new Map(people.map(p => [p.id, p]));
+  const childrenOf = buildChildrenMap(people);
+  const tiers = computeEffectiveTiers(people, getRootPeople(people));
+  const depths = computeDepths(people);
+  const nameOf = (id: string) => byId.get(id)?.name || '';
+  const typeName = (typeId: string) => relationshipTypes.find(t => t.id === typeId)?.name || typeId;
+
+  const header = [
+    'ID', 'Name', 'Title', 'Department', 'Location', 'Email', 'Phone',
+    'Team', 'Team Lead', 'Vacancy', 'Employment Type', 'Salary Min', 'Salary Max', 'Currency', 'FTE',
+    ...customFields.map(f => f.label),
+    'Manager ID', 'Manager', 'Secondary Managers', 'Supports', 'Relationships',
+    'Effective Tier', 'Depth', 'Direct Reports', 'Total Descendants', 'Reporting Chain'
+  ];
+
+  const rows = people.filter(p => !onlyIds || onlyIds.has(p.id)).map(p => {
+    const manager = p.managerId ? byId.get(p.managerId) : undefined;
+    const chain = [...getManagerChain(p.id, people, byId), p].map(m => m.name).join(CHAIN_SEPARATOR);
+    return [
+      p.id,
+      p.name,
+      p.title,
+      p.department,
+      p.location,
+      p.email,
+      p.phone,
+      p.teamName,
+      p.isTeamLead ? 'Yes' : 'No',
+      p.isVacancy ? 'Yes' : 'No',
+      getEmploymentTypeStyle(getEmploymentType(p)).label,
+      p.salaryMin,
+      p.salaryMax,
+      p.salaryMin !== undefined || p.salaryMax !== undefined ? p.currency || DEFAULT_CURRENCY : '',
+      getFte(p),
+      ...customFields.map(f => customFieldText(f, getCustomFieldValue(p, f))),
+      manager?.id,
+      manager?.name,
+      (p.secondaryManagerIds || []).filter(id => byId.has(id)).map(id => {
+        const label = getDottedLineLabel(p, id);
+        return label ? `${nameOf(id)} (${label})` : nameOf(id);
+      }).join('; '),
+      (p.supportedIds || []).map(nameOf).filter(Boolean).join('; '),
+      (p.relationships || []).filter(r => byId.has(r.toId)).map(r => {
+        const dates = r.startDate || r.endDate ? ` [${r.startDate || '…'} – ${r.endDate || '…'}]` : '';
+        return `${r.label || typeName(r.typeId)}: ${nameOf(r.toId)}${dates}`;
+      }).join('; '),
+      tiers.get(p.id),
+      depths.get(p.id),
+      (childrenOf.get(p.id) || []).length,
+      getDescendantIds(p.id, people, childrenOf).length,
+      chain
+    ];
+  });
+
+  return toDelimited([header, ...rows]);
+};
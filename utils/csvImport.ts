@@ -0,0 +1,263 @@
+import { Person, CustomFieldDefinition } from '../types';
+import { parseCustomFieldValue, setCustomFieldValue } from './customFields';
+import { parseAmount, parseFte } from './budget';
+import { parseEmploymentType } from './employment';
+
+// Person fields a spreadsheet column can be mapped onto.
+// Manager can be identified by id, name or email - whichever the export has.
+export type ImportField =
+  | 'id'
+  | 'name'
+  | 'title'
+  | 'department'
+  | 'location'
+  | 'managerId'
+  | 'managerName'
+  | 'managerEmail'
+  | 'email'
+  | 'phone'
+  | 'teamName'
+  | 'isVacancy'
+  | 'employmentType'
+  | 'salaryMin'
+  | 'salaryMax'
+  | 'currency'
+  | 'fte';
+
+// Field → column index in the parsed rows
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+// Custom field id → column index
+export type CustomColumnMapping = Record<string, number>;
+
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string; aliases: string[] }> = [
+  { field: 'id', label: 'Employee ID', aliases: ['id', 'employeeid', 'empid', 'personid', 'staffid', 'employeenumber'] },
+  { field: 'name', label: 'Full Name', aliases: ['name', 'fullname', 'employeename', 'employee', 'displayname'] },
+  { field: 'title', label: 'Job Title', aliases: ['title', 'jobtitle', 'position', 'role', 'designation'] },
+  { field: 'department', label: 'Department', aliases: ['department', 'dept', 'division', 'function'] },
+  { field: 'location', label: 'Location', aliases: ['location', 'country', 'office', 'site', 'city'] },
+  { field: 'managerId', label: 'Manager ID', aliases: ['managerid', 'reportstoid', 'supervisorid', 'linemanagerid'] },
+  { field: 'managerName', label: 'Manager Name', aliases: ['manager', 'managername', 'reportsto', 'supervisor', 'linemanager', 'supervisorname'] },
+  { field: 'managerEmail', label: 'Manager Email', aliases: ['manageremail', 'supervisoremail', 'reportstoemail', 'linemanageremail'] },
+  { field: 'email', label: 'Email', aliases: ['email', 'emailaddress', 'workemail', 'mail'] },
+  { field: 'phone', label: 'Phone', aliases: ['phone', 'phonenumber', 'telephone', 'mobile', 'tel'] },
+  { field: 'teamName', label: 'Team', aliases: ['team', 'teamname', 'subteam', 'squad'] },
+  { field: 'isVacancy', label: 'Vacancy', aliases: ['vacancy', 'isvacancy', 'vacant', 'open', 'openrole'] },
+  { field: 'employmentType', label: 'Employment Type', aliases: ['employmenttype', 'employment', 'workertype', 'contracttype', 'employeetype', 'type'] },
+  { field: 'salaryMin', label: 'Salary Min', aliases: ['salarymin', 'minsalary', 'salaryfrom', 'bandmin', 'salary', 'basesalary'] },
+  { field: 'salaryMax', label: 'Salary Max', aliases: ['salarymax', 'maxsalary', 'salaryto', 'bandmax'] },
+  { field: 'currency', label: 'Currency', aliases: ['currency', 'salarycurrency', 'ccy'] },
+  { field: 'fte', label: 'FTE', aliases: ['fte', 'ftefraction', 'fulltimeequivalent'] },
+];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Best-effort guess of the mapping from header names
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  const normalized = headers.map(normalizeHeader);
+
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const index = normalized.findIndex((h, i) => !used.has(i) && aliases.includes(h));
+    if (index !== -1) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+
+  return mapping;
+};
+
+// Custom fields are matched on their label, among the columns the built-in fields left over
+export const guessCustomColumnMapping = (headers: string[], customFields: CustomFieldDefinition[], mapping: ColumnMapping): CustomColumnMapping => {
+  const result: CustomColumnMapping = {};
+  const used = new Set(Object.values(mapping));
+  const normalized = headers.map(normalizeHeader);
+
+  customFields.forEach(field => {
+    const index = normalized.findIndex((h, i) => !used.has(i) && h === normalizeHeader(field.label));
+    if (index !== -1) {
+      result[field.id] = index;
+      used.add(index);
+    }
+  });
+
+  return result;
+};
+
+export interface ImportIssue {
+  row: number; // 1-based line number in the source file (header = line 1)
+  name: string;
+  message: string;
+  severity: 'error' | 'warning'; // error = row skipped, warning = imported with a fallback
+}
+
+export interface ImportResult {
+  people: Person[]; // Newly created people only
+  issues: ImportIssue[];
+}
+
+const TRUTHY = new Set(['true', 'yes', 'y', '1', 'x', 'vacant', 'open']);
+
+const parseBoolean = (value: string | undefined): boolean => TRUTHY.has((value || '').trim().toLowerCase());
+
+// Build Person records from parsed rows and resolve reporting lines.
+// Managers are looked up among the imported rows first, then among `existingPeople`
+// (used when appending to the current chart).
+export const buildPeopleFromRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  existingPeople: Person[] = [],
+  defaults: { department: string; location: string },
+  custom: { fields: CustomFieldDefinition[]; mapping: CustomColumnMapping } = { fields: [], mapping: {} }
+): ImportResult => {
+  const issues: ImportIssue[] = [];
+  const cell = (row: string[], field: ImportField): string => {
+    const index = mapping[field];
+    if (index === undefined) return '';
+    return (row[index] || '').trim();
+  };
+
+  // Pass 1: create people
+  const created: Array<{ person: Person; row: string[]; line: number }> = [];
+  const takenIds = new Set(existingPeople.map(p => p.id));
+
+  rows.forEach((row, i) => {
+    const line = i + 2;
+    const isVacancy = parseBoolean(cell(row, 'isVacancy'));
+    const name = cell(row, 'name');
+
+    if (!name && !isVacancy) {
+      issues.push({ row: line, name: '(blank)', message: 'Missing name - row skipped', severity: 'error' });
+      return;
+    }
+
+    let id = cell(row, 'id');
+    if (!id || takenIds.has(id)) {
+      if (id) {
+        issues.push({ row: line, name, message: `Duplicate ID "${id}" - a new ID was generated`, severity: 'warning' });
+      }
+      id = crypto.randomUUID();
+    }
+    takenIds.add(id);
+
+    const person: Person = {
+      id,
+      name: isVacancy ? 'Vacancy' : name,
+      title: cell(row, 'title'),
+      department: cell(row, 'department') || defaults.department,
+      location: cell(row, 'location') || defaults.location,
+      managerId: null,
+      secondaryManagerIds: [],
+      isVacancy: isVacancy || undefined,
+      sortOrder: i,
+    };
+    const email = cell(row, 'email');
+    const phone = cell(row, 'phone');
+    const teamName = cell(row, 'teamName');
+    if (email) person.email = email;
+    if (phone) person.phone = phone;
+    if (teamName) person.teamName = teamName;
+
+    const typeText = cell(row, 'employmentType');
+    if (typeText) {
+      const type = parseEmploymentType(typeText);
+      if (!type) issues.push({ row: line, name: person.name, message: `Employment type "${typeText}" not recognised - left as employee`, severity: 'warning' });
+      else if (type !== 'employee') person.employmentType = type;
+    }
+
+    (['salaryMin', 'salaryMax'] as const).forEach(field => {
+      const text = cell(row, field);
+      if (!text) return;
+      const amount = parseAmount(text);
+      if (amount === null) issues.push({ row: line, name: person.name, message: `Salary "${text}" is not an amount - left empty`, severity: 'warning' });
+      else person[field] = amount;
+    });
+    const currency = cell(row, 'currency');
+    if (currency) person.currency = currency.toUpperCase();
+    const fteText = cell(row, 'fte');
+    if (fteText) {
+      const fte = parseFte(fteText);
+      if (fte === null) issues.push({ row: line, name: person.name, message: `FTE "${fteText}" must be above 0 and at most 1 - left as full time`, severity: 'warning' });
+      else if (fte !== 1) person.fte = fte;
+    }
+
+    let withCustomFields = person;
+    custom.fields.forEach(field => {
+      const index = custom.mapping[field.id];
+      if (index === undefined) return;
+      const { value, error } = parseCustomFieldValue(field, row[index] || '');
+      if (error) issues.push({ row: line, name: person.name, message: `${field.label}: ${error} - left empty`, severity: 'warning' });
+      else withCustomFields = setCustomFieldValue(withCustomFields, field.id, value);
+    });
+
+    created.push({ person: withCustomFields, row, line });
+  });
+
+  // Lookups across imported + existing people
+  const candidates = [...created.map(c => c.person), ...existingPeople];
+  const sourceIds = new Map<string, Person>();
+  created.forEach(({ person, row }) => {
+    const sourceId = cell(row, 'id');
+    if (sourceId && !sourceIds.has(sourceId)) sourceIds.set(sourceId, person);
+  });
+  const findBy = (predicate: (p: Person) => boolean) => candidates.filter(predicate);
+
+  // Pass 2: resolve managers
+  created.forEach(({ person, row, line }) => {
+    const mgrId = cell(row, 'managerId');
+    const mgrEmail = cell(row, 'managerEmail').toLowerCase();
+    const mgrName = cell(row, 'managerName').toLowerCase();
+    if (!mgrId && !mgrEmail && !mgrName) return;
+
+    let manager: Person | undefined;
+    let reason = '';
+
+    if (mgrId) {
+      manager = sourceIds.get(mgrId) || existingPeople.find(p => p.id === mgrId);
+      if (!manager) reason = `manager ID "${mgrId}" not found`;
+    }
+    if (!manager && mgrEmail) {
+      const matches = findBy(p => (p.email || '').toLowerCase() === mgrEmail);
+      if (matches.length === 1) manager = matches[0];
+      else reason = matches.length > 1 ? `manager email "${mgrEmail}" is ambiguous` : `manager email "${mgrEmail}" not found`;
+    }
+    if (!manager && mgrName) {
+      const matches = findBy(p => !p.isVacancy && p.name.toLowerCase() === mgrName);
+      if (matches.length === 1) manager = matches[0];
+      else reason = matches.length > 1 ? `manager name "${mgrName}" matches ${matches.length} people` : `manager "${mgrName}" not found`;
+    }
+
+    if (manager && manager.id === person.id) {
+      manager = undefined;
+      reason = 'row lists itself as its own manager';
+    }
+
+    if (manager) {
+      person.managerId = manager.id;
+    } else {
+      issues.push({ row: line, name: person.name, message: `Unresolved manager: ${reason} - imported as a top-level person`, severity: 'warning' });
+    }
+  });
+
+  // Pass 3: break reporting cycles so the tree always has a root
+  const byId = new Map(candidates.map(p => [p.id, p]));
+  created.forEach(({ person, line }) => {
+    const seen = new Set<string>([person.id]);
+    let current = person.managerId ? byId.get(person.managerId) : undefined;
+    while (current) {
+      if (current.id === person.id) {
+        issues.push({ row: line, name: person.name, message: 'Reporting cycle detected - manager cleared', severity: 'warning' });
+        person.managerId = null;
+        break;
+      }
+      // Cycle further up the chain - cleared when that member is visited
+      if (seen.has(current.id)) break;
+      seen.add(current.id);
+      current = current.managerId ? byId.get(current.managerId) : undefined;
+    }
+  });
+
+  return { people: created.map(c => c.person), issues };
+};
@@ -0,0 +1,104 @@
+import { Person, CustomFieldDefinition, CustomFieldType, CustomFieldValue } from '../types';
+import { isIsoDate } from './effectiveDating';
+
+// Admin-defined person fields. Definitions live in AppState (`customFields`); each person
+// keeps its values in `person.customFields`, keyed by definition id.
+
+export const CUSTOM_FIELD_TYPES: Array<{ type: CustomFieldType; label: string }> = [
+  { type: 'text', label: 'Text' },
+  { type: 'number', label: 'Number' },
+  { type: 'date', label: 'Date' },
+  { type: 'enum', label: 'Choice' },
+  { type: 'boolean', label: 'Yes / No' },
+  { type: 'url', label: 'Link' },
+];
+
+const TRUE_WORDS = new Set(['true', 'yes', 'y', '1', 'x']);
+const FALSE_WORDS = new Set(['false', 'no', 'n', '0', '']);
+
+export const createCustomField = (label: string, type: CustomFieldType, options: string[] = []): CustomFieldDefinition => ({
+  id: crypto.randomUUID(),
+  label,
+  type,
+  ...(type === 'enum' ? { options } : {}),
+});
+
+export const getCustomFieldValue = (person: Person, field: CustomFieldDefinition): CustomFieldValue | undefined =>
+  person.customFields?.[field.id];
+
+/** Plain text of a value, as used in search, filters and CSV export ('' when not set) */
+export const customFieldText = (field: CustomFieldDefinition, value: CustomFieldValue | undefined): string => {
+  if (field.type === 'boolean') return value === true ? 'Yes' : 'No';
+  if (value === undefined || value === '') return '';
+  return String(value);
+};
+
+/** Whether a stored value fits the field type (enum values outside the options are allowed) */
+export const isValidCustomFieldValue = (field: CustomFieldDefinition, value: unknown): boolean => {
+  switch (field.type) {
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'date': return isIsoDate(value);
+    default: return typeof value === 'string';
+  }
+};
+
+/**
+ * Reads a value typed into a spreadsheet cell. Empty cells give no value; cells that
+ * don't fit the type give an error message instead.
+ */
+export const parseCustomFieldValue = (field: CustomFieldDefinition, raw: string): { value?: CustomFieldValue; error?: string } => {
+  const text = raw.trim();
+  if (field.type === 'boolean') {
+    const word = text.toLowerCase();
+    if (TRUE_WORDS.has(word)) return { value: true };
+    if (FALSE_WORDS.has(word)) return {};
+    return { error: `"${text}" is not yes or no` };
+  }
+  if (!text) return {};
+
+  switch (field.type) {
+    case 'number': {
+      const number = Number(text.replace(/,/g, ''));
+      return Number.isFinite(number) ? { value: number } : { error: `"${text}" is not a number` };
+    }
+    case 'date': {
+      if (isIsoDate(text)) return { value: text };
+      const parsed = new Date(text);
+      if (Number.isNaN(parsed.getTime())) return { error: `"${text}" is not a date` };
+      const pad = (n: number) => String(n).padStart(2, '0');
+      return { value: `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}` };
+    }
+    case 'enum': {
+      const option = (field.options || []).find(o => o.toLowerCase() === text.toLowerCase());
+      return option ? { value: option } : { error: `"${text}" is not one of the choices` };
+    }
+    default:
+      return { value: text };
+  }
+};
+
+/** Sets (or with undefined, clears) one custom field value */
+export const setCustomFieldValue = (person: Person, fieldId: string, value: CustomFieldValue | undefined): Person => {
+  const values = { ...(person.customFields || {}) };
+  if (value === undefined || value === '' || value === false) delete values[fieldId];
+  else values[fieldId] = value;
+  const result: Person = { ...person, customFields: values };
+  if (Object.keys(values).length === 0) delete result.customFields;
+  return result;
+};
+
+/** Drops a deleted field's values from everyone */
+export const removeCustomFieldValues = (people: Person[], fieldId: string): Person[] =>
+  people.map(p => p.customFields && fieldId in p.customFields ? setCustomFieldValue(p, fieldId, undefined) : p);
+
+/** Distinct values of a field across people, for filter chips (choices keep their defined order) */
+export const getCustomFieldOptions = (people: Person[], field: CustomFieldDefinition): string[] => {
+  if (field.type === 'boolean') return ['Yes', 'No'];
+  const present = new Set(people.map(p => customFieldText(field, getCustomFieldValue(p, field))).filter(Boolean));
+  if (field.type === 'enum') {
+    const defined = field.options || [];
+    return [...defined.filter(o => present.has(o)), ...[...present].filter(v => !defined.includes(v)).sort()];
+  }
+  return [...present].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+};
@@ -0,0 +1,60 @@
+import { Person } from '../types';
+
+// Dotted-line (secondary) managers. A person may have several; each relationship can carry a
+// label such as "functional" or "project", kept in `secondaryManagerLabels` by manager id.
+// Relationship types are the distinct labels; unlabelled links form their own type.
+
+export const COMMON_DOTTED_LINE_LABELS = ['functional', 'project', 'matrix', 'interim', 'regional'];
+
+/** Key of the relationship type of an unlabelled dotted line */
+export const UNLABELLED_TYPE = '';
+
+export interface DottedLineManager {
+  manager: Person;
+  label: string; // '' when unlabelled
+}
+
+export const getDottedLineLabel = (person: Person, managerId: string): string =>
+  person.secondaryManagerLabels?.[managerId]?.trim() || '';
+
+/** Types are compared case-insensitively */
+export const dottedLineTypeKey = (label: string): string => label.trim().toLowerCase();
+
+export const formatDottedLineType = (label: string): string => label.trim() || 'Unlabelled';
+
+/** Whether a relationship type is switched off in the line settings */
+export const isDottedLineTypeHidden = (label: string, hiddenTypes: string[] = []): boolean =>
+  hiddenTypes.includes(dottedLineTypeKey(label));
+
+/** Every dotted-line manager of a person that exists and whose type is shown, in stored order */
+export const getDottedLineManagers = (
+  person: Person,
+  byId: Map<string, Person>,
+  hiddenTypes: string[] = []
+): DottedLineManager[] =>
+  (person.secondaryManagerIds || []).flatMap(id => {
+    const manager = byId.get(id);
+    const label = getDottedLineLabel(person, id);
+    return manager && !isDottedLineTypeHidden(label, hiddenTypes) ? [{ manager, label }] : [];
+  });
+
+/** Relationship types in use (first spelling wins), unlabelled last */
+export const getDottedLineTypes = (people: Person[]): string[] => {
+  const types = new Map<string, string>();
+  people.forEach(p => (p.secondaryManagerIds || []).forEach(id => {
+    const label = getDottedLineLabel(p, id);
+    if (!types.has(dottedLineTypeKey(label))) types.set(dottedLineTypeKey(label), label);
+  }));
+  return Array.from(types.values()).sort((a, b) => (a ? 0 : 1) - (b ? 0 : 1) || a.localeCompare(b));
+};
+
+/** Sets the dotted-line managers of a person; labels of removed managers are dropped */
+export const setDottedLineManagers = (person: Person, managers: Array<{ id: string; label: string }>): Person => {
+  const labels: Record<string, string> = {};
+  managers.forEach(({ id, label }) => { if (label.trim()) labels[id] = label.trim(); });
+  return {
+    ...person,
+    secondaryManagerIds: managers.map(m => m.id),
+    secondaryManagerLabels: Object.keys(labels).length > 0 ? labels : undefined,
+  };
+};
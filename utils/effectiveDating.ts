@@ -0,0 +1,256 @@
+import { DatingField, Person, ScheduledChange, ScheduledField } from '../types';
+import { personFieldsChanged } from './chartDiff';
+import { deletePeople, ReportHandling } from './hierarchy';
+
+// Effective dating: people can have a start date, a last day and scheduled changes
+// (moves, retitles, ...) that take effect on a future date. The stored records are
+// "now"; the chart for any date is derived from them with getPeopleAsOf.
+//
+// Dates are ISO calendar dates (yyyy-mm-dd), so they compare as plain strings.
+
+// Set directly on the stored record, never scheduled
+const DATING_FIELDS: DatingField[] = ['startDate', 'endDate', 'scheduledChanges'];
+
+const isDatingField = (field: keyof Person): field is DatingField => (DATING_FIELDS as Array<keyof Person>).includes(field);
+
+export type TimelineEventKind = 'joins' | 'leaves' | 'changes';
+
+export interface TimelineEvent {
+  date: string;
+  kind: TimelineEventKind;
+  person: Person;
+  change?: ScheduledChange;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Today's date in the local time zone */
+export const todayIso = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+export const addDays = (date: string, days: number): string => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+};
+
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+/** Short, locale-formatted date for display */
+export const formatDate = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+export const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+
+export const isEmployedOn = (person: Person, date: string): boolean =>
+  (!person.startDate || person.startDate <= date) && (!person.endDate || person.endDate >= date);
+
+const hasDating = (person: Person) => !!(person.startDate || person.endDate || person.scheduledChanges?.length);
+
+const byDate = (a: ScheduledChange, b: ScheduledChange) => a.effectiveDate.localeCompare(b.effectiveDate);
+
+const setField = <T, K extends keyof T>(target: T, key: K, value: T[K]) => {
+  target[key] = value;
+};
+
+/** The target with the given fields taken from the source (fields the source lacks are removed) */
+const copyFields = (target: Person, source: Person, fields: Array<keyof Person>): Person => {
+  const result: Person = { ...target };
+  fields.forEach(field => {
+    if (source[field] === undefined) delete result[field];
+    else setField(result, field, source[field]);
+  });
+  return result;
+};
+
+// Scheduled changes store null for "clear this field"; only managerId keeps null as a value
+const applyChanges = (person: Person, changes: ScheduledChange['changes']): Person => {
+  const result: Person = { ...person };
+  (Object.keys(changes) as ScheduledField[]).forEach(key => {
+    if (changes[key] === null && key !== 'managerId') delete result[key];
+    else setField(result, key, changes[key]);
+  });
+  return result;
+};
+
+/** The person with every change due by the date applied; only later changes stay scheduled */
+export const resolveAsOf = (person: Person, date: string): Person => {
+  const scheduled = person.scheduledChanges || [];
+  const due = scheduled.filter(c => c.effectiveDate <= date).sort(byDate);
+  if (due.length === 0) return person;
+
+  const resolved = due.reduce((p, change) => applyChanges(p, change.changes), person);
+  const pending = scheduled.filter(c => c.effectiveDate > date);
+  if (pending.length) resolved.scheduledChanges = pending;
+  else delete resolved.scheduledChanges;
+  return resolved;
+};
+
+/**
+ * The chart as it stands on the date: only people employed then, with due changes applied.
+ * Reports of someone not there (yet, or any more) move up to the nearest manager who is,
+ * and dotted lines to absent people are dropped.
+ */
+export const getPeopleAsOf = (people: Person[], date: string): Person[] => {
+  if (!people.some(hasDating)) return people;
+
+  const resolved = new Map(people.map(p => [p.id, resolveAsOf(p, date)]));
+  const present = new Set(people.filter(p => isEmployedOn(p, date)).map(p => p.id));
+
+  return people.filter(p => present.has(p.id)).map(p => {
+    const person = resolved.get(p.id)!;
+    let managerId = person.managerId;
+    const seen = new Set<string>();
+    while (managerId && !present.has(managerId) && resolved.has(managerId) && !seen.has(managerId)) {
+      seen.add(managerId);
+      managerId = resolved.get(managerId)!.managerId;
+    }
+
+    const keep = (ids?: string[]) => ids?.filter(id => present.has(id) || !resolved.has(id));
+    const secondaryManagerIds = keep(person.secondaryManagerIds);
+    const supportedIds = keep(person.supportedIds);
+    if (
+      (managerId || null) === (person.managerId || null)
+      && secondaryManagerIds?.length === person.secondaryManagerIds?.length
+      && supportedIds?.length === person.supportedIds?.length
+    ) {
+      return person;
+    }
+    return { ...person, managerId: managerId || null, secondaryManagerIds, supportedIds };
+  });
+};
+
+/** Adds a scheduled change, merged into one already planned for the same person and date */
+export const addScheduledChange = (person: Person, date: string, changes: ScheduledChange['changes']): Person => {
+  const scheduled = person.scheduledChanges || [];
+  const existing = scheduled.find(c => c.effectiveDate === date);
+  const next = existing
+    ? scheduled.map(c => c === existing ? { ...c, changes: { ...c.changes, ...changes } } : c)
+    : [...scheduled, { id: crypto.randomUUID(), effectiveDate: date, changes }].sort(byDate);
+  return { ...person, scheduledChanges: next };
+};
+
+/**
+ * Applies an edit made to the chart as of `date` back to the stored people.
+ *
+ * On or before today the edit happens now: changes that have come due are folded into the
+ * records first, then the fields the edit changed are copied onto the stored people and removed
+ * people deleted (only changed fields, as the view re-parents the reports of absent managers).
+ * For a future date the edit is scheduled instead: field changes become scheduled changes on
+ * that date, new people start on it and removed people leave the day before. Past dates are
+ * read-only and should be blocked by the caller.
+ */
+export const applyDatedEdit = (people: Person[], date: string, today: string, edit: (view: Person[]) => Person[]): Person[] => {
+  const base = date <= today ? people.map(p => resolveAsOf(p, today)) : people;
+  const before = getPeopleAsOf(base, date <= today ? today : date);
+  const after = edit(before);
+
+  const beforeById = new Map(before.map(p => [p.id, p]));
+  const afterById = new Map(after.map(p => [p.id, p]));
+  const baseIds = new Set(base.map(p => p.id));
+
+  if (date <= today) {
+    return [
+      ...base
+        .filter(p => !beforeById.has(p.id) || afterById.has(p.id))
+        .map(p => {
+          const previous = beforeById.get(p.id);
+          const edited = afterById.get(p.id);
+          if (!previous || !edited) return edited || p;
+          if (edited === previous) return p;
+          return copyFields(p, edited, personFieldsChanged(previous, edited));
+        }),
+      ...after.filter(p => !baseIds.has(p.id)),
+    ];
+  }
+
+  const updated = base.flatMap(p => {
+    const previous = beforeById.get(p.id);
+    if (!previous) return [p];
+
+    const edited = afterById.get(p.id);
+    if (!edited) {
+      // Planned hires removed before they start are dropped altogether
+      return p.startDate && p.startDate >= date ? [] : [{ ...p, endDate: addDays(date, -1) }];
+    }
+    if (edited === previous) return [p];
+
+    let result: Person = { ...p };
+    const scheduled: ScheduledChange['changes'] = {};
+    personFieldsChanged(previous, edited).forEach(field => {
+      if (field === 'scheduledChanges') {
+        // The view only shows changes after the date; earlier ones are kept as stored
+        const kept = [...(p.scheduledChanges || []).filter(c => c.effectiveDate <= date), ...(edited.scheduledChanges || [])];
+        if (kept.length) result.scheduledChanges = kept;
+        else delete result.scheduledChanges;
+      } else if (isDatingField(field)) {
+        if (edited[field] === undefined) delete result[field];
+        else setField(result, field, edited[field]);
+      } else if (field !== 'id') {
+        setField(scheduled, field, edited[field] ?? null);
+      }
+    });
+    if (Object.keys(scheduled).length) result = addScheduledChange(result, date, scheduled);
+    return [result];
+  });
+
+  const added = after
+    .filter(p => !baseIds.has(p.id))
+    .map(p => (!p.startDate || p.startDate < date ? { ...p, startDate: date } : p));
+
+  return [...updated, ...added];
+};
+
+/**
+ * Deletes people from the chart as of `date` (see applyDatedEdit). Deleting now also clears the
+ * references held by people outside the view (future hires, leavers), whom the edit can't see.
+ */
+export const deletePeopleAsOf = (people: Person[], date: string, today: string, ids: string[], handling: ReportHandling): Person[] => {
+  let removedIds: string[] = [];
+  const result = applyDatedEdit(people, date, today, view => {
+    const next = deletePeople(view, ids, handling);
+    const kept = new Set(next.map(p => p.id));
+    removedIds = view.filter(p => !kept.has(p.id)).map(p => p.id);
+    return next;
+  });
+  if (date > today || removedIds.length === 0) return result;
+
+  // The removed records go back in so their reports can still be re-parented through them
+  const removed = new Set(removedIds);
+  return deletePeople([...result, ...people.filter(p => removed.has(p.id)).map(p => resolveAsOf(p, today))], removedIds, handling);
+};
+
+/**
+ * Saves an edit of one person (made on the chart as of `viewDate`) with effect from `date`:
+ * the fields that differ from the viewed record are applied to the person as of that date.
+ */
+export const schedulePersonUpdate = (people: Person[], viewDate: string, date: string, today: string, updated: Person): Person[] => {
+  const current = getPeopleAsOf(people, viewDate).find(p => p.id === updated.id);
+  if (!current) return people;
+  const fields = personFieldsChanged(current, updated);
+  if (fields.length === 0) return people;
+
+  return applyDatedEdit(people, date, today, view => view.map(p => p.id === updated.id ? copyFields(p, updated, fields) : p));
+};
+
+/** Removes one scheduled change from a person */
+export const removeScheduledChange = (person: Person, changeId: string): Person => {
+  const scheduled = (person.scheduledChanges || []).filter(c => c.id !== changeId);
+  const result: Person = { ...person, scheduledChanges: scheduled };
+  if (scheduled.length === 0) delete result.scheduledChanges;
+  return result;
+};
+
+/** Joins, leaves (on the first day gone) and scheduled changes, in date order */
+export const getTimelineEvents = (people: Person[]): TimelineEvent[] => {
+  const events: TimelineEvent[] = [];
+  people.forEach(person => {
+    if (person.startDate) events.push({ date: person.startDate, kind: 'joins', person });
+    if (person.endDate) events.push({ date: addDays(person.endDate, 1), kind: 'leaves', person });
+    (person.scheduledChanges || []).forEach(change => events.push({ date: change.effectiveDate, kind: 'changes', person, change }));
+  });
+  return events.sort((a, b) => a.date.localeCompare(b.date));
+};
@@ -0,0 +1,60 @@
+import { Person, EmploymentType } from '../types';
+
+// Employment types and how cards mark them. Employees are the default and get no marker.
+
+export interface EmploymentTypeStyle {
+  type: EmploymentType;
+  label: string;
+  plural: string;
+  badge: string; // Classes for the card badge
+  ribbon: string; // Classes for the corner ribbon
+  borderStyle: 'solid' | 'dashed' | 'dotted' | 'double';
+  borderColor: string;
+  aliases: string[]; // Spreadsheet spellings, normalized (lower case, letters only)
+}
+
+export const EMPLOYMENT_TYPES: EmploymentTypeStyle[] = [
+  {
+    type: 'employee', label: 'Employee', plural: 'employees',
+    badge: 'bg-slate-100 text-slate-600 border border-slate-200', ribbon: 'bg-slate-500 text-white',
+    borderStyle: 'solid', borderColor: '#e2e8f0',
+    aliases: ['employee', 'permanent', 'perm', 'fulltime', 'ft', 'staff', 'regular'],
+  },
+  {
+    type: 'contractor', label: 'Contractor', plural: 'contractors',
+    badge: 'bg-amber-100 text-amber-700 border border-amber-200', ribbon: 'bg-amber-500 text-white',
+    borderStyle: 'dashed', borderColor: '#f59e0b',
+    aliases: ['contractor', 'contract', 'freelance', 'freelancer', 'consultant', 'independent'],
+  },
+  {
+    type: 'intern', label: 'Intern', plural: 'interns',
+    badge: 'bg-sky-100 text-sky-700 border border-sky-200', ribbon: 'bg-sky-500 text-white',
+    borderStyle: 'dotted', borderColor: '#0ea5e9',
+    aliases: ['intern', 'internship', 'trainee', 'apprentice', 'student', 'graduate'],
+  },
+  {
+    type: 'part-time', label: 'Part-time', plural: 'part-timers',
+    badge: 'bg-violet-100 text-violet-700 border border-violet-200', ribbon: 'bg-violet-500 text-white',
+    borderStyle: 'double', borderColor: '#8b5cf6',
+    aliases: ['parttime', 'pt', 'parttimer'],
+  },
+  {
+    type: 'agency', label: 'Agency', plural: 'agency staff',
+    badge: 'bg-rose-100 text-rose-700 border border-rose-200', ribbon: 'bg-rose-500 text-white',
+    borderStyle: 'dashed', borderColor: '#f43f5e',
+    aliases: ['agency', 'agencystaff', 'temp', 'temporary', 'outsourced', 'contingent'],
+  },
+];
+
+export const EMPLOYMENT_TYPE_NAMES = EMPLOYMENT_TYPES.map(t => t.type);
+
+export const getEmploymentType = (person: Person): EmploymentType => person.employmentType || 'employee';
+
+export const getEmploymentTypeStyle = (type: EmploymentType): EmploymentTypeStyle =>
+  EMPLOYMENT_TYPES.find(t => t.type === type) || EMPLOYMENT_TYPES[0];
+
+/** Reads a spreadsheet cell; null when it isn't a known type */
+export const parseEmploymentType = (text: string): EmploymentType | null => {
+  const normalized = text.toLowerCase().replace(/[^a-z]/g, '');
+  return EMPLOYMENT_TYPES.find(t => t.aliases.includes(normalized))?.type ?? null;
+};
@@ -0,0 +1,85 @@
+import { Person, CustomFieldDefinition } from '../types';
+import { computeEffectiveTiers, getManagerChain } from './hierarchy';
+import { customFieldText, getCustomFieldValue } from './customFields';
+
+// Attribute filters for the chart. Empty lists mean "any".
+export interface ChartFilter {
+  departments: string[];
+  locations: string[];
+  teams: string[];
+  tiers: number[];
+  vacancy: 'all' | 'filled' | 'vacant';
+  customFields: Record<string, string[]>; // Custom field id → accepted values (as text)
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  filter: ChartFilter;
+}
+
+export const EMPTY_FILTER: ChartFilter = {
+  departments: [],
+  locations: [],
+  teams: [],
+  tiers: [],
+  vacancy: 'all',
+  customFields: {},
+};
+
+export interface ChartFilterResult {
+  matchIds: Set<string>; // People matching every active criterion
+  contextIds: Set<string>; // Managers kept (faded) so matches stay connected to the tree
+}
+
+const countCustomFieldCriteria = (filter: ChartFilter): number =>
+  Object.values(filter.customFields).reduce((sum, values) => sum + values.length, 0);
+
+export const isFilterActive = (filter: ChartFilter): boolean =>
+  filter.departments.length > 0 ||
+  filter.locations.length > 0 ||
+  filter.teams.length > 0 ||
+  filter.tiers.length > 0 ||
+  filter.vacancy !== 'all' ||
+  countCustomFieldCriteria(filter) > 0;
+
+export const countActiveCriteria = (filter: ChartFilter): number =>
+  filter.departments.length + filter.locations.length + filter.teams.length + filter.tiers.length +
+  (filter.vacancy !== 'all' ? 1 : 0) + countCustomFieldCriteria(filter);
+
+// Fill in fields missing from filters saved by older versions
+export const normalizeFilter = (filter: Partial<ChartFilter> | null | undefined): ChartFilter => ({
+  ...EMPTY_FILTER,
+  ...(filter || {}),
+});
+
+const matchesFilter = (person: Person, filter: ChartFilter, tiers: Map<string, number>, customFields: CustomFieldDefinition[]): boolean => {
+  if (filter.departments.length > 0 && !filter.departments.includes(person.department || 'Other')) return false;
+  if (filter.locations.length > 0 && !filter.locations.includes(person.location || '')) return false;
+  if (filter.teams.length > 0 && !filter.teams.includes(person.teamName || '')) return false;
+  if (filter.tiers.length > 0 && !filter.tiers.includes(tiers.get(person.id) ?? 0)) return false;
+  if (filter.vacancy === 'vacant' && !person.isVacancy) return false;
+  if (filter.vacancy === 'filled' && person.isVacancy) return false;
+  for (const field of customFields) {
+    const accepted = filter.customFields[field.id];
+    if (accepted?.length && !accepted.includes(customFieldText(field, getCustomFieldValue(person, field)))) return false;
+  }
+  return true;
+};
+
+// null when no filter is active (everyone shown)
+export const applyChartFilter = (people: Person[], filter: ChartFilter, customFields: CustomFieldDefinition[] = []): ChartFilterResult | null => {
+  if (!isFilterActive(filter)) return null;
+
+  const tiers = computeEffectiveTiers(people);
+  const byId = new Map(people.map(p => [p.id, p]));
+  const matchIds = new Set(people.filter(p => matchesFilter(p, filter, tiers, customFields)).map(p => p.id));
+  const contextIds = new Set<string>();
+  matchIds.forEach(id => {
+    getManagerChain(id, people, byId).forEach(m => {
+      if (!matchIds.has(m.id)) contextIds.add(m.id);
+    });
+  });
+
+  return { matchIds, contextIds };
+};
@@ -0,0 +1,267 @@
+import { Person } from '../types';
+
+// Shared hierarchy helpers used by the chart and by exports,
+// so derived values (tiers, depth, chains) are always computed the same way.
+
+// Root people: no manager, or a manager that no longer exists
+export const getRootPeople = (people: Person[]): Person[] => {
+  const ids = new Set(people.map(p => p.id));
+  return people.filter(p => !p.managerId || !ids.has(p.managerId));
+};
+
+// managerId → direct reports (unsorted)
+export const buildChildrenMap = (people: Person[]): Map<string, Person[]> => {
+  const childrenOf = new Map<string, Person[]>();
+  people.forEach(p => {
+    if (p.managerId) {
+      if (!childrenOf.has(p.managerId)) childrenOf.set(p.managerId, []);
+      childrenOf.get(p.managerId)!.push(p);
+    }
+  });
+  return childrenOf;
+};
+
+// Compute effective tier (absolute depth from root) for each person
+// Auto-assign: tier = hierarchy depth (CEO=0, direct reports=1, etc.)
+// Manual override: if person.tier is set, use it (but enforce child > parent)
+export const computeEffectiveTiers = (people: Person[], rootPeople: Person[] = getRootPeople(people)): Map<string, number> => {
+  const tiers = new Map<string, number>();
+  const visited = new Set<string>();
+  const queue: Array<{ id: string; depth: number }> = [];
+  const childrenOf = buildChildrenMap(people);
+
+  // Seed: root people always start at tier 0 (Executive)
+  // unless manually overridden
+  rootPeople.forEach(p => {
+    const tier = (p.tier != null) ? p.tier : 0;
+    tiers.set(p.id, tier);
+    visited.add(p.id);
+    queue.push({ id: p.id, depth: 0 });
+  });
+
+  // BFS traversal - auto-assign based on depth, respect overrides
+  while (queue.length > 0) {
+    const { id, depth } = queue.shift()!;
+    const parentTier = tiers.get(id)!;
+    const children = childrenOf.get(id) || [];
+    children.forEach(child => {
+      if (visited.has(child.id)) return; // cycle protection
+      const naturalTier = parentTier + 1; // auto: one below parent
+      const desired = (child.tier != null) ? child.tier : naturalTier;
+      // Enforce: child must be at least parentTier + 1
+      const effective = Math.max(desired, parentTier + 1);
+      tiers.set(child.id, effective);
+      visited.add(child.id);
+      queue.push({ id: child.id, depth: depth + 1 });
+    });
+  }
+
+  // Orphans: people not reached by BFS
+  people.forEach(p => {
+    if (!visited.has(p.id)) {
+      tiers.set(p.id, (p.tier != null) ? p.tier : 0);
+    }
+  });
+
+  return tiers;
+};
+
+// Hierarchy depth (root = 0), ignoring manual tier overrides.
+// People stuck in a reporting cycle are not reachable from a root and are omitted.
+export const computeDepths = (people: Person[]): Map<string, number> => {
+  const depths = new Map<string, number>();
+  const childrenOf = buildChildrenMap(people);
+  const queue = getRootPeople(people).map(p => ({ id: p.id, depth: 0 }));
+  queue.forEach(({ id }) => depths.set(id, 0));
+
+  while (queue.length > 0) {
+    const { id, depth } = queue.shift()!;
+    (childrenOf.get(id) || []).forEach(child => {
+      if (depths.has(child.id)) return;
+      depths.set(child.id, depth + 1);
+      queue.push({ id: child.id, depth: depth + 1 });
+    });
+  }
+  return depths;
+};
+
+// All descendants of a person (depth-first, cycle safe)
+export const getDescendantIds = (parentId: string, people: Person[], childrenOf: Map<string, Person[]> = buildChildrenMap(people)): string[] => {
+  const result: string[] = [];
+  const seen = new Set<string>([parentId]);
+  const walk = (id: string) => {
+    (childrenOf.get(id) || []).forEach(child => {
+      if (seen.has(child.id)) return;
+      seen.add(child.id);
+      result.push(child.id);
+      walk(child.id);
+    });
+  };
+  walk(parentId);
+  return result;
+};
+
+// Managers above a person, ordered from the top of the chain down to the direct manager
+export const getManagerChain = (personId: string, people: Person[], byId: Map<string, Person> = new Map(people.map(p => [p.id, p]))): Person[] => {
+  const chain: Person[] = [];
+  const seen = new Set<string>([personId]);
+  let current = byId.get(personId);
+  while (current?.managerId) {
+    const manager = byId.get(current.managerId);
+    if (!manager || seen.has(manager.id)) break;
+    seen.add(manager.id);
+    chain.unshift(manager);
+    current = manager;
+  }
+  return chain;
+};
+
+// A person plus everyone below them, optionally with their managers above as context.
+// The topmost person becomes a root and references to people outside the branch are
+// dropped so the result stands on its own (e.g. when saved and re-imported).
+export const extractBranch = (personId: string, people: Person[], includeManagerChain = false): Person[] => {
+  const chain = includeManagerChain ? getManagerChain(personId, people) : [];
+  const ids = new Set<string>([...chain.map(p => p.id), personId, ...getDescendantIds(personId, people)]);
+  const topId = chain.length > 0 ? chain[0].id : personId;
+
+  return people
+    .filter(p => ids.has(p.id))
+    .map(p => ({
+      ...p,
+      managerId: p.id === topId ? null : p.managerId,
+      secondaryManagerIds: (p.secondaryManagerIds || []).filter(id => ids.has(id)),
+      supportedIds: p.supportedIds ? p.supportedIds.filter(id => ids.has(id)) : p.supportedIds,
+      relationships: p.relationships ? p.relationships.filter(r => ids.has(r.toId)) : p.relationships,
+    }));
+};
+
+// Number of people below each person (all levels), cycle safe
+export const computeDescendantCounts = (people: Person[]): Map<string, number> => {
+  const childrenOf = buildChildrenMap(people);
+  const counts = new Map<string, number>();
+  people.forEach(p => counts.set(p.id, getDescendantIds(p.id, people, childrenOf).length));
+  return counts;
+};
+
+// Everyone hidden below the given collapsed people
+export const getHiddenDescendantIds = (collapsedIds: Iterable<string>, people: Person[]): Set<string> => {
+  const childrenOf = buildChildrenMap(people);
+  const hidden = new Set<string>();
+  for (const id of collapsedIds) {
+    if (hidden.has(id)) continue; // already inside a collapsed branch
+    getDescendantIds(id, people, childrenOf).forEach(d => hidden.add(d));
+  }
+  return hidden;
+};
+
+// Reporting context around one person: their manager chain up to the root, peers,
+// everyone below them, dotted-line managers and the people they support.
+export const getFocusNeighbourhood = (personId: string, people: Person[]): Set<string> => {
+  const person = people.find(p => p.id === personId);
+  if (!person) return new Set();
+
+  const ids = new Set<string>([personId]);
+  getManagerChain(personId, people).forEach(m => ids.add(m.id));
+  getDescendantIds(personId, people).forEach(id => ids.add(id));
+
+  // Peers share the same manager (other roots when the person is a root)
+  const existing = new Set(people.map(p => p.id));
+  const managerId = person.managerId && existing.has(person.managerId) ? person.managerId : null;
+  people.forEach(p => {
+    const pManagerId = p.managerId && existing.has(p.managerId) ? p.managerId : null;
+    if (pManagerId === managerId) ids.add(p.id);
+  });
+
+  (person.secondaryManagerIds || []).forEach(id => { if (existing.has(id)) ids.add(id); });
+  (person.supportedIds || []).forEach(id => { if (existing.has(id)) ids.add(id); });
+  return ids;
+};
+
+// How people are deleted and what happens to their direct reports
+export type ReportHandling =
+  | { mode: 'promote' } // Reports move to the nearest remaining manager above
+  | { mode: 'reassign'; managerId: string } // Reports move to a chosen person
+  | { mode: 'vacancy' } // The role stays as an open position, reports are untouched
+  | { mode: 'cascade' }; // Everyone below is deleted too
+
+// Direct reports of the removed people who are not removed themselves
+export const getOrphanedReports = (removedIds: Set<string>, people: Person[]): Person[] =>
+  people.filter(p => p.managerId && removedIds.has(p.managerId) && !removedIds.has(p.id));
+
+// Fields of a person (or of a scheduled change) that point at other people
+type ReferenceFields = Partial<Pick<Person, 'managerId' | 'secondaryManagerIds' | 'secondaryManagerLabels' | 'supportedIds' | 'relationships'>>;
+
+// Remove people, re-parent their reports and drop every reference to the removed ids,
+// including those in scheduled changes (a scheduled move to a removed manager goes to the replacement)
+export const removePeople = (people: Person[], removedIds: Set<string>, handling: Extract<ReportHandling, { mode: 'promote' | 'reassign' }>): Person[] => {
+  const byId = new Map(people.map(p => [p.id, p]));
+
+  const newManagerFor = (removedManagerId: string, personId: string): string | null => {
+    if (handling.mode === 'reassign') return handling.managerId;
+    const seen = new Set<string>([personId]);
+    let managerId: string | null = removedManagerId;
+    while (managerId && removedIds.has(managerId) && !seen.has(managerId)) {
+      seen.add(managerId);
+      managerId = byId.get(managerId)?.managerId || null;
+    }
+    return managerId && !removedIds.has(managerId) ? managerId : null;
+  };
+
+  const isStale = (fields: ReferenceFields): boolean =>
+    (!!fields.managerId && removedIds.has(fields.managerId))
+    || [...(fields.secondaryManagerIds || []), ...Object.keys(fields.secondaryManagerLabels || {}), ...(fields.supportedIds || [])]
+      .some(id => removedIds.has(id))
+    || !!fields.relationships?.some(r => removedIds.has(r.toId));
+
+  // Only the reference fields present in `fields`, cleaned
+  const withoutRemoved = (fields: ReferenceFields, personId: string): ReferenceFields => {
+    const result: ReferenceFields = {};
+    if (fields.managerId && removedIds.has(fields.managerId)) result.managerId = newManagerFor(fields.managerId, personId);
+    if (fields.secondaryManagerIds) result.secondaryManagerIds = fields.secondaryManagerIds.filter(id => !removedIds.has(id));
+    if (fields.secondaryManagerLabels) {
+      const labels = Object.entries(fields.secondaryManagerLabels).filter(([id]) => !removedIds.has(id));
+      result.secondaryManagerLabels = labels.length > 0 ? Object.fromEntries(labels) : undefined;
+    }
+    if (fields.supportedIds) result.supportedIds = fields.supportedIds.filter(id => !removedIds.has(id));
+    if (fields.relationships) result.relationships = fields.relationships.filter(r => !removedIds.has(r.toId));
+    return result;
+  };
+
+  return people
+    .filter(p => !removedIds.has(p.id))
+    .map(p => {
+      const staleScheduled = p.scheduledChanges?.some(c => isStale(c.changes));
+      if (!isStale(p) && !staleScheduled) return p;
+      return {
+        ...p,
+        ...withoutRemoved(p, p.id),
+        scheduledChanges: staleScheduled
+          ? p.scheduledChanges!.map(c => isStale(c.changes) ? { ...c, changes: { ...c.changes, ...withoutRemoved(c.changes, p.id) } } : c)
+          : p.scheduledChanges,
+      };
+    });
+};
+
+// Turn a filled role into an open position, keeping its place in the chart
+export const toVacancy = (person: Person): Person => ({
+  ...person,
+  isVacancy: true,
+  name: 'Vacancy',
+  email: undefined,
+  phone: undefined,
+  photoUrl: undefined,
+});
+
+export const deletePeople = (people: Person[], ids: string[], handling: ReportHandling): Person[] => {
+  if (handling.mode === 'vacancy') {
+    const vacated = new Set(ids);
+    return people.map(p => vacated.has(p.id) ? toVacancy(p) : p);
+  }
+  if (handling.mode === 'cascade') {
+    const childrenOf = buildChildrenMap(people);
+    const removed = new Set(ids);
+    ids.forEach(id => getDescendantIds(id, people, childrenOf).forEach(d => removed.add(d)));
+    return removePeople(people, removed, { mode: 'promote' });
+  }
+  return removePeople(people, new Set(ids), handling);
+};
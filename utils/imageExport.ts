@@ -0,0 +1,62 @@
+import { toPng } from 'html-to-image';
+
+// Rasterise #chart-content to a PNG data URL.
+// Temporarily lifts the lines SVG and team backgrounds out of their negative/stacked
+// z-index so html-to-image captures them in the right order.
+export const captureChartPng = async (element: HTMLElement, pixelRatio = 2): Promise<string> => {
+  // Find the SVG lines element and temporarily adjust for export
+  const svgElement = element.querySelector('svg');
+  const originalSvgStyles: { zIndex?: string; position?: string; opacity?: string } = {};
+  
+  if (svgElement) {
+    // Store original styles
+    originalSvgStyles.zIndex = svgElement.style.zIndex;
+    originalSvgStyles.position = svgElement.style.position;
+    originalSvgStyles.opacity = svgElement.style.opacity;
+    
+    // Ensure SVG is visible and properly positioned for capture
+    svgElement.style.zIndex = '5';
+    svgElement.style.position = 'absolute';
+    svgElement.style.opacity = '1';
+  }
+
+  // Find all team background elements with negative z-index and temporarily fix them
+  const teamBackgrounds = element.querySelectorAll('[data-team-bg]') as NodeListOf<HTMLElement>;
+  const originalBgStyles: { el: HTMLElement; zIndex: string }[] = [];
+  
+  teamBackgrounds.forEach((bg) => {
+    originalBgStyles.push({ el: bg, zIndex: bg.style.zIndex });
+    bg.style.zIndex = '1'; // Move to positive z-index for export
+  });
+
+  try {
+    // Use html-to-image with proper SVG handling
+    return await toPng(element, { 
+      backgroundColor: '#f8fafc', 
+      quality: 1.0, 
+      pixelRatio,
+      cacheBust: true,
+      includeQueryParams: true,
+      skipFonts: false,
+      filter: () => {
+        // Include all nodes, especially SVG
+        return true;
+      },
+      style: {
+        overflow: 'visible'
+      }
+    });
+  } finally {
+    // Restore original styles
+    if (svgElement) {
+      if (originalSvgStyles.zIndex !== undefined) svgElement.style.zIndex = originalSvgStyles.zIndex;
+      if (originalSvgStyles.position !== undefined) svgElement.style.position = originalSvgStyles.position;
+      if (originalSvgStyles.opacity !== undefined) svgElement.style.opacity = originalSvgStyles.opacity;
+    }
+    
+    // Restore team background z-index
+    originalBgStyles.forEach(({ el, zIndex }) => {
+      el.style.zIndex = zIndex;
+    });
+  }
+};
@@ -0,0 +1,257 @@
+import { Person } from '../types';
+import { computeEffectiveTiers } from './hierarchy';
+
+// Data integrity checks for the chart, with a one-click fix for every issue.
+// Fixes are plain data so they can be listed, applied one by one, or all at once.
+// They target people by position in the people array, since ids can be duplicated.
+
+export interface IntegrityData {
+  people: Person[];
+  departments: string[];
+  locations: string[];
+}
+
+export type IntegrityCategory =
+  | 'cycle'
+  | 'danglingManager'
+  | 'danglingLink'
+  | 'duplicateId'
+  | 'duplicateEmail'
+  | 'unknownDepartment'
+  | 'unknownLocation'
+  | 'tierConflict'
+  | 'leadWithoutTeam';
+
+export const INTEGRITY_CATEGORIES: Array<{ category: IntegrityCategory; label: string; fixLabel: string }> = [
+  { category: 'duplicateId', label: 'Duplicate IDs', fixLabel: 'Assign new IDs' },
+  { category: 'cycle', label: 'Reporting cycles', fixLabel: 'Break cycle' },
+  { category: 'danglingManager', label: 'Missing managers', fixLabel: 'Make top level' },
+  { category: 'danglingLink', label: 'Broken dotted-line / support links', fixLabel: 'Remove links' },
+  { category: 'duplicateEmail', label: 'Duplicate emails', fixLabel: 'Clear repeats' },
+  { category: 'unknownDepartment', label: 'Departments not in the list', fixLabel: 'Add department' },
+  { category: 'unknownLocation', label: 'Locations not in the list', fixLabel: 'Add location' },
+  { category: 'tierConflict', label: 'Tier overrides above the manager', fixLabel: 'Clear override' },
+  { category: 'leadWithoutTeam', label: 'Team leads without a team', fixLabel: 'Remove lead flag' },
+];
+
+export type IntegrityFix =
+  | { type: 'clearManager'; index: number }
+  | { type: 'removeLinks'; index: number; missingIds: string[] }
+  | { type: 'reassignIds'; indexes: number[] }
+  | { type: 'clearEmail'; indexes: number[] }
+  | { type: 'addDepartment'; department: string }
+  | { type: 'addLocation'; location: string }
+  | { type: 'clearTier'; index: number }
+  | { type: 'clearTeamLead'; index: number };
+
+export interface IntegrityIssue {
+  id: string; // Stable key for lists
+  category: IntegrityCategory;
+  message: string;
+  personIds: string[];
+  fix: IntegrityFix;
+}
+
+const nameOf = (p: Person | undefined) => p ? (p.isVacancy ? 'Open Position' : p.name || '(no name)') : '(unknown)';
+
+// Each cycle once, as the ids in reporting order
+const findCycles = (people: Person[]): string[][] => {
+  const byId = new Map(people.map(p => [p.id, p]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const cycles: string[][] = [];
+
+  people.forEach(start => {
+    if (state.has(start.id)) return;
+    const path: string[] = [];
+    let current: Person | undefined = start;
+    while (current && !state.has(current.id)) {
+      state.set(current.id, 'visiting');
+      path.push(current.id);
+      current = current.managerId ? byId.get(current.managerId) : undefined;
+    }
+    if (current && state.get(current.id) === 'visiting') {
+      cycles.push(path.slice(path.indexOf(current.id)));
+    }
+    path.forEach(id => state.set(id, 'done'));
+  });
+
+  return cycles;
+};
+
+export const checkIntegrity = ({ people, departments, locations }: IntegrityData): IntegrityIssue[] => {
+  const issues: IntegrityIssue[] = [];
+  const byId = new Map(people.map(p => [p.id, p]));
+  const indexById = new Map(people.map((p, i) => [p.id, i])); // Same person as byId when ids repeat
+
+  // Duplicate ids: everything after the first occurrence needs a new id
+  const firstIndex = new Map<string, number>();
+  const repeats = new Map<string, number[]>();
+  people.forEach((p, i) => {
+    if (!firstIndex.has(p.id)) firstIndex.set(p.id, i);
+    else repeats.set(p.id, [...(repeats.get(p.id) || []), i]);
+  });
+  repeats.forEach((indexes, id) => {
+    issues.push({
+      id: `duplicateId:${id}`,
+      category: 'duplicateId',
+      message: `ID "${id}" is used by ${indexes.length + 1} people: ${[firstIndex.get(id)!, ...indexes].map(i => nameOf(people[i])).join(', ')}`,
+      personIds: [id],
+      fix: { type: 'reassignIds', indexes },
+    });
+  });
+
+  findCycles(people).forEach(cycle => {
+    const names = cycle.map(id => nameOf(byId.get(id)));
+    issues.push({
+      id: `cycle:${cycle.join('>')}`,
+      category: 'cycle',
+      message: `${[...names, names[0]].join(' → ')} report to each other, so none of them is shown under a root`,
+      personIds: cycle,
+      fix: { type: 'clearManager', index: indexById.get(cycle[0])! },
+    });
+  });
+
+  const departmentSet = new Set(departments);
+  const locationSet = new Set(locations);
+  const unknownDepartments = new Map<string, string[]>();
+  const unknownLocations = new Map<string, string[]>();
+  const tiers = computeEffectiveTiers(people);
+
+  people.forEach((p, index) => {
+    if (p.managerId && !byId.has(p.managerId)) {
+      issues.push({
+        id: `danglingManager:${p.id}`,
+        category: 'danglingManager',
+        message: `${nameOf(p)} reports to "${p.managerId}", who is not in the chart`,
+        personIds: [p.id],
+        fix: { type: 'clearManager', index },
+      });
+    }
+
+    const linkedIds = [...(p.secondaryManagerIds || []), ...(p.supportedIds || []), ...(p.relationships || []).map(r => r.toId)];
+    const missingLinks = Array.from(new Set(linkedIds)).filter(id => !byId.has(id));
+    if (missingLinks.length > 0) {
+      issues.push({
+        id: `danglingLink:${p.id}`,
+        category: 'danglingLink',
+        message: `${nameOf(p)} links to ${missingLinks.length === 1 ? 'a person' : `${missingLinks.length} people`} not in the chart (${missingLinks.join(', ')})`,
+        personIds: [p.id],
+        fix: { type: 'removeLinks', index, missingIds: missingLinks },
+      });
+    }
+
+    if (p.department && !departmentSet.has(p.department)) {
+      unknownDepartments.set(p.department, [...(unknownDepartments.get(p.department) || []), p.id]);
+    }
+    if (p.location && !locationSet.has(p.location)) {
+      unknownLocations.set(p.location, [...(unknownLocations.get(p.location) || []), p.id]);
+    }
+
+    // computeEffectiveTiers pushes such people below their manager, ignoring the override
+    const manager = p.managerId ? byId.get(p.managerId) : undefined;
+    if (p.tier != null && manager && tiers.has(manager.id) && p.tier <= tiers.get(manager.id)!) {
+      issues.push({
+        id: `tierConflict:${p.id}`,
+        category: 'tierConflict',
+        message: `${nameOf(p)} is set to tier ${p.tier} but their manager ${nameOf(manager)} is at tier ${tiers.get(manager.id)}`,
+        personIds: [p.id],
+        fix: { type: 'clearTier', index },
+      });
+    }
+
+    if (p.isTeamLead && !p.teamName) {
+      issues.push({
+        id: `leadWithoutTeam:${p.id}`,
+        category: 'leadWithoutTeam',
+        message: `${nameOf(p)} is marked as team lead but has no team`,
+        personIds: [p.id],
+        fix: { type: 'clearTeamLead', index },
+      });
+    }
+  });
+
+  unknownDepartments.forEach((ids, department) => {
+    issues.push({
+      id: `unknownDepartment:${department}`,
+      category: 'unknownDepartment',
+      message: `"${department}" (${ids.length} ${ids.length === 1 ? 'person' : 'people'}) is not in the department list`,
+      personIds: ids,
+      fix: { type: 'addDepartment', department },
+    });
+  });
+  unknownLocations.forEach((ids, location) => {
+    issues.push({
+      id: `unknownLocation:${location}`,
+      category: 'unknownLocation',
+      message: `"${location}" (${ids.length} ${ids.length === 1 ? 'person' : 'people'}) is not in the location list`,
+      personIds: ids,
+      fix: { type: 'addLocation', location },
+    });
+  });
+
+  // Duplicate emails (case-insensitive); the first person keeps theirs
+  const emails = new Map<string, number[]>();
+  people.forEach((p, i) => {
+    const email = p.email?.trim().toLowerCase();
+    if (email) emails.set(email, [...(emails.get(email) || []), i]);
+  });
+  emails.forEach((owners, email) => {
+    if (owners.length < 2) return;
+    issues.push({
+      id: `duplicateEmail:${email}`,
+      category: 'duplicateEmail',
+      message: `${email} is shared by ${owners.map(i => nameOf(people[i])).join(', ')}`,
+      personIds: owners.map(i => people[i].id),
+      fix: { type: 'clearEmail', indexes: owners.slice(1) },
+    });
+  });
+
+  const order = INTEGRITY_CATEGORIES.map(c => c.category);
+  return issues.sort((a, b) => order.indexOf(a.category) - order.indexOf(b.category));
+};
+
+export const applyIntegrityFix = (data: IntegrityData, fix: IntegrityFix): IntegrityData => {
+  const updatePeople = (indexes: number[], update: (p: Person) => Person): IntegrityData => {
+    const targets = new Set(indexes);
+    return { ...data, people: data.people.map((p, i) => targets.has(i) ? update(p) : p) };
+  };
+
+  switch (fix.type) {
+    case 'clearManager':
+      return updatePeople([fix.index], p => ({ ...p, managerId: null }));
+    case 'removeLinks': {
+      const missing = new Set(fix.missingIds);
+      return updatePeople([fix.index], p => ({
+        ...p,
+        secondaryManagerIds: p.secondaryManagerIds?.filter(id => !missing.has(id)),
+        supportedIds: p.supportedIds?.filter(id => !missing.has(id)),
+        relationships: p.relationships?.filter(r => !missing.has(r.toId)),
+      }));
+    }
+    case 'reassignIds':
+      return updatePeople(fix.indexes, p => ({ ...p, id: crypto.randomUUID() }));
+    case 'clearEmail':
+      return updatePeople(fix.indexes, p => ({ ...p, email: undefined }));
+    case 'addDepartment':
+      return data.departments.includes(fix.department) ? data : { ...data, departments: [...data.departments, fix.department] };
+    case 'addLocation':
+      return data.locations.includes(fix.location) ? data : { ...data, locations: [...data.locations, fix.location] };
+    case 'clearTier':
+      return updatePeople([fix.index], p => ({ ...p, tier: undefined }));
+    case 'clearTeamLead':
+      return updatePeople([fix.index], p => ({ ...p, isTeamLead: undefined }));
+  }
+};
+
+// Fixes one issue at a time and re-checks in between, since a fix (e.g. new ids)
+// can make the remaining fixes from an earlier check stale
+export const fixAllIntegrityIssues = (data: IntegrityData): IntegrityData => {
+  let current = data;
+  let remaining = checkIntegrity(current);
+  let guard = remaining.length * 2 + 10;
+  while (remaining.length > 0 && guard-- > 0) {
+    current = applyIntegrityFix(current, remaining[0].fix);
+    remaining = checkIntegrity(current);
+  }
+  return current;
+};
@@ -0,0 +1,387 @@
+import { jsPDF } from 'jspdf';
+import { Person } from '../types';
+import { captureChartPng } from './imageExport';
+
+// Print-ready PDF export: the captured chart is tiled across pages with an overlap
+// so sheets can be trimmed and taped together. Reporting lines cut by a page edge
+// get a continuation marker pointing at the page they continue on.
+
+export type PdfPageSize = 'a4' | 'a3' | 'letter';
+export type PdfOrientation = 'portrait' | 'landscape';
+
+export interface PdfExportOptions {
+  pageSize: PdfPageSize;
+  orientation: PdfOrientation;
+  pagesAcross: number;
+  overlapMm: number;
+  includeCover: boolean;
+  title: string;
+}
+
+export const DEFAULT_PDF_OPTIONS: PdfExportOptions = {
+  pageSize: 'a4',
+  orientation: 'landscape',
+  pagesAcross: 2,
+  overlapMm: 10,
+  includeCover: true,
+  title: 'Organization Chart'
+};
+
+// Portrait dimensions in mm
+const PAGE_SIZES_MM: Record<PdfPageSize, { width: number; height: number }> = {
+  a4: { width: 210, height: 297 },
+  a3: { width: 297, height: 420 },
+  letter: { width: 215.9, height: 279.4 },
+};
+
+const PAGE_MARGIN_MM = 10;
+const FOOTER_MM = 8;
+const TARGET_DPI = 200;
+const MAX_CANVAS_PX = 16000;
+
+interface Segment { x1: number; y1: number; x2: number; y2: number; color: string }
+
+// Tiling of the chart (in content px) onto pages
+export interface TileLayout {
+  columns: number;
+  rows: number;
+  mmPerPx: number;
+  stepX: number; // content px between tile origins
+  stepY: number;
+  tileWidth: number; // content px visible on one page
+  tileHeight: number;
+  printableWidth: number; // mm
+  printableHeight: number;
+}
+
+const getPageDimensions = (options: PdfExportOptions) => {
+  const size = PAGE_SIZES_MM[options.pageSize];
+  return options.orientation === 'portrait'
+    ? { width: size.width, height: size.height }
+    : { width: size.height, height: size.width };
+};
+
+export const computeTileLayout = (contentWidth: number, contentHeight: number, options: PdfExportOptions): TileLayout => {
+  const page = getPageDimensions(options);
+  const printableWidth = page.width - PAGE_MARGIN_MM * 2;
+  const printableHeight = page.height - PAGE_MARGIN_MM * 2 - FOOTER_MM;
+  const columns = Math.max(1, Math.round(options.pagesAcross));
+  const overlap = Math.min(Math.max(0, options.overlapMm), printableWidth / 2, printableHeight / 2);
+
+  // Chart width spans `columns` pages minus the shared overlaps
+  const mmPerPx = (columns * printableWidth - (columns - 1) * overlap) / Math.max(1, contentWidth);
+  const tileWidth = printableWidth / mmPerPx;
+  const tileHeight = printableHeight / mmPerPx;
+  const stepX = (printableWidth - overlap) / mmPerPx;
+  const stepY = (printableHeight - overlap) / mmPerPx;
+  const rows = Math.max(1, Math.ceil((contentHeight - tileHeight) / stepY) + 1);
+
+  return { columns, rows, mmPerPx, stepX, stepY, tileWidth, tileHeight, printableWidth, printableHeight };
+};
+
+// Straight-line approximation of the Lines.tsx paths (M/L/Q commands) in content px
+const getLineSegments = (container: HTMLElement): Segment[] => {
+  const svg = container.querySelector('[data-chart-lines]');
+  if (!svg) return [];
+  const segments: Segment[] = [];
+
+  svg.querySelectorAll('path').forEach(path => {
+    const color = path.getAttribute('stroke') || '#94a3b8';
+    const tokens = (path.getAttribute('d') || '').match(/[MLQ]|-?\d*\.?\d+(?:e-?\d+)?/gi) || [];
+    let cursor: { x: number; y: number } | null = null;
+    let i = 0;
+    while (i < tokens.length) {
+      const cmd = tokens[i++].toUpperCase();
+      if (cmd === 'M') {
+        cursor = { x: parseFloat(tokens[i++]), y: parseFloat(tokens[i++]) };
+      } else if (cmd === 'L' || cmd === 'Q') {
+        if (cmd === 'Q') i += 2; // skip control point
+        const next = { x: parseFloat(tokens[i++]), y: parseFloat(tokens[i++]) };
+        if (cursor) segments.push({ x1: cursor.x, y1: cursor.y, x2: next.x, y2: next.y, color });
+        cursor = next;
+      } else {
+        i++;
+      }
+    }
+  });
+  return segments;
+};
+
+type Edge = 'left' | 'right' | 'top' | 'bottom';
+
+// Points where a segment leaves the tile rectangle
+const findEdgeCrossings = (seg: Segment, x0: number, y0: number, x1: number, y1: number) => {
+  const crossings: Array<{ edge: Edge; x: number; y: number }> = [];
+  const inside = (x: number, y: number) => x >= x0 && x <= x1 && y >= y0 && y <= y1;
+  if (inside(seg.x1, seg.y1) === inside(seg.x2, seg.y2)) return crossings;
+
+  const check = (edge: Edge, t: number) => {
+    if (t < 0 || t > 1) return;
+    const x = seg.x1 + (seg.x2 - seg.x1) * t;
+    const y = seg.y1 + (seg.y2 - seg.y1) * t;
+    const onEdge = edge === 'left' || edge === 'right' ? y >= y0 && y <= y1 : x >= x0 && x <= x1;
+    if (onEdge) crossings.push({ edge, x, y });
+  };
+  const dx = seg.x2 - seg.x1;
+  const dy = seg.y2 - seg.y1;
+  if (dx !== 0) {
+    check('left', (x0 - seg.x1) / dx);
+    check('right', (x1 - seg.x1) / dx);
+  }
+  if (dy !== 0) {
+    check('top', (y0 - seg.y1) / dy);
+    check('bottom', (y1 - seg.y1) / dy);
+  }
+  return crossings;
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = reject;
+  img.src = src;
+});
+
+const hexToRgb = (color: string): [number, number, number] => {
+  const hex = color.replace('#', '');
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return [100, 116, 139];
+  return [parseInt(hex.slice(0, 2), 16), parseInt(hex.slice(2, 4), 16), parseInt(hex.slice(4, 6), 16)];
+};
+
+export const buildChartPdf = async (container: HTMLElement, people: Person[], options: PdfExportOptions): Promise<Blob> => {
+  const contentWidth = container.offsetWidth;
+  const contentHeight = container.offsetHeight;
+  const layout = computeTileLayout(contentWidth, contentHeight, options);
+  const page = getPageDimensions(options);
+
+  // Pick a capture resolution close to TARGET_DPI on paper, within canvas limits
+  const idealRatio = (TARGET_DPI / 25.4) * layout.mmPerPx;
+  const pixelRatio = Math.max(0.5, Math.min(idealRatio, 4, MAX_CANVAS_PX / Math.max(contentWidth, contentHeight)));
+  const chartImage = await loadImage(await captureChartPng(container, pixelRatio));
+  const imgScaleX = chartImage.naturalWidth / contentWidth;
+  const imgScaleY = chartImage.naturalHeight / contentHeight;
+
+  const pdf = new jsPDF({ orientation: options.orientation, unit: 'mm', format: options.pageSize });
+  const coverPages = options.includeCover ? 1 : 0;
+  const pageNumberOf = (row: number, col: number) => coverPages + row * layout.columns + col + 1;
+  const totalPages = coverPages + layout.rows * layout.columns;
+
+  const drawFooter = (label: string, pageNumber: number) => {
+    pdf.setFontSize(8);
+    pdf.setTextColor(148, 163, 184);
+    const y = page.height - PAGE_MARGIN_MM + 2;
+    pdf.text(options.title, PAGE_MARGIN_MM, y);
+    pdf.text(label, page.width / 2, y, { align: 'center' });
+    pdf.text(`Page ${pageNumber} of ${totalPages}`, page.width - PAGE_MARGIN_MM, y, { align: 'right' });
+  };
+
+  // --- COVER PAGE ---
+  if (options.includeCover) {
+    drawCoverPage(pdf, page, options, people, container, layout, chartImage, pageNumberOf);
+    drawFooter('Index', 1);
+  }
+
+  // --- CHART TILES ---
+  const segments = getLineSegments(container);
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+
+  for (let row = 0; row < layout.rows; row++) {
+    for (let col = 0; col < layout.columns; col++) {
+      if (row > 0 || col > 0 || coverPages > 0) pdf.addPage(options.pageSize, options.orientation);
+
+      const x0 = col * layout.stepX;
+      const y0 = row * layout.stepY;
+      const visibleW = Math.min(layout.tileWidth, contentWidth - x0);
+      const visibleH = Math.min(layout.tileHeight, contentHeight - y0);
+      if (visibleW <= 0 || visibleH <= 0) {
+        drawFooter(`Row ${row + 1}, Column ${col + 1}`, pageNumberOf(row, col));
+        continue;
+      }
+
+      canvas.width = Math.ceil(visibleW * imgScaleX);
+      canvas.height = Math.ceil(visibleH * imgScaleY);
+      ctx.fillStyle = '#f8fafc';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(chartImage, x0 * imgScaleX, y0 * imgScaleY, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+
+      const left = PAGE_MARGIN_MM;
+      const top = PAGE_MARGIN_MM;
+      pdf.addImage(canvas.toDataURL('image/png'), 'PNG', left, top, visibleW * layout.mmPerPx, visibleH * layout.mmPerPx);
+
+      // Overlap guides: dashed lines where the neighbouring page starts/ends
+      const overlapMm = layout.printableWidth - layout.stepX * layout.mmPerPx;
+      pdf.setDrawColor(203, 213, 225);
+      pdf.setLineWidth(0.2);
+      pdf.setLineDashPattern([1.5, 1.5], 0);
+      if (col < layout.columns - 1 && overlapMm > 0) {
+        const x = left + layout.printableWidth - overlapMm;
+        pdf.line(x, top, x, top + visibleH * layout.mmPerPx);
+      }
+      if (row < layout.rows - 1 && overlapMm > 0) {
+        const y = top + layout.printableHeight - overlapMm;
+        pdf.line(left, y, left + visibleW * layout.mmPerPx, y);
+      }
+      pdf.setLineDashPattern([], 0);
+
+      // Continuation markers on reporting lines cut by the page edge
+      const x1 = x0 + visibleW;
+      const y1 = y0 + visibleH;
+      const placed: Array<{ edge: Edge; x: number; y: number }> = [];
+      segments.forEach(seg => {
+        findEdgeCrossings(seg, x0, y0, x1, y1).forEach(crossing => {
+          const neighbour = {
+            left: { row, col: col - 1 },
+            right: { row, col: col + 1 },
+            top: { row: row - 1, col },
+            bottom: { row: row + 1, col },
+          }[crossing.edge];
+          if (neighbour.row < 0 || neighbour.col < 0 || neighbour.row >= layout.rows || neighbour.col >= layout.columns) return;
+
+          const mx = left + (crossing.x - x0) * layout.mmPerPx;
+          const my = top + (crossing.y - y0) * layout.mmPerPx;
+          // Skip markers that would overlap an existing one on the same edge
+          if (placed.some(p => p.edge === crossing.edge && Math.hypot(p.x - mx, p.y - my) < 6)) return;
+          placed.push({ edge: crossing.edge, x: mx, y: my });
+
+          drawContinuationMarker(pdf, crossing.edge, mx, my, pageNumberOf(neighbour.row, neighbour.col), hexToRgb(seg.color));
+        });
+      });
+
+      drawFooter(`Row ${row + 1}, Column ${col + 1}`, pageNumberOf(row, col));
+    }
+  }
+
+  return pdf.output('blob');
+};
+
+const drawContinuationMarker = (pdf: jsPDF, edge: Edge, x: number, y: number, targetPage: number, color: [number, number, number]) => {
+  const label = `p.${targetPage}`;
+  pdf.setFillColor(...color);
+  pdf.setDrawColor(255, 255, 255);
+  pdf.setLineWidth(0.3);
+  const s = 1.8;
+  // Arrow pointing off the page towards the continuation
+  switch (edge) {
+    case 'right': pdf.triangle(x - s, y - s, x - s, y + s, x, y, 'FD'); break;
+    case 'left': pdf.triangle(x + s, y - s, x + s, y + s, x, y, 'FD'); break;
+    case 'top': pdf.triangle(x - s, y + s, x + s, y + s, x, y, 'FD'); break;
+    case 'bottom': pdf.triangle(x - s, y - s, x + s, y - s, x, y, 'FD'); break;
+  }
+
+  pdf.setFontSize(6);
+  pdf.setTextColor(...color);
+  const offset = 2.5;
+  if (edge === 'right') pdf.text(label, x - offset - s, y - s, { align: 'right' });
+  else if (edge === 'left') pdf.text(label, x + offset + s, y - s);
+  else if (edge === 'top') pdf.text(label, x + s + 1, y + offset + s);
+  else pdf.text(label, x + s + 1, y - offset - s + 2);
+};
+
+const drawCoverPage = (
+  pdf: jsPDF,
+  page: { width: number; height: number },
+  options: PdfExportOptions,
+  people: Person[],
+  container: HTMLElement,
+  layout: TileLayout,
+  chartImage: HTMLImageElement,
+  pageNumberOf: (row: number, col: number) => number
+) => {
+  const left = PAGE_MARGIN_MM + 5;
+  let y = PAGE_MARGIN_MM + 15;
+
+  pdf.setTextColor(30, 41, 59);
+  pdf.setFontSize(22);
+  pdf.text(options.title, left, y);
+  y += 8;
+  pdf.setFontSize(10);
+  pdf.setTextColor(100, 116, 139);
+  const filled = people.filter(p => !p.isVacancy).length;
+  pdf.text(`${new Date().toLocaleDateString()} · ${filled} people · ${people.length - filled} vacancies`, left, y);
+  y += 12;
+
+  // Which page each department badge lands on
+  const containerRect = container.getBoundingClientRect();
+  const scale = containerRect.width / (container.offsetWidth || 1) || 1;
+  const pageForDept = (dept: string): string => {
+    const badge = document.getElementById(`dept-badge-${dept}`);
+    if (!badge) return '—';
+    const rect = badge.getBoundingClientRect();
+    const cx = (rect.left + rect.width / 2 - containerRect.left) / scale;
+    const cy = (rect.top + rect.height / 2 - containerRect.top) / scale;
+    const col = Math.min(layout.columns - 1, Math.floor(cx / layout.stepX));
+    const row = Math.min(layout.rows - 1, Math.floor(cy / layout.stepY));
+    return String(pageNumberOf(row, col));
+  };
+
+  const counts = new Map<string, { filled: number; vacant: number }>();
+  people.forEach(p => {
+    const dept = p.department || 'Other';
+    if (!counts.has(dept)) counts.set(dept, { filled: 0, vacant: 0 });
+    const entry = counts.get(dept)!;
+    if (p.isVacancy) entry.vacant++;
+    else entry.filled++;
+  });
+  const rows = Array.from(counts.entries()).sort((a, b) => a[0].localeCompare(b[0]));
+
+  // Department table
+  const tableWidth = Math.min(110, page.width / 2 - left);
+  const colX = [left, left + tableWidth * 0.55, left + tableWidth * 0.72, left + tableWidth * 0.88];
+  pdf.setFontSize(8);
+  pdf.setTextColor(148, 163, 184);
+  ['DEPARTMENT', 'PEOPLE', 'VACANT', 'PAGE'].forEach((h, i) => pdf.text(h, colX[i], y));
+  y += 2;
+  pdf.setDrawColor(226, 232, 240);
+  pdf.setLineWidth(0.2);
+  pdf.line(left, y, left + tableWidth, y);
+  y += 5;
+
+  pdf.setFontSize(9);
+  rows.forEach(([dept, c]) => {
+    if (y > page.height - PAGE_MARGIN_MM - FOOTER_MM - 10) return;
+    pdf.setTextColor(30, 41, 59);
+    pdf.text(pdf.splitTextToSize(dept, colX[1] - colX[0] - 2)[0], colX[0], y);
+    pdf.setTextColor(71, 85, 105);
+    pdf.text(String(c.filled), colX[1], y);
+    pdf.text(String(c.vacant), colX[2], y);
+    pdf.text(pageForDept(dept), colX[3], y);
+    y += 6;
+  });
+  pdf.setDrawColor(226, 232, 240);
+  pdf.line(left, y - 3, left + tableWidth, y - 3);
+  pdf.setTextColor(30, 41, 59);
+  pdf.text('Total', colX[0], y + 2);
+  pdf.text(String(filled), colX[1], y + 2);
+  pdf.text(String(people.length - filled), colX[2], y + 2);
+
+  // Page map: thumbnail of the whole chart with the page grid drawn over it
+  const mapLeft = left + tableWidth + 10;
+  const mapTop = PAGE_MARGIN_MM + 35;
+  const mapMaxW = page.width - mapLeft - PAGE_MARGIN_MM;
+  const mapMaxH = page.height - mapTop - PAGE_MARGIN_MM - FOOTER_MM - 5;
+  const contentWidth = container.offsetWidth;
+  const contentHeight = container.offsetHeight;
+  const mapScale = Math.min(mapMaxW / contentWidth, mapMaxH / contentHeight);
+  if (mapScale <= 0) return;
+
+  pdf.setFontSize(8);
+  pdf.setTextColor(148, 163, 184);
+  pdf.text('PAGE MAP', mapLeft, mapTop - 3);
+  pdf.addImage(chartImage, 'PNG', mapLeft, mapTop, contentWidth * mapScale, contentHeight * mapScale);
+
+  pdf.setDrawColor(59, 130, 246);
+  pdf.setTextColor(37, 99, 235);
+  pdf.setLineWidth(0.3);
+  for (let r = 0; r < layout.rows; r++) {
+    for (let c = 0; c < layout.columns; c++) {
+      const x = mapLeft + c * layout.stepX * mapScale;
+      const yy = mapTop + r * layout.stepY * mapScale;
+      const w = Math.min(layout.tileWidth, contentWidth - c * layout.stepX) * mapScale;
+      const h = Math.min(layout.tileHeight, contentHeight - r * layout.stepY) * mapScale;
+      if (w <= 0 || h <= 0) continue;
+      pdf.rect(x, yy, w, h);
+      pdf.text(String(pageNumberOf(r, c)), x + 1.5, yy + 4);
+    }
+  }
+};
@@ -0,0 +1,375 @@
+import { Person, CustomFieldDefinition } from '../types';
+import { getDescendantIds } from './hierarchy';
+import { getDottedLineLabel, setDottedLineManagers } from './dottedLines';
+import { EMPLOYMENT_TYPES, getEmploymentType, getEmploymentTypeStyle, parseEmploymentType } from './employment';
+import { formatFte, parseAmount, parseFte } from './budget';
+import { isIsoDate } from './effectiveDating';
+import { customFieldText, getCustomFieldValue, parseCustomFieldValue, setCustomFieldValue } from './customFields';
+
+// Column model and cell parsing for the spreadsheet-style people grid.
+// Every edit (typed or pasted) goes through `applyCellText` so the same
+// validation applies no matter where the value came from.
+// Relationships and scheduled changes are edited in the person dialog only.
+
+export type GridColumnKey =
+  | 'name'
+  | 'title'
+  | 'department'
+  | 'location'
+  | 'managerId'
+  | 'secondaryManagerIds'
+  | 'supportedIds'
+  | 'teamName'
+  | 'isTeamLead'
+  | 'tier'
+  | 'sortOrder'
+  | 'email'
+  | 'phone'
+  | 'photoUrl'
+  | 'isVacancy'
+  | 'employmentType'
+  | 'fte'
+  | 'salaryMin'
+  | 'salaryMax'
+  | 'currency'
+  | 'startDate'
+  | 'endDate'
+  | 'teamColor'
+  | 'deptColor'
+  | 'supportColor'
+  | `custom:${string}`; // Custom field, by definition id
+
+// 'people' cells hold a list of names separated by "; " (dotted-line managers may add "(label)")
+export type GridEditor = 'text' | 'number' | 'boolean' | 'date' | 'choice' | 'department' | 'location' | 'title' | 'manager' | 'people';
+
+export interface GridColumn {
+  key: GridColumnKey;
+  label: string;
+  editor: GridEditor;
+  width: number;
+  options?: string[]; // Choices of a 'choice' column
+  field?: CustomFieldDefinition; // Set on custom field columns
+}
+
+export const GRID_COLUMNS: GridColumn[] = [
+  { key: 'name', label: 'Name', editor: 'text', width: 180 },
+  { key: 'title', label: 'Title', editor: 'title', width: 200 },
+  { key: 'department', label: 'Department', editor: 'department', width: 160 },
+  { key: 'location', label: 'Location', editor: 'location', width: 140 },
+  { key: 'managerId', label: 'Manager', editor: 'manager', width: 180 },
+  { key: 'secondaryManagerIds', label: 'Dotted-line Managers', editor: 'people', width: 220 },
+  { key: 'supportedIds', label: 'Supports', editor: 'people', width: 200 },
+  { key: 'teamName', label: 'Team', editor: 'text', width: 140 },
+  { key: 'isTeamLead', label: 'Team Lead', editor: 'boolean', width: 90 },
+  { key: 'tier', label: 'Tier', editor: 'number', width: 70 },
+  { key: 'sortOrder', label: 'Sort Order', editor: 'number', width: 90 },
+  { key: 'email', label: 'Email', editor: 'text', width: 200 },
+  { key: 'phone', label: 'Phone', editor: 'text', width: 130 },
+  { key: 'photoUrl', label: 'Photo URL', editor: 'text', width: 200 },
+  { key: 'isVacancy', label: 'Vacancy', editor: 'boolean', width: 80 },
+  { key: 'employmentType', label: 'Employment Type', editor: 'choice', width: 140, options: EMPLOYMENT_TYPES.map(t => t.label) },
+  { key: 'fte', label: 'FTE', editor: 'number', width: 70 },
+  { key: 'salaryMin', label: 'Salary Min', editor: 'number', width: 110 },
+  { key: 'salaryMax', label: 'Salary Max', editor: 'number', width: 110 },
+  { key: 'currency', label: 'Currency', editor: 'text', width: 90 },
+  { key: 'startDate', label: 'Start Date', editor: 'date', width: 130 },
+  { key: 'endDate', label: 'End Date', editor: 'date', width: 130 },
+  { key: 'teamColor', label: 'Team Color', editor: 'text', width: 110 },
+  { key: 'deptColor', label: 'Dept. Color', editor: 'text', width: 110 },
+  { key: 'supportColor', label: 'Support Color', editor: 'text', width: 110 },
+];
+
+const CUSTOM_FIELD_EDITORS: Record<CustomFieldDefinition['type'], GridEditor> = {
+  text: 'text',
+  url: 'text',
+  number: 'number',
+  date: 'date',
+  enum: 'choice',
+  boolean: 'boolean',
+};
+
+/** The built-in columns followed by one per custom field */
+export const getGridColumns = (customFields: CustomFieldDefinition[]): GridColumn[] => [
+  ...GRID_COLUMNS,
+  ...customFields.map((field): GridColumn => ({
+    key: `custom:${field.id}`,
+    label: field.label,
+    editor: CUSTOM_FIELD_EDITORS[field.type],
+    width: field.type === 'boolean' ? 90 : 150,
+    options: field.type === 'enum' ? field.options || [] : undefined,
+    field,
+  })),
+];
+
+export interface GridContext {
+  people: Person[];
+  departments: string[];
+  locations: string[];
+  jobTitles: string[];
+}
+
+export type CellUpdate = { person: Person } | { error: string };
+
+const TRUTHY = new Set(['true', 'yes', 'y', '1', 'x']);
+
+const LIST_SEPARATOR = '; ';
+
+const namesOf = (ids: string[] | undefined, peopleById: Map<string, Person>): string[] =>
+  (ids || []).filter(id => peopleById.has(id)).map(id => peopleById.get(id)!.name);
+
+export const getCellText = (person: Person, column: GridColumn, peopleById: Map<string, Person>): string => {
+  const { key, field } = column;
+  if (field) {
+    const value = getCustomFieldValue(person, field);
+    return field.type === 'boolean' ? (value === true ? 'Yes' : '') : customFieldText(field, value);
+  }
+  switch (key) {
+    case 'managerId': {
+      const manager = person.managerId ? peopleById.get(person.managerId) : undefined;
+      return manager ? manager.name : '';
+    }
+    case 'secondaryManagerIds':
+      return (person.secondaryManagerIds || []).filter(id => peopleById.has(id)).map(id => {
+        const label = getDottedLineLabel(person, id);
+        return label ? `${peopleById.get(id)!.name} (${label})` : peopleById.get(id)!.name;
+      }).join(LIST_SEPARATOR);
+    case 'supportedIds':
+      return namesOf(person.supportedIds, peopleById).join(LIST_SEPARATOR);
+    case 'isTeamLead':
+    case 'isVacancy':
+      return person[key] ? 'Yes' : '';
+    case 'employmentType':
+      return getEmploymentTypeStyle(getEmploymentType(person)).label;
+    case 'fte':
+      return person.fte !== undefined ? formatFte(person.fte) : '';
+    default:
+      return String(person[key as keyof Person] ?? '');
+  }
+};
+
+// Prefer the spelling already in the master list ("engineering" → "Engineering")
+const matchListValue = (value: string, list: string[]): string =>
+  list.find(item => item.toLowerCase() === value.toLowerCase()) ?? value;
+
+// Person cells (managers, supported people) accept a name, email or id
+const resolvePerson = (text: string, people: Person[], role: string): { id: string | null } | { error: string } => {
+  if (!text) return { id: null };
+  const needle = text.toLowerCase();
+  const byId = people.find(p => p.id === text);
+  if (byId) return { id: byId.id };
+  const byEmail = people.filter(p => p.email && p.email.toLowerCase() === needle);
+  if (byEmail.length === 1) return { id: byEmail[0].id };
+  const byName = people.filter(p => p.name.toLowerCase() === needle);
+  if (byName.length === 1) return { id: byName[0].id };
+  if (byName.length > 1) return { error: `More than one person is called "${text}" - use their email instead` };
+  return { error: `No person found for ${role} "${text}"` };
+};
+
+// A "; " separated list of people; `withLabels` reads a trailing "(label)" on each entry
+const resolvePeopleList = (
+  text: string,
+  person: Person,
+  people: Person[],
+  role: string,
+  withLabels: boolean
+): { people: Array<{ id: string; label: string }> } | { error: string } => {
+  const entries: Array<{ id: string; label: string }> = [];
+  for (const part of text.split(';').map(p => p.trim()).filter(Boolean)) {
+    const match = withLabels ? part.match(/^(.*?)\s*\(([^)]*)\)$/) : null;
+    const resolved = resolvePerson(match ? match[1] : part, people, role);
+    if ('error' in resolved) return resolved;
+    if (resolved.id === person.id) return { error: `${person.name} cannot be their own ${role}` };
+    if (resolved.id && !entries.some(e => e.id === resolved.id)) entries.push({ id: resolved.id, label: match ? match[2].trim() : '' });
+  }
+  return { people: entries };
+};
+
+const sameList = (a: string[] = [], b: string[] = []) => a.length === b.length && a.every((v, i) => v === b[i]);
+
+const sameLabels = (a: Record<string, string> = {}, b: Record<string, string> = {}) =>
+  Object.keys(a).length === Object.keys(b).length && Object.keys(a).every(k => a[k] === b[k]);
+
+// Optional number fields; empty cells remove the value
+const applyNumber = (
+  person: Person,
+  key: 'sortOrder' | 'fte' | 'salaryMin' | 'salaryMax',
+  text: string,
+  parse: (text: string) => number | null,
+  error: string
+): CellUpdate => {
+  if (!text) return { person: person[key] === undefined ? person : { ...person, [key]: undefined } };
+  const value = parse(text);
+  if (value === null) return { error: `${error}, got "${text}"` };
+  return { person: value === person[key] ? person : { ...person, [key]: value } };
+};
+
+const parseNumber = (text: string): number | null => Number.isFinite(Number(text)) ? Number(text) : null;
+
+// Parse `text` into the field behind the column. Returns the unchanged person when nothing changed.
+export const applyCellText = (person: Person, column: GridColumn, rawText: string, context: GridContext): CellUpdate => {
+  const text = rawText.trim();
+
+  if (column.field) {
+    const field = column.field;
+    const parsed = parseCustomFieldValue(field, field.type === 'boolean' ? (TRUTHY.has(text.toLowerCase()) ? 'yes' : '') : text);
+    if (parsed.error) return { error: parsed.error };
+    const current = getCustomFieldValue(person, field);
+    return { person: parsed.value === current || (parsed.value === undefined && current === false) ? person : setCustomFieldValue(person, field.id, parsed.value) };
+  }
+
+  switch (column.key) {
+    case 'name':
+      if (!text && !person.isVacancy) return { error: 'Name cannot be empty' };
+      return { person: text === person.name ? person : { ...person, name: text } };
+
+    case 'title': {
+      const title = matchListValue(text, context.jobTitles);
+      return { person: title === person.title ? person : { ...person, title } };
+    }
+
+    case 'department': {
+      if (!text) return { error: 'Department cannot be empty' };
+      const department = matchListValue(text, context.departments);
+      return { person: department === person.department ? person : { ...person, department } };
+    }
+
+    case 'location': {
+      if (!text) return { error: 'Location cannot be empty' };
+      const location = matchListValue(text, context.locations);
+      return { person: location === person.location ? person : { ...person, location } };
+    }
+
+    case 'managerId': {
+      const resolved = resolvePerson(text, context.people, 'manager');
+      if ('error' in resolved) return resolved;
+      const managerId = resolved.id;
+      if ((person.managerId || null) === managerId) return { person };
+      if (managerId === person.id) return { error: `${person.name} cannot report to themselves` };
+      if (managerId && getDescendantIds(person.id, context.people).includes(managerId)) {
+        return { error: `${person.name} cannot report to one of their own reports` };
+      }
+      return { person: { ...person, managerId } };
+    }
+
+    case 'secondaryManagerIds': {
+      const resolved = resolvePeopleList(text, person, context.people, 'dotted-line manager', true);
+      if ('error' in resolved) return resolved;
+      const updated = setDottedLineManagers(person, resolved.people);
+      const unchanged = sameList(updated.secondaryManagerIds, person.secondaryManagerIds)
+        && sameLabels(updated.secondaryManagerLabels, person.secondaryManagerLabels);
+      return { person: unchanged ? person : updated };
+    }
+
+    case 'supportedIds': {
+      const resolved = resolvePeopleList(text, person, context.people, 'supported person', false);
+      if ('error' in resolved) return resolved;
+      const supportedIds = resolved.people.map(p => p.id);
+      return { person: sameList(supportedIds, person.supportedIds) ? person : { ...person, supportedIds } };
+    }
+
+    case 'tier': {
+      if (!text) return { person: person.tier === undefined ? person : { ...person, tier: undefined } };
+      const tier = Number(text);
+      if (!Number.isInteger(tier) || tier < 0) return { error: `Tier must be a whole number, got "${text}"` };
+      return { person: tier === person.tier ? person : { ...person, tier } };
+    }
+
+    case 'sortOrder':
+      return applyNumber(person, 'sortOrder', text, parseNumber, 'Sort order must be a number');
+
+    case 'fte':
+      return applyNumber(person, 'fte', text, parseFte, 'FTE must be above 0 and at most 1');
+
+    case 'salaryMin':
+    case 'salaryMax':
+      return applyNumber(person, column.key, text, parseAmount, 'Salary must be an amount of 0 or more');
+
+    case 'employmentType': {
+      const type = text ? parseEmploymentType(text) : 'employee';
+      if (!type) return { error: `"${text}" is not an employment type` };
+      const employmentType = type === 'employee' ? undefined : type;
+      return { person: employmentType === person.employmentType ? person : { ...person, employmentType } };
+    }
+
+    case 'currency': {
+      const currency = text.toUpperCase() || undefined;
+      return { person: currency === person.currency ? person : { ...person, currency } };
+    }
+
+    case 'startDate':
+    case 'endDate': {
+      if (text && !isIsoDate(text)) return { error: `Dates must be written as yyyy-mm-dd, got "${text}"` };
+      const value = text || undefined;
+      const startDate = column.key === 'startDate' ? value : person.startDate;
+      const endDate = column.key === 'endDate' ? value : person.endDate;
+      if (startDate && endDate && endDate < startDate) return { error: 'The end date cannot be before the start date' };
+      return { person: value === person[column.key] ? person : { ...person, [column.key]: value } };
+    }
+
+    case 'isTeamLead':
+    case 'isVacancy': {
+      const value = TRUTHY.has(text.toLowerCase()) || undefined;
+      return { person: !!value === !!person[column.key] ? person : { ...person, [column.key]: value } };
+    }
+
+    default: {
+      // Optional free-text fields are removed rather than stored as ''
+      const key = column.key as 'teamName' | 'email' | 'phone' | 'photoUrl' | 'teamColor' | 'deptColor' | 'supportColor';
+      const value = text || undefined;
+      return { person: value === person[key] ? person : { ...person, [key]: value } };
+    }
+  }
+};
+
+export interface PasteResult {
+  updated: Person[]; // Only the rows that changed
+  errors: string[];
+}
+
+// Apply a block of pasted cells (rows × columns) starting at a cell of the visible grid
+export const applyPastedBlock = (
+  block: string[][],
+  rows: Person[],
+  columns: GridColumn[],
+  startRow: number,
+  startCol: number,
+  context: GridContext
+): PasteResult => {
+  const errors: string[] = [];
+  // Work on a running copy so later cells (e.g. managers) see earlier changes
+  const working = new Map(context.people.map(p => [p.id, p]));
+  const changedIds = new Set<string>();
+
+  block.forEach((cells, r) => {
+    const row = rows[startRow + r];
+    if (!row) return;
+    cells.forEach((text, c) => {
+      const column = columns[startCol + c];
+      if (!column) return;
+      const current = working.get(row.id)!;
+      const result = applyCellText(current, column, text, { ...context, people: Array.from(working.values()) });
+      if ('error' in result) {
+        errors.push(`Row ${startRow + r + 1}, ${column.label}: ${result.error}`);
+      } else if (result.person !== current) {
+        working.set(row.id, result.person);
+        changedIds.add(row.id);
+      }
+    });
+  });
+
+  const skippedRows = startRow + block.length - rows.length;
+  if (skippedRows > 0) {
+    errors.push(`${skippedRows} pasted row${skippedRows === 1 ? '' : 's'} past the end of the table ignored`);
+  }
+
+  return { updated: Array.from(changedIds).map(id => working.get(id)!), errors };
+};
+
+// Sort comparator for a column: numbers numerically, text naturally, blanks last in either direction
+export const compareCells = (a: string, b: string, column: GridColumn, direction: 1 | -1): number => {
+  if (!a && !b) return 0;
+  if (!a) return 1;
+  if (!b) return -1;
+  if (column.editor === 'number') return (Number(a) - Number(b)) * direction;
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }) * direction;
+};
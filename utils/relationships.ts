@@ -0,0 +1,76 @@
+import { Person, PersonRelationship, RelationshipLineStyle, RelationshipType } from '../types';
+
+// Typed relationships beyond the reporting lines. Types are defined per chart
+// (`AppState.relationshipTypes`, edited in Settings → Relations); each person keeps the
+// relationships it starts in `person.relationships`, pointing at `toId`.
+
+export const RELATIONSHIP_LINE_STYLES: Array<{ value: RelationshipLineStyle; label: string; pattern: string }> = [
+  { value: 'solid', label: 'Solid', pattern: '———' },
+  { value: 'dashed', label: 'Dashed', pattern: '— — —' },
+  { value: 'dotted', label: 'Dotted', pattern: '••••••' },
+];
+
+export const RELATIONSHIP_COLORS = ['#8b5cf6', '#ec4899', '#14b8a6', '#f97316', '#0ea5e9', '#10b981', '#f43f5e', '#64748b'];
+
+// Offered on a new chart and added to files saved before relationships existed
+export const DEFAULT_RELATIONSHIP_TYPES: RelationshipType[] = [
+  { id: 'mentor', name: 'Mentor', color: '#8b5cf6', lineStyle: 'dashed' },
+  { id: 'project-lead', name: 'Project lead', color: '#14b8a6', lineStyle: 'solid' },
+  { id: 'backup', name: 'Backup', color: '#f97316', lineStyle: 'dotted' },
+];
+
+export const createRelationshipType = (name: string, color: string, lineStyle: RelationshipLineStyle): RelationshipType => ({
+  id: crypto.randomUUID(),
+  name,
+  color,
+  lineStyle,
+});
+
+export const createRelationship = (typeId: string, toId: string): PersonRelationship => ({
+  id: crypto.randomUUID(),
+  typeId,
+  toId,
+});
+
+/** SVG dash pattern for a line style (same spacing as the dotted-line managers) */
+export const getStrokeDasharray = (lineStyle: RelationshipLineStyle): string | undefined =>
+  lineStyle === 'dotted' ? '0 8' : lineStyle === 'dashed' ? '10 6' : undefined;
+
+/** Whether a relationship applies on an ISO date; missing ends are open */
+export const isRelationshipActive = (relationship: PersonRelationship, date: string): boolean =>
+  (!relationship.startDate || relationship.startDate <= date) && (!relationship.endDate || date <= relationship.endDate);
+
+export interface ResolvedRelationship {
+  id: string;
+  fromId: string;
+  toId: string;
+  type: RelationshipType;
+  label: string;
+  color: string;
+  lineStyle: RelationshipLineStyle;
+}
+
+/** Relationships to draw as of a date: both people present, type defined, date range covering the date */
+export const resolveRelationships = (people: Person[], types: RelationshipType[], date: string): ResolvedRelationship[] => {
+  const ids = new Set(people.map(p => p.id));
+  const typesById = new Map(types.map(t => [t.id, t]));
+  return people.flatMap(person => (person.relationships || []).flatMap(relationship => {
+    const type = typesById.get(relationship.typeId);
+    if (!type || !ids.has(relationship.toId) || relationship.toId === person.id || !isRelationshipActive(relationship, date)) return [];
+    return [{
+      id: relationship.id,
+      fromId: person.id,
+      toId: relationship.toId,
+      type,
+      label: relationship.label?.trim() || type.name,
+      color: relationship.color || type.color,
+      lineStyle: relationship.lineStyle || type.lineStyle,
+    }];
+  }));
+};
+
+/** Drops the relationships of a deleted type from everyone */
+export const removeRelationshipsOfType = (people: Person[], typeId: string): Person[] =>
+  people.map(p => p.relationships?.some(r => r.typeId === typeId)
+    ? { ...p, relationships: p.relationships.filter(r => r.typeId !== typeId) }
+    : p);
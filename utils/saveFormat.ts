@@ -0,0 +1,333 @@
+import { Person, LineSettings, CardSettings, CustomFieldDefinition, EmploymentType, RelationshipType } from '../types';
+import { isIsoDate } from './effectiveDating';
+import { CUSTOM_FIELD_TYPES, isValidCustomFieldValue } from './customFields';
+import { isValidFte } from './budget';
+import { EMPLOYMENT_TYPE_NAMES } from './employment';
+import { DEFAULT_RELATIONSHIP_TYPES, RELATIONSHIP_LINE_STYLES } from './relationships';
+
+/**
+ * Saved chart file format (what "Save" writes and JSON "Import" reads).
+ *
+ * Current version (4):
+ * {
+ *   "schemaVersion": 4,
+ *   "savedAt": "2024-05-01T09:30:00.000Z",   // informational
+ *   "people": Person[],
+ *   "departments": string[],
+ *   "locations": string[],
+ *   "jobTitles": string[],
+ *   "departmentColors": { [department]: colorName },
+ *   "locationColors": { [location]: colorName },
+ *   "lineSettings": Partial<LineSettings>,    // merged over the defaults on load
+ *   "cardSettings": Partial<CardSettings>,
+ *   "customFields": CustomFieldDefinition[],  // values are in each person's `customFields`
+ *   "relationshipTypes": RelationshipType[]   // relationships are in each person's `relationships`
+ * }
+ *
+ * Older files are upgraded step by step through MIGRATIONS:
+ * - version 0: a bare array of people (the original export)
+ * - version 1: an object with `people` and optional lists/colors/settings, no `schemaVersion`
+ * - version 2: no custom fields
+ * - version 3: no relationship types (the default types are added)
+ *
+ * To change the format: bump SCHEMA_VERSION, add a migration from the previous
+ * version, and extend validateSaveFile.
+ */
+
+export const SCHEMA_VERSION = 4;
+
+export interface SaveFile {
+  schemaVersion: number;
+  savedAt?: string;
+  people: Person[];
+  departments: string[];
+  locations: string[];
+  jobTitles: string[];
+  departmentColors: Record<string, string>;
+  locationColors: Record<string, string>;
+  lineSettings: Partial<LineSettings>;
+  cardSettings: Partial<CardSettings>;
+  customFields: CustomFieldDefinition[];
+  relationshipTypes: RelationshipType[];
+}
+
+export type SaveFileData = Omit<SaveFile, 'schemaVersion' | 'savedAt'>;
+
+export type ParseSaveFileResult =
+  | { ok: true; data: SaveFileData; fromVersion: number }
+  | { ok: false; errors: string[] };
+
+const MAX_ERRORS = 50;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOneOf = (names: string[], value: unknown): value is string => typeof value === 'string' && names.includes(value);
+
+const uniqueValues = (people: unknown[], key: string): string[] =>
+  Array.from(new Set(people.flatMap(p => {
+    const value = isObject(p) ? p[key] : undefined;
+    return typeof value === 'string' && value ? [value] : [];
+  })));
+
+// Versions 1 and up are objects (see detectSchemaVersion); anything else migrates to an empty, invalid file
+const asObject = (data: unknown): Record<string, unknown> => isObject(data) ? data : {};
+
+// MIGRATIONS[n] upgrades a version n file to version n + 1
+const MIGRATIONS: Record<number, (data: unknown) => Record<string, unknown>> = {
+  0: data => {
+    const people = Array.isArray(data) ? data : [];
+    return {
+      people,
+      departments: uniqueValues(people, 'department'),
+      locations: uniqueValues(people, 'location'),
+    };
+  },
+  1: raw => {
+    const data = asObject(raw);
+    const people = Array.isArray(data.people) ? data.people : [];
+    return {
+      ...data,
+      schemaVersion: 2,
+      departments: data.departments ?? uniqueValues(people, 'department'),
+      locations: data.locations ?? uniqueValues(people, 'location'),
+      jobTitles: data.jobTitles ?? uniqueValues(people, 'title'),
+      departmentColors: data.departmentColors ?? {},
+      locationColors: data.locationColors ?? {},
+      lineSettings: data.lineSettings ?? {},
+      cardSettings: data.cardSettings ?? {},
+    };
+  },
+  2: raw => {
+    const data = asObject(raw);
+    return { ...data, schemaVersion: 3, customFields: data.customFields ?? [] };
+  },
+  3: raw => {
+    const data = asObject(raw);
+    return { ...data, schemaVersion: 4, relationshipTypes: data.relationshipTypes ?? DEFAULT_RELATIONSHIP_TYPES };
+  },
+};
+
+export const detectSchemaVersion = (raw: unknown): number | null => {
+  if (Array.isArray(raw)) return 0;
+  if (!isObject(raw)) return null;
+  if (raw.schemaVersion === undefined) return 'people' in raw ? 1 : null;
+  const version = raw.schemaVersion;
+  return typeof version === 'number' && Number.isInteger(version) && version >= 0 ? version : null;
+};
+
+export const migrateSaveFile = (raw: unknown, fromVersion: number): unknown => {
+  let data = raw;
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    data = MIGRATIONS[version](data);
+  }
+  return data;
+};
+
+const OPTIONAL_STRING_FIELDS = ['photoUrl', 'teamName', 'teamColor', 'deptColor', 'supportColor', 'email', 'phone', 'currency'] as const;
+const ID_LIST_FIELDS = ['secondaryManagerIds', 'supportedIds'] as const;
+const LINE_STYLE_NAMES = RELATIONSHIP_LINE_STYLES.map(s => s.value) as string[];
+
+const validatePerson = (person: unknown, index: number, customFields: CustomFieldDefinition[], errors: string[]) => {
+  const where = isObject(person) && typeof person.name === 'string' && person.name
+    ? `people[${index}] (${person.name})`
+    : `people[${index}]`;
+
+  if (!isObject(person)) {
+    errors.push(`${where} must be an object`);
+    return;
+  }
+
+  if (typeof person.id !== 'string' || !person.id) errors.push(`${where}: "id" must be a non-empty string`);
+  (['name', 'title', 'department', 'location'] as const).forEach(key => {
+    if (typeof person[key] !== 'string') errors.push(`${where}: "${key}" must be a string`);
+  });
+  if (person.managerId != null && typeof person.managerId !== 'string') {
+    errors.push(`${where}: "managerId" must be a string or null`);
+  }
+  ID_LIST_FIELDS.forEach(key => {
+    const value = person[key];
+    if (value !== undefined && !(Array.isArray(value) && value.every(v => typeof v === 'string'))) {
+      errors.push(`${where}: "${key}" must be a list of ids`);
+    }
+  });
+  OPTIONAL_STRING_FIELDS.forEach(key => {
+    if (person[key] != null && typeof person[key] !== 'string') errors.push(`${where}: "${key}" must be a string`);
+  });
+  if (person.secondaryManagerLabels != null
+    && !(isObject(person.secondaryManagerLabels) && Object.values(person.secondaryManagerLabels).every(v => typeof v === 'string'))) {
+    errors.push(`${where}: "secondaryManagerLabels" must map manager ids to labels`);
+  }
+  (['tier', 'sortOrder', 'salaryMin', 'salaryMax'] as const).forEach(key => {
+    if (person[key] != null && (typeof person[key] !== 'number' || !Number.isFinite(person[key]))) {
+      errors.push(`${where}: "${key}" must be a number`);
+    }
+  });
+  if (person.employmentType != null && !EMPLOYMENT_TYPE_NAMES.includes(person.employmentType as EmploymentType)) {
+    errors.push(`${where}: "employmentType" must be one of ${EMPLOYMENT_TYPE_NAMES.join(', ')}`);
+  }
+  if (person.fte != null && !isValidFte(person.fte)) errors.push(`${where}: "fte" must be a number above 0 and at most 1`);
+  (['isTeamLead', 'isVacancy'] as const).forEach(key => {
+    if (person[key] != null && typeof person[key] !== 'boolean') errors.push(`${where}: "${key}" must be true or false`);
+  });
+  (['startDate', 'endDate'] as const).forEach(key => {
+    if (person[key] != null && !isIsoDate(person[key])) errors.push(`${where}: "${key}" must be a date (yyyy-mm-dd)`);
+  });
+  if (person.scheduledChanges !== undefined) {
+    const valid = Array.isArray(person.scheduledChanges) && person.scheduledChanges.every(change =>
+      isObject(change) && typeof change.id === 'string' && isIsoDate(change.effectiveDate) && isObject(change.changes)
+    );
+    if (!valid) errors.push(`${where}: "scheduledChanges" must be a list of { id, effectiveDate, changes }`);
+  }
+  if (person.relationships !== undefined) {
+    const valid = Array.isArray(person.relationships) && person.relationships.every(r =>
+      isObject(r) && typeof r.id === 'string' && typeof r.typeId === 'string' && typeof r.toId === 'string'
+      && (r.label == null || typeof r.label === 'string')
+      && (r.color == null || typeof r.color === 'string')
+      && (r.lineStyle == null || isOneOf(LINE_STYLE_NAMES, r.lineStyle))
+      && (r.startDate == null || isIsoDate(r.startDate))
+      && (r.endDate == null || isIsoDate(r.endDate))
+    );
+    if (!valid) errors.push(`${where}: "relationships" must be a list of { id, typeId, toId } with optional label, color, lineStyle and dates`);
+  }
+  if (person.customFields !== undefined) {
+    if (!isObject(person.customFields)) {
+      errors.push(`${where}: "customFields" must map field ids to values`);
+      return;
+    }
+    Object.entries(person.customFields).forEach(([fieldId, value]) => {
+      const field = customFields.find(f => f.id === fieldId);
+      if (field ? !isValidCustomFieldValue(field, value) : !['string', 'number', 'boolean'].includes(typeof value)) {
+        errors.push(`${where}: custom field "${field?.label || fieldId}" must be ${field ? `a ${field.type} value` : 'a text, number or true/false value'}`);
+      }
+    });
+  }
+};
+
+const CUSTOM_FIELD_TYPE_NAMES = CUSTOM_FIELD_TYPES.map(t => t.type) as string[];
+
+const validateCustomFields = (customFields: unknown, errors: string[]): CustomFieldDefinition[] => {
+  if (!Array.isArray(customFields)) {
+    errors.push('"customFields" must be a list');
+    return [];
+  }
+  customFields.forEach((field, index) => {
+    if (!isObject(field) || typeof field.id !== 'string' || !field.id || typeof field.label !== 'string') {
+      errors.push(`customFields[${index}] must have an "id" and a "label"`);
+    } else if (!isOneOf(CUSTOM_FIELD_TYPE_NAMES, field.type)) {
+      errors.push(`customFields[${index}] (${field.label}): "type" must be one of ${CUSTOM_FIELD_TYPE_NAMES.join(', ')}`);
+    } else if (field.options !== undefined && !(Array.isArray(field.options) && field.options.every((o: unknown) => typeof o === 'string'))) {
+      errors.push(`customFields[${index}] (${field.label}): "options" must be a list of names`);
+    }
+  });
+  return customFields.filter(f => isObject(f) && typeof f.id === 'string');
+};
+
+const validateRelationshipTypes = (types: unknown, errors: string[]) => {
+  if (!Array.isArray(types)) {
+    errors.push('"relationshipTypes" must be a list');
+    return;
+  }
+  types.forEach((type, index) => {
+    if (!isObject(type) || typeof type.id !== 'string' || !type.id || typeof type.name !== 'string') {
+      errors.push(`relationshipTypes[${index}] must have an "id" and a "name"`);
+    } else if (typeof type.color !== 'string') {
+      errors.push(`relationshipTypes[${index}] (${type.name}): "color" must be a string`);
+    } else if (!isOneOf(LINE_STYLE_NAMES, type.lineStyle)) {
+      errors.push(`relationshipTypes[${index}] (${type.name}): "lineStyle" must be one of ${LINE_STYLE_NAMES.join(', ')}`);
+    }
+  });
+};
+
+export const validateSaveFile = (data: unknown): string[] => {
+  const errors: string[] = [];
+  if (!isObject(data)) return ['The file does not contain a chart object'];
+
+  const customFields = validateCustomFields(data.customFields, errors);
+  validateRelationshipTypes(data.relationshipTypes, errors);
+
+  if (!Array.isArray(data.people)) {
+    errors.push('"people" must be a list');
+  } else {
+    data.people.forEach((person, index) => validatePerson(person, index, customFields, errors));
+  }
+
+  (['departments', 'locations', 'jobTitles'] as const).forEach(key => {
+    if (!Array.isArray(data[key]) || !data[key].every((v: unknown) => typeof v === 'string')) {
+      errors.push(`"${key}" must be a list of names`);
+    }
+  });
+
+  (['departmentColors', 'locationColors'] as const).forEach(key => {
+    if (!isObject(data[key]) || !Object.values(data[key]).every(v => typeof v === 'string')) {
+      errors.push(`"${key}" must map names to color names`);
+    }
+  });
+
+  (['lineSettings', 'cardSettings'] as const).forEach(key => {
+    if (!isObject(data[key])) {
+      errors.push(`"${key}" must be an object`);
+      return;
+    }
+    Object.entries(data[key]).forEach(([setting, value]) => {
+      const isNameList = Array.isArray(value) && value.every(v => typeof v === 'string');
+      if (!isNameList && !['string', 'number', 'boolean'].includes(typeof value)) {
+        errors.push(`"${key}.${setting}" must be a text, number or true/false value`);
+      }
+    });
+  });
+
+  if (data.savedAt !== undefined && typeof data.savedAt !== 'string') errors.push('"savedAt" must be a date string');
+
+  return errors.length > MAX_ERRORS
+    ? [...errors.slice(0, MAX_ERRORS), `…and ${errors.length - MAX_ERRORS} more problems`]
+    : errors;
+};
+
+// Migrates and validates an already-parsed file (also used for documents stored in IndexedDB)
+export const readSaveFile = (raw: unknown): ParseSaveFileResult => {
+  const fromVersion = detectSchemaVersion(raw);
+  if (fromVersion === null) {
+    return { ok: false, errors: ['The file is not an org chart: expected a list of people or an object with "people"'] };
+  }
+  if (fromVersion > SCHEMA_VERSION) {
+    return {
+      ok: false,
+      errors: [`The file uses format version ${fromVersion}, but this app only reads up to version ${SCHEMA_VERSION}. Update the app to open it.`],
+    };
+  }
+
+  const migrated = migrateSaveFile(raw, fromVersion);
+  const errors = validateSaveFile(migrated);
+  if (errors.length > 0) return { ok: false, errors };
+
+  const { schemaVersion, savedAt, ...data } = migrated as SaveFile;
+  return { ok: true, data, fromVersion };
+};
+
+export const parseSaveFile = (text: string): ParseSaveFileResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, errors: [`The file is not valid JSON: ${(error as Error).message}`] };
+  }
+  return readSaveFile(raw);
+};
+
+export const toSaveFile = (data: SaveFileData): SaveFile => ({
+  schemaVersion: SCHEMA_VERSION,
+  savedAt: new Date().toISOString(),
+  people: data.people,
+  departments: data.departments,
+  locations: data.locations,
+  jobTitles: data.jobTitles,
+  departmentColors: data.departmentColors,
+  locationColors: data.locationColors,
+  lineSettings: data.lineSettings,
+  cardSettings: data.cardSettings,
+  customFields: data.customFields,
+  relationshipTypes: data.relationshipTypes,
+});
+
+export const serializeSaveFile = (data: SaveFileData): string => JSON.stringify(toSaveFile(data), null, 2);
@@ -0,0 +1,81 @@
+import { Person } from '../types';
+import { DiffableChart, diffCharts } from './chartDiff';
+
+// Comparison of a what-if scenario against the chart it was branched from
+
+export type ScenarioChangeKind = 'added' | 'moved' | 'retitled' | 'redepartmented';
+
+export const SCENARIO_CHANGE_LABELS: Record<ScenarioChangeKind, string> = {
+  added: 'New',
+  moved: 'Moved',
+  retitled: 'Retitled',
+  redepartmented: 'Dept',
+};
+
+export interface FieldMove<T> {
+  person: Person;
+  from: T;
+  to: T;
+}
+
+export interface DepartmentHeadcount {
+  department: string;
+  baseline: number;
+  scenario: number;
+  delta: number;
+}
+
+export interface ScenarioComparison {
+  added: Person[];
+  removed: Person[];
+  moved: FieldMove<string | null>[]; // Manager ids
+  retitled: FieldMove<string>[];
+  redepartmented: FieldMove<string>[];
+  headcount: DepartmentHeadcount[];
+  /** Changes per person in the scenario, for marking cards on the chart */
+  marks: Map<string, ScenarioChangeKind[]>;
+}
+
+// Vacancies are open roles, not heads
+const countByDepartment = (people: Person[]) => {
+  const counts = new Map<string, number>();
+  people.filter(p => !p.isVacancy).forEach(p => counts.set(p.department, (counts.get(p.department) || 0) + 1));
+  return counts;
+};
+
+export const compareScenario = (baseline: DiffableChart, scenario: DiffableChart): ScenarioComparison => {
+  const diff = diffCharts(baseline, scenario);
+  const marks = new Map<string, ScenarioChangeKind[]>();
+  const mark = (id: string, kind: ScenarioChangeKind) => marks.set(id, [...(marks.get(id) || []), kind]);
+
+  const moved: ScenarioComparison['moved'] = [];
+  const retitled: ScenarioComparison['retitled'] = [];
+  const redepartmented: ScenarioComparison['redepartmented'] = [];
+
+  diff.added.forEach(p => mark(p.id, 'added'));
+  diff.changed.forEach(({ before, after, fields }) => {
+    if (fields.includes('managerId')) {
+      moved.push({ person: after, from: before.managerId || null, to: after.managerId || null });
+      mark(after.id, 'moved');
+    }
+    if (fields.includes('title')) {
+      retitled.push({ person: after, from: before.title, to: after.title });
+      mark(after.id, 'retitled');
+    }
+    if (fields.includes('department')) {
+      redepartmented.push({ person: after, from: before.department, to: after.department });
+      mark(after.id, 'redepartmented');
+    }
+  });
+
+  const baselineCounts = countByDepartment(baseline.people);
+  const scenarioCounts = countByDepartment(scenario.people);
+  const departments = Array.from(new Set([...baselineCounts.keys(), ...scenarioCounts.keys()])).sort();
+  const headcount = departments.map(department => {
+    const before = baselineCounts.get(department) || 0;
+    const after = scenarioCounts.get(department) || 0;
+    return { department, baseline: before, scenario: after, delta: after - before };
+  });
+
+  return { added: diff.added, removed: diff.removed, moved, retitled, redepartmented, headcount, marks };
+};
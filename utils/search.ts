@@ -0,0 +1,113 @@
+import { Person, CustomFieldDefinition } from '../types';
+import { customFieldText, getCustomFieldValue } from './customFields';
+
+// Fuzzy people search used by the chart search bar.
+// Each whitespace-separated token must match at least one field; results are
+// ranked by how well (exact > prefix > word start > substring > scattered letters)
+// and where (name counts more than location) the tokens matched.
+
+export type SearchField = 'name' | 'title' | 'department' | 'email' | 'teamName' | 'location';
+
+export const SEARCH_FIELDS: Array<{ field: SearchField; label: string; weight: number }> = [
+  { field: 'name', label: 'Name', weight: 1 },
+  { field: 'title', label: 'Title', weight: 0.8 },
+  { field: 'email', label: 'Email', weight: 0.7 },
+  { field: 'department', label: 'Department', weight: 0.6 },
+  { field: 'teamName', label: 'Team', weight: 0.6 },
+  { field: 'location', label: 'Location', weight: 0.5 },
+];
+
+// Custom fields (other than yes/no ones) are searched with this weight
+const CUSTOM_FIELD_WEIGHT = 0.5;
+
+export interface SearchMatch {
+  field: SearchField | 'custom';
+  label: string;
+  value: string; // Text of the matched field
+  start: number; // -1 when the letters matched non-contiguously
+  length: number;
+}
+
+export interface SearchResult {
+  person: Person;
+  score: number;
+  match: SearchMatch; // Best match, used to highlight the result
+}
+
+// Score a single token against a single value (0 = no match)
+const scoreText = (value: string, token: string): { score: number; start: number } => {
+  const text = value.toLowerCase();
+  if (!text) return { score: 0, start: -1 };
+  if (text === token) return { score: 100, start: 0 };
+  if (text.startsWith(token)) return { score: 80, start: 0 };
+
+  const index = text.indexOf(token);
+  if (index !== -1) {
+    // Start of a word ("smith" in "john smith", "ops" in "dev-ops")
+    const wordStart = /[^a-z0-9]/.test(text[index - 1]);
+    return { score: wordStart ? 65 : 50, start: index };
+  }
+
+  // Letters in order, e.g. "jsmth" → "john smith"
+  if (token.length < 2) return { score: 0, start: -1 };
+  let t = 0;
+  let first = -1;
+  let last = -1;
+  for (let i = 0; i < text.length && t < token.length; i++) {
+    if (text[i] === token[t]) {
+      if (first === -1) first = i;
+      last = i;
+      t++;
+    }
+  }
+  if (t < token.length) return { score: 0, start: -1 };
+  // Tighter spans score higher
+  return { score: 30 * (token.length / (last - first + 1)), start: -1 };
+};
+
+export const searchPeople = (people: Person[], query: string, limit = Infinity, customFields: CustomFieldDefinition[] = []): SearchResult[] => {
+  const tokens = query.toLowerCase().trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return [];
+  const searchableCustomFields = customFields.filter(f => f.type !== 'boolean');
+
+  const results: SearchResult[] = [];
+  people.forEach(person => {
+    let total = 0;
+    let best: { score: number; match: SearchMatch } | null = null;
+
+    const candidates = [
+      ...SEARCH_FIELDS.map(({ field, label, weight }) => ({
+        field,
+        label,
+        weight,
+        value: field === 'name' && person.isVacancy ? 'Open Position' : String(person[field] || ''),
+      })),
+      ...searchableCustomFields.map(f => ({
+        field: 'custom' as const,
+        label: f.label,
+        weight: CUSTOM_FIELD_WEIGHT,
+        value: customFieldText(f, getCustomFieldValue(person, f)),
+      })),
+    ];
+
+    for (const token of tokens) {
+      let tokenBest = 0;
+      candidates.forEach(({ field, label, weight, value }) => {
+        const { score, start } = scoreText(value, token);
+        const weighted = score * weight;
+        if (weighted > tokenBest) tokenBest = weighted;
+        if (weighted > 0 && (!best || weighted > best.score)) {
+          best = { score: weighted, match: { field, label, value, start, length: token.length } };
+        }
+      });
+      if (tokenBest === 0) return; // every token has to match somewhere
+      total += tokenBest;
+    }
+
+    if (best) results.push({ person, score: total, match: (best as { match: SearchMatch }).match });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || a.person.name.localeCompare(b.person.name))
+    .slice(0, limit);
+};
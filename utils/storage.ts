@@ -0,0 +1,177 @@
+import { SaveFile, SaveFileData, readSaveFile, toSaveFile } from './saveFormat';
+
+// IndexedDB persistence. Each workspace's chart is stored as one document (a SaveFile,
+// so the normal migrations apply on load) and written in a single transaction;
+// named snapshots are full copies kept alongside it.
+
+const DB_NAME = 'org-chart';
+const DB_VERSION = 2;
+const DOCUMENTS_STORE = 'documents';
+const SNAPSHOTS_STORE = 'snapshots';
+const WORKSPACES_STORE = 'workspaces';
+
+// The document written before workspaces existed; it becomes the first workspace
+export const DEFAULT_WORKSPACE_ID = 'current';
+const DEFAULT_WORKSPACE_NAME = 'My Chart';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+  baselineId?: string; // Set on what-if scenarios: the workspace they were branched from
+}
+
+export interface Snapshot {
+  id: string;
+  workspaceId?: string; // Missing on snapshots taken before workspaces existed
+  name: string;
+  createdAt: string;
+  file: SaveFile;
+}
+
+export interface SnapshotSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  peopleCount: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) db.createObjectStore(DOCUMENTS_STORE);
+        if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(WORKSPACES_STORE)) db.createObjectStore(WORKSPACES_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Runs `action` in one transaction and resolves with its request's result once the transaction commits
+const runTransaction = async <T,>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore, transaction: IDBTransaction) => IDBRequest<T> | void,
+  extraStores: string[] = []
+): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName, ...extraStores], mode);
+    const request = action(transaction.objectStore(storeName), transaction);
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+};
+
+const toData = (raw: unknown, label: string): SaveFileData | null => {
+  const result = readSaveFile(raw);
+  if ('errors' in result) {
+    console.warn(`Ignoring unreadable ${label}:`, result.errors);
+    return null;
+  }
+  return result.data;
+};
+
+/** A workspace's saved chart. An unreadable one (corrupt, or saved by a newer version) must not be overwritten */
+export type LoadedDocument =
+  | { status: 'missing' }
+  | { status: 'loaded'; data: SaveFileData }
+  | { status: 'unreadable'; errors: string[] };
+
+export const loadDocument = async (workspaceId: string): Promise<LoadedDocument> => {
+  const raw = await runTransaction<unknown>(DOCUMENTS_STORE, 'readonly', store => store.get(workspaceId));
+  if (raw === undefined) return { status: 'missing' };
+  const result = readSaveFile(raw);
+  return 'errors' in result ? { status: 'unreadable', errors: result.errors } : { status: 'loaded', data: result.data };
+};
+
+export const saveDocument = async (workspaceId: string, data: SaveFileData): Promise<void> => {
+  await runTransaction(DOCUMENTS_STORE, 'readwrite', store => store.put(toSaveFile(data), workspaceId));
+};
+
+/** Oldest first; the default workspace is registered on first use */
+export const listWorkspaces = async (): Promise<Workspace[]> => {
+  const workspaces = (await runTransaction<Workspace[]>(WORKSPACES_STORE, 'readonly', store => store.getAll())) || [];
+  if (workspaces.length > 0) return workspaces.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const workspace: Workspace = { id: DEFAULT_WORKSPACE_ID, name: DEFAULT_WORKSPACE_NAME, createdAt: new Date().toISOString() };
+  await runTransaction(WORKSPACES_STORE, 'readwrite', store => store.put(workspace));
+  return [workspace];
+};
+
+/** Registers the workspace and stores its first document in one transaction */
+export const createWorkspace = async (name: string, data: SaveFileData, baselineId?: string): Promise<Workspace> => {
+  const workspace: Workspace = { id: crypto.randomUUID(), name, createdAt: new Date().toISOString(), baselineId };
+  await runTransaction(WORKSPACES_STORE, 'readwrite', (store, transaction) => {
+    store.add(workspace);
+    transaction.objectStore(DOCUMENTS_STORE).put(toSaveFile(data), workspace.id);
+  }, [DOCUMENTS_STORE]);
+  return workspace;
+};
+
+export const renameWorkspace = async (workspace: Workspace, name: string): Promise<Workspace> => {
+  const renamed = { ...workspace, name };
+  await runTransaction(WORKSPACES_STORE, 'readwrite', store => store.put(renamed));
+  return renamed;
+};
+
+/** Removes the workspace, its chart and its snapshots */
+export const deleteWorkspace = async (workspaceId: string): Promise<void> => {
+  await runTransaction(WORKSPACES_STORE, 'readwrite', (store, transaction) => {
+    store.delete(workspaceId);
+    transaction.objectStore(DOCUMENTS_STORE).delete(workspaceId);
+    const snapshots = transaction.objectStore(SNAPSHOTS_STORE);
+    const cursorRequest = snapshots.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if (((cursor.value as Snapshot).workspaceId || DEFAULT_WORKSPACE_ID) === workspaceId) cursor.delete();
+      cursor.continue();
+    };
+  }, [DOCUMENTS_STORE, SNAPSHOTS_STORE]);
+};
+
+/** Newest first */
+export const listSnapshots = async (workspaceId: string): Promise<SnapshotSummary[]> => {
+  const snapshots = (await runTransaction<Snapshot[]>(SNAPSHOTS_STORE, 'readonly', store => store.getAll())) || [];
+  return snapshots
+    .filter(s => (s.workspaceId || DEFAULT_WORKSPACE_ID) === workspaceId)
+    .map(s => ({ id: s.id, name: s.name, createdAt: s.createdAt, peopleCount: Array.isArray(s.file?.people) ? s.file.people.length : 0 }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const createSnapshot = async (workspaceId: string, name: string, data: SaveFileData): Promise<SnapshotSummary> => {
+  const snapshot: Snapshot = {
+    id: crypto.randomUUID(),
+    workspaceId,
+    name,
+    createdAt: new Date().toISOString(),
+    file: toSaveFile(data),
+  };
+  await runTransaction(SNAPSHOTS_STORE, 'readwrite', store => store.add(snapshot));
+  return { id: snapshot.id, name, createdAt: snapshot.createdAt, peopleCount: data.people.length };
+};
+
+export const loadSnapshot = async (id: string): Promise<SaveFileData | null> => {
+  const snapshot = await runTransaction<Snapshot | undefined>(SNAPSHOTS_STORE, 'readonly', store => store.get(id));
+  return snapshot ? toData(snapshot.file, `snapshot "${snapshot.name}"`) : null;
+};
+
+export const deleteSnapshot = async (id: string): Promise<void> => {
+  await runTransaction(SNAPSHOTS_STORE, 'readwrite', store => store.delete(id));
+};
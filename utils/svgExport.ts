@@ -0,0 +1,361 @@
+// Vector export of the rendered chart.
+// Walks the live #chart-content DOM and re-emits it as plain SVG primitives
+// (rects, text, images, paths) so the result opens cleanly in Illustrator/Inkscape.
+//
+// Paint order mirrors the canvas:
+//   1. background layer - tier bands and team/department backgrounds (negative z-index)
+//   2. connection lines from Lines.tsx
+//   3. everything else (cards, badges, labels) in DOM order
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Inter ascent/descent ratios, used to place text on its baseline
+const FONT_ASCENT = 0.97;
+const FONT_LINE_HEIGHT = 1.21;
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// Split rgba() into an opaque color + opacity for editors that don't read rgba fills
+const parseColor = (value: string): { color: string; opacity: number } | null => {
+  if (!value || value === 'transparent') return null;
+  const match = value.match(/rgba?\(([^)]+)\)/);
+  if (!match) return { color: value, opacity: 1 };
+  const parts = match[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+  const [r, g, b] = parts;
+  const a = parts.length > 3 ? parts[3] : 1;
+  if (a === 0) return null;
+  return { color: `rgb(${r}, ${g}, ${b})`, opacity: a };
+};
+
+const fetchAsDataUrl = async (url: string): Promise<string> => {
+  if (url.startsWith('data:')) return url;
+  try {
+    const response = await fetch(url, { mode: 'cors' });
+    if (!response.ok) return url;
+    const blob = await response.blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    // CORS or network failure - keep the external reference
+    return url;
+  }
+};
+
+// Inline the Latin subset of web fonts (Inter) as @font-face rules with data URIs
+const buildEmbeddedFontCss = async (): Promise<string> => {
+  const links = Array.from(document.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"][href*="fonts.googleapis"]'));
+  const blocks: string[] = [];
+
+  for (const link of links) {
+    try {
+      const css = await (await fetch(link.href)).text();
+      const faces = css.match(/@font-face\s*{[^}]*}/g) || [];
+      for (const face of faces) {
+        // Only latin - other subsets bloat the file and the chart rarely needs them
+        if (!/unicode-range:[^;]*U\+0000-00FF/i.test(face)) continue;
+        const urlMatch = face.match(/url\(([^)]+)\)/);
+        if (!urlMatch) continue;
+        const dataUrl = await fetchAsDataUrl(urlMatch[1].replace(/['"]/g, ''));
+        blocks.push(face.replace(urlMatch[0], `url(${dataUrl})`));
+      }
+    } catch (err) {
+      console.warn('Could not embed web font:', err);
+    }
+  }
+  return blocks.join('\n');
+};
+
+interface ExportContext {
+  containerRect: DOMRect;
+  scale: number;
+  defs: string[];
+  clipIds: Map<Element, string>;
+  imageCache: Map<string, Promise<string>>;
+  idCounter: number;
+}
+
+const toLocal = (ctx: ExportContext, rect: DOMRect) => ({
+  x: round((rect.left - ctx.containerRect.left) / ctx.scale),
+  y: round((rect.top - ctx.containerRect.top) / ctx.scale),
+  width: round(rect.width / ctx.scale),
+  height: round(rect.height / ctx.scale),
+});
+
+const nextId = (ctx: ExportContext, prefix: string) => `${prefix}-${++ctx.idCounter}`;
+
+const radiusFor = (style: CSSStyleDeclaration, width: number, height: number) => {
+  const r = parseFloat(style.borderTopLeftRadius) || 0;
+  return round(Math.min(r, width / 2, height / 2));
+};
+
+// Clip path matching an element's box (used for overflow:hidden and truncated text)
+const getClipId = (ctx: ExportContext, el: Element): string => {
+  const existing = ctx.clipIds.get(el);
+  if (existing) return existing;
+  const box = toLocal(ctx, el.getBoundingClientRect());
+  const style = getComputedStyle(el);
+  const id = nextId(ctx, 'clip');
+  ctx.defs.push(`<clipPath id="${id}"><rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="${radiusFor(style, box.width, box.height)}"/></clipPath>`);
+  ctx.clipIds.set(el, id);
+  return id;
+};
+
+const nearestClippingAncestor = (el: Element, container: Element): Element | null => {
+  let current: Element | null = el;
+  while (current && current !== container) {
+    const style = getComputedStyle(current);
+    if (style.overflowX !== 'visible' || style.overflowY !== 'visible') return current;
+    current = current.parentElement;
+  }
+  return null;
+};
+
+const gradientFill = (ctx: ExportContext, backgroundImage: string): string | null => {
+  if (!backgroundImage.startsWith('linear-gradient')) return null;
+  const colors = backgroundImage.match(/rgba?\([^)]+\)/g);
+  if (!colors || colors.length < 2) return null;
+  const horizontal = /to (left|right)|90deg|270deg/.test(backgroundImage);
+  const id = nextId(ctx, 'grad');
+  const stops = colors.map((c, i) => {
+    const parsed = parseColor(c);
+    const offset = round((i / (colors.length - 1)) * 100);
+    return parsed ? `<stop offset="${offset}%" stop-color="${parsed.color}" stop-opacity="${parsed.opacity}"/>` : '';
+  }).join('');
+  ctx.defs.push(`<linearGradient id="${id}" x1="0" y1="0" x2="${horizontal ? 1 : 0}" y2="${horizontal ? 0 : 1}">${stops}</linearGradient>`);
+  return `url(#${id})`;
+};
+
+// Background + borders of a box
+const renderBox = (ctx: ExportContext, el: HTMLElement, style: CSSStyleDeclaration, opacity: number): string => {
+  const box = toLocal(ctx, el.getBoundingClientRect());
+  if (box.width <= 0 || box.height <= 0) return '';
+  const rx = radiusFor(style, box.width, box.height);
+  const out: string[] = [];
+
+  const gradient = gradientFill(ctx, style.backgroundImage);
+  const bg = parseColor(style.backgroundColor);
+  if (gradient || bg) {
+    const fill = gradient || bg!.color;
+    const fillOpacity = round((gradient ? 1 : bg!.opacity) * opacity);
+    out.push(`<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="${rx}" fill="${fill}" fill-opacity="${fillOpacity}"/>`);
+  }
+
+  const sides = (['Top', 'Right', 'Bottom', 'Left'] as const).map(side => ({
+    side,
+    width: parseFloat(style.getPropertyValue(`border-${side.toLowerCase()}-width`)) || 0,
+    color: parseColor(style.getPropertyValue(`border-${side.toLowerCase()}-color`)),
+    style: style.getPropertyValue(`border-${side.toLowerCase()}-style`),
+  })).filter(s => s.width > 0 && s.color && s.style !== 'none' && s.style !== 'hidden');
+
+  const dashFor = (borderStyle: string, width: number) =>
+    borderStyle === 'dashed' ? ` stroke-dasharray="${width * 4} ${width * 3}"` : borderStyle === 'dotted' ? ` stroke-dasharray="0 ${width * 2}" stroke-linecap="round"` : '';
+
+  const uniform = sides.length === 4 && sides.every(s => s.width === sides[0].width && s.color!.color === sides[0].color!.color && s.style === sides[0].style);
+  if (uniform) {
+    const { width, color, style: borderStyle } = sides[0];
+    const inset = width / 2;
+    out.push(`<rect x="${round(box.x + inset)}" y="${round(box.y + inset)}" width="${round(box.width - width)}" height="${round(box.height - width)}" rx="${round(Math.max(0, rx - inset))}" fill="none" stroke="${color!.color}" stroke-opacity="${round(color!.opacity * opacity)}" stroke-width="${width}"${dashFor(borderStyle, width)}/>`);
+  } else {
+    sides.forEach(({ side, width, color, style: borderStyle }) => {
+      const half = width / 2;
+      const coords = {
+        Top: [box.x, box.y + half, box.x + box.width, box.y + half],
+        Bottom: [box.x, box.y + box.height - half, box.x + box.width, box.y + box.height - half],
+        Left: [box.x + half, box.y, box.x + half, box.y + box.height],
+        Right: [box.x + box.width - half, box.y, box.x + box.width - half, box.y + box.height],
+      }[side].map(round);
+      out.push(`<line x1="${coords[0]}" y1="${coords[1]}" x2="${coords[2]}" y2="${coords[3]}" stroke="${color!.color}" stroke-opacity="${round(color!.opacity * opacity)}" stroke-width="${width}"${dashFor(borderStyle, width)}/>`);
+    });
+  }
+
+  return out.join('');
+};
+
+const applyTextTransform = (text: string, transform: string) => {
+  if (transform === 'uppercase') return text.toUpperCase();
+  if (transform === 'lowercase') return text.toLowerCase();
+  if (transform === 'capitalize') return text.replace(/\b\w/g, c => c.toUpperCase());
+  return text;
+};
+
+const renderText = (ctx: ExportContext, node: Text, container: Element, opacity: number): string => {
+  const parent = node.parentElement;
+  const raw = node.textContent || '';
+  if (!parent || !raw.trim()) return '';
+
+  const style = getComputedStyle(parent);
+  const color = parseColor(style.color);
+  if (!color) return '';
+
+  const fontSize = parseFloat(style.fontSize) || 12;
+  const attrs = [
+    `font-family="${escapeXml(style.fontFamily)}"`,
+    `font-size="${fontSize}"`,
+    `font-weight="${style.fontWeight}"`,
+    style.fontStyle !== 'normal' ? `font-style="${style.fontStyle}"` : '',
+    style.letterSpacing !== 'normal' ? `letter-spacing="${parseFloat(style.letterSpacing) || 0}"` : '',
+    `fill="${color.color}"`,
+    `fill-opacity="${round(color.opacity * opacity)}"`,
+  ].filter(Boolean).join(' ');
+
+  const clipEl = nearestClippingAncestor(parent, container);
+  const clipAttr = clipEl ? ` clip-path="url(#${getClipId(ctx, clipEl)})"` : '';
+
+  // Group words into visual lines so wrapped text keeps its layout
+  const range = document.createRange();
+  const lines: Array<{ text: string; rect: DOMRect }> = [];
+  const wordPattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(raw)) !== null) {
+    range.setStart(node, match.index);
+    range.setEnd(node, match.index + match[0].length);
+    const rect = range.getBoundingClientRect();
+    if (rect.width === 0 && rect.height === 0) continue;
+    const last = lines[lines.length - 1];
+    if (last && Math.abs(last.rect.top - rect.top) < 1) {
+      last.text += ' ' + match[0];
+    } else {
+      lines.push({ text: match[0], rect });
+    }
+  }
+
+  return lines.map(({ text, rect }) => {
+    const local = toLocal(ctx, rect);
+    const baseline = round(local.y + (local.height - fontSize * FONT_LINE_HEIGHT) / 2 + fontSize * FONT_ASCENT);
+    const content = escapeXml(applyTextTransform(text, style.textTransform));
+    return `<text x="${local.x}" y="${baseline}" ${attrs}${clipAttr} xml:space="preserve">${content}</text>`;
+  }).join('');
+};
+
+const renderImage = async (ctx: ExportContext, img: HTMLImageElement, style: CSSStyleDeclaration, opacity: number): Promise<string> => {
+  const box = toLocal(ctx, img.getBoundingClientRect());
+  if (!img.currentSrc && !img.src) return '';
+  const src = img.currentSrc || img.src;
+  if (!ctx.imageCache.has(src)) ctx.imageCache.set(src, fetchAsDataUrl(src));
+  const href = await ctx.imageCache.get(src)!;
+
+  const rx = radiusFor(style, box.width, box.height);
+  let clipAttr = '';
+  if (rx > 0) {
+    const id = nextId(ctx, 'clip');
+    ctx.defs.push(`<clipPath id="${id}"><rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="${rx}"/></clipPath>`);
+    clipAttr = ` clip-path="url(#${id})"`;
+  }
+  const aspect = style.objectFit === 'cover' ? 'xMidYMid slice' : 'xMidYMid meet';
+  return `<image x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" href="${escapeXml(href)}" preserveAspectRatio="${aspect}" opacity="${round(opacity)}"${clipAttr}/>`;
+};
+
+// Inline icon (lucide) - clone with explicit colors instead of currentColor
+const renderIcon = (ctx: ExportContext, svg: SVGSVGElement, style: CSSStyleDeclaration, opacity: number): string => {
+  const box = toLocal(ctx, svg.getBoundingClientRect());
+  const color = parseColor(style.color)?.color || '#000';
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.removeAttribute('class');
+  clone.setAttribute('x', String(box.x));
+  clone.setAttribute('y', String(box.y));
+  clone.setAttribute('width', String(box.width));
+  clone.setAttribute('height', String(box.height));
+  clone.setAttribute('opacity', String(round(opacity)));
+  return new XMLSerializer().serializeToString(clone).replace(/currentColor/g, color);
+};
+
+const copyAttributes = (el: Element, names: string[]): string =>
+  names
+    .map(name => {
+      const value = el.getAttribute(name);
+      return value != null ? `${name}="${escapeXml(name === 'd' ? value.replace(/\s+/g, ' ').trim() : value)}"` : '';
+    })
+    .filter(Boolean)
+    .join(' ');
+
+// Connector paths, then their labels (dotted-line relationship names) on top
+const renderLines = (ctx: ExportContext, svg: SVGSVGElement): string => {
+  const paths = Array.from(svg.querySelectorAll('path')).map(path =>
+    `<path ${copyAttributes(path, ['d', 'fill', 'stroke', 'stroke-width', 'stroke-dasharray', 'stroke-linecap', 'stroke-linejoin', 'opacity'])}/>`
+  );
+  const labels = Array.from(svg.querySelectorAll('text')).map(text => {
+    const attrs = copyAttributes(text, ['x', 'y', 'fill', 'font-size', 'font-weight', 'stroke', 'stroke-width', 'paint-order', 'dominant-baseline']);
+    const fontFamily = escapeXml(getComputedStyle(text).fontFamily);
+    return `<text ${attrs} font-family="${fontFamily}">${escapeXml(text.textContent || '')}</text>`;
+  });
+  return [...paths, ...labels].join('');
+};
+
+const isBackgroundRoot = (el: HTMLElement) =>
+  el.hasAttribute('data-tier-band') || (parseInt(el.style.zIndex, 10) < 0);
+
+export const buildChartSvg = async (container: HTMLElement, options: { backgroundColor?: string } = {}): Promise<string> => {
+  const containerRect = container.getBoundingClientRect();
+  const scale = containerRect.width / (container.offsetWidth || 1) || 1;
+  const ctx: ExportContext = { containerRect, scale, defs: [], clipIds: new Map(), imageCache: new Map(), idCounter: 0 };
+
+  const backgroundLayer: string[] = [];
+  const linesLayer: string[] = [];
+  const mainLayer: string[] = [];
+
+  const walk = async (el: Element, parentOpacity: number, out: string[]) => {
+    if (el.hasAttribute('data-export-ignore')) return;
+
+    if (el.hasAttribute('data-chart-lines')) {
+      linesLayer.push(renderLines(ctx, el as SVGSVGElement));
+      return;
+    }
+
+    const style = getComputedStyle(el);
+    if (style.display === 'none') return;
+    const opacity = parentOpacity * (parseFloat(style.opacity) || 0);
+    if (opacity <= 0.01) return;
+    const visible = style.visibility !== 'hidden';
+
+    if (el instanceof SVGSVGElement) {
+      if (visible) out.push(renderIcon(ctx, el, style, opacity));
+      return;
+    }
+    if (!(el instanceof HTMLElement)) return;
+
+    const target = el !== container && isBackgroundRoot(el) ? backgroundLayer : out;
+
+    if (visible && el !== container) {
+      if (el instanceof HTMLImageElement) {
+        target.push(await renderImage(ctx, el, style, opacity));
+        return;
+      }
+      target.push(renderBox(ctx, el, style, opacity));
+    }
+
+    for (const child of Array.from(el.childNodes)) {
+      if (child.nodeType === Node.TEXT_NODE) {
+        if (visible) target.push(renderText(ctx, child as Text, container, opacity));
+      } else if (child instanceof Element) {
+        await walk(child, opacity, target);
+      }
+    }
+  };
+
+  await walk(container, 1, mainLayer);
+
+  const width = Math.ceil(container.offsetWidth);
+  const height = Math.ceil(container.offsetHeight);
+  const fontCss = await buildEmbeddedFontCss();
+  const background = options.backgroundColor
+    ? `<rect x="0" y="0" width="${width}" height="${height}" fill="${options.backgroundColor}"/>`
+    : '';
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="${SVG_NS}" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<defs>${fontCss ? `<style>${fontCss}</style>` : ''}${ctx.defs.join('')}</defs>`,
+    background,
+    `<g id="backgrounds">${backgroundLayer.join('')}</g>`,
+    `<g id="lines">${linesLayer.join('')}</g>`,
+    `<g id="chart">${mainLayer.join('')}</g>`,
+    `</svg>`,
+  ].join('\n');
+};